@@ -6,5 +6,7 @@ export default createConfig({
   plugins: { drizzle },
   rules: {
     ...drizzle.configs.recommended.rules,
+    "drizzle/enforce-delete-with-where": ["error", { drizzleObjectName: ["db", "tx"] }],
+    "drizzle/enforce-update-with-where": ["error", { drizzleObjectName: ["db", "tx"] }],
   },
 });
@@ -17,5 +17,8 @@ const pool = new Pool({
 // Create the Drizzle client
 export const db = drizzle(pool, { schema })
 
+// The client or an open transaction, for helpers that run inside either
+export type Executor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0]
+
 // Export the pool for direct access if needed
 export { pool }
\ No newline at end of file
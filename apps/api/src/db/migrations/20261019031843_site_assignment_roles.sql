@@ -0,0 +1,3 @@
+CREATE TYPE "public"."site_role" AS ENUM('manager', 'operator');--> statement-breakpoint
+ALTER TABLE "user_site_assignments" ADD COLUMN "role" "site_role" DEFAULT 'operator' NOT NULL;--> statement-breakpoint
+CREATE INDEX "user_site_assignments_role_idx" ON "user_site_assignments" USING btree ("role");
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE "device_status_history" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"device_id" uuid NOT NULL,
+	"from_status" "device_status",
+	"to_status" "device_status" NOT NULL,
+	"reason" varchar(255) NOT NULL,
+	"changed_by" uuid,
+	"changed_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "device_status_history" ADD CONSTRAINT "device_status_history_device_id_devices_id_fk" FOREIGN KEY ("device_id") REFERENCES "public"."devices"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "device_status_history" ADD CONSTRAINT "device_status_history_changed_by_users_id_fk" FOREIGN KEY ("changed_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "device_status_history_device_id_idx" ON "device_status_history" USING btree ("device_id");--> statement-breakpoint
+CREATE INDEX "device_status_history_changed_at_idx" ON "device_status_history" USING btree ("changed_at");
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "device_telemetry" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"device_id" uuid NOT NULL,
+	"metric" varchar(100) NOT NULL,
+	"value" double precision NOT NULL,
+	"recorded_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "device_telemetry" ADD CONSTRAINT "device_telemetry_device_id_devices_id_fk" FOREIGN KEY ("device_id") REFERENCES "public"."devices"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "device_telemetry_device_metric_recorded_at_idx" ON "device_telemetry" USING btree ("device_id","metric","recorded_at");
\ No newline at end of file
@@ -0,0 +1,20 @@
+CREATE TYPE "public"."device_command_status" AS ENUM('pending', 'delivered', 'succeeded', 'failed');--> statement-breakpoint
+CREATE TYPE "public"."device_command_type" AS ENUM('reboot', 'configure', 'firmware_update');--> statement-breakpoint
+CREATE TABLE "device_commands" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"device_id" uuid NOT NULL,
+	"type" "device_command_type" NOT NULL,
+	"payload" jsonb,
+	"status" "device_command_status" DEFAULT 'pending' NOT NULL,
+	"result" jsonb,
+	"error_message" text,
+	"issued_by" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"delivered_at" timestamp,
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "device_commands" ADD CONSTRAINT "device_commands_device_id_devices_id_fk" FOREIGN KEY ("device_id") REFERENCES "public"."devices"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "device_commands" ADD CONSTRAINT "device_commands_issued_by_users_id_fk" FOREIGN KEY ("issued_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "device_commands_device_status_created_at_idx" ON "device_commands" USING btree ("device_id","status","created_at");--> statement-breakpoint
+CREATE INDEX "device_commands_issued_by_idx" ON "device_commands" USING btree ("issued_by");
\ No newline at end of file
@@ -0,0 +1,38 @@
+CREATE TYPE "public"."firmware_campaign_status" AS ENUM('running', 'halted', 'completed', 'cancelled');--> statement-breakpoint
+CREATE TABLE "firmware_campaign_devices" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"campaign_id" uuid NOT NULL,
+	"device_id" uuid NOT NULL,
+	"wave" integer NOT NULL,
+	"command_id" uuid,
+	CONSTRAINT "unique_campaign_device" UNIQUE("campaign_id","device_id")
+);
+--> statement-breakpoint
+CREATE TABLE "firmware_campaigns" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"firmware_version" varchar(100) NOT NULL,
+	"firmware_url" text NOT NULL,
+	"checksum" varchar(255),
+	"target" jsonb NOT NULL,
+	"waves" jsonb NOT NULL,
+	"failure_threshold" double precision NOT NULL,
+	"status" "firmware_campaign_status" DEFAULT 'running' NOT NULL,
+	"current_wave" integer DEFAULT 0 NOT NULL,
+	"halt_reason" text,
+	"created_by" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "firmware_campaign_devices" ADD CONSTRAINT "firmware_campaign_devices_campaign_id_firmware_campaigns_id_fk" FOREIGN KEY ("campaign_id") REFERENCES "public"."firmware_campaigns"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "firmware_campaign_devices" ADD CONSTRAINT "firmware_campaign_devices_device_id_devices_id_fk" FOREIGN KEY ("device_id") REFERENCES "public"."devices"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "firmware_campaign_devices" ADD CONSTRAINT "firmware_campaign_devices_command_id_device_commands_id_fk" FOREIGN KEY ("command_id") REFERENCES "public"."device_commands"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "firmware_campaigns" ADD CONSTRAINT "firmware_campaigns_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "firmware_campaigns" ADD CONSTRAINT "firmware_campaigns_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "firmware_campaign_devices_campaign_wave_idx" ON "firmware_campaign_devices" USING btree ("campaign_id","wave");--> statement-breakpoint
+CREATE INDEX "firmware_campaign_devices_command_id_idx" ON "firmware_campaign_devices" USING btree ("command_id");--> statement-breakpoint
+CREATE INDEX "firmware_campaigns_tenant_id_idx" ON "firmware_campaigns" USING btree ("tenant_id");--> statement-breakpoint
+CREATE INDEX "firmware_campaigns_status_idx" ON "firmware_campaigns" USING btree ("status");
\ No newline at end of file
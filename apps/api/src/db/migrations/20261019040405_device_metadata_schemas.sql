@@ -0,0 +1,14 @@
+CREATE TABLE "device_metadata_schemas" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"device_type" "device_type" NOT NULL,
+	"schema" jsonb NOT NULL,
+	"updated_by" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "unique_tenant_device_type" UNIQUE("tenant_id","device_type")
+);
+--> statement-breakpoint
+ALTER TABLE "device_metadata_schemas" ADD CONSTRAINT "device_metadata_schemas_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "public"."tenants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "device_metadata_schemas" ADD CONSTRAINT "device_metadata_schemas_updated_by_users_id_fk" FOREIGN KEY ("updated_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "device_metadata_schemas_tenant_id_idx" ON "device_metadata_schemas" USING btree ("tenant_id");
\ No newline at end of file
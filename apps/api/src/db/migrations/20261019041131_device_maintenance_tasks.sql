@@ -0,0 +1,16 @@
+CREATE TYPE "public"."maintenance_trigger" AS ENUM('error', 'offline');--> statement-breakpoint
+CREATE TABLE "device_maintenance_tasks" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"task_id" integer NOT NULL,
+	"device_id" uuid NOT NULL,
+	"site_id" uuid NOT NULL,
+	"trigger" "maintenance_trigger" NOT NULL,
+	"opened_at" timestamp DEFAULT now() NOT NULL,
+	"closed_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "device_maintenance_tasks" ADD CONSTRAINT "device_maintenance_tasks_task_id_tasks_id_fk" FOREIGN KEY ("task_id") REFERENCES "public"."tasks"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "device_maintenance_tasks" ADD CONSTRAINT "device_maintenance_tasks_device_id_devices_id_fk" FOREIGN KEY ("device_id") REFERENCES "public"."devices"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "device_maintenance_tasks" ADD CONSTRAINT "device_maintenance_tasks_site_id_sites_id_fk" FOREIGN KEY ("site_id") REFERENCES "public"."sites"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "device_maintenance_tasks_open_device_idx" ON "device_maintenance_tasks" USING btree ("device_id") WHERE "device_maintenance_tasks"."closed_at" is null;--> statement-breakpoint
+CREATE INDEX "device_maintenance_tasks_task_id_idx" ON "device_maintenance_tasks" USING btree ("task_id");
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE "device_site_movements" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"device_id" uuid NOT NULL,
+	"from_site_id" uuid,
+	"to_site_id" uuid,
+	"reason" text,
+	"moved_by" uuid,
+	"moved_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "device_site_movements" ADD CONSTRAINT "device_site_movements_device_id_devices_id_fk" FOREIGN KEY ("device_id") REFERENCES "public"."devices"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "device_site_movements" ADD CONSTRAINT "device_site_movements_from_site_id_sites_id_fk" FOREIGN KEY ("from_site_id") REFERENCES "public"."sites"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "device_site_movements" ADD CONSTRAINT "device_site_movements_to_site_id_sites_id_fk" FOREIGN KEY ("to_site_id") REFERENCES "public"."sites"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "device_site_movements" ADD CONSTRAINT "device_site_movements_moved_by_users_id_fk" FOREIGN KEY ("moved_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "device_site_movements_device_id_idx" ON "device_site_movements" USING btree ("device_id");--> statement-breakpoint
+CREATE INDEX "device_site_movements_moved_at_idx" ON "device_site_movements" USING btree ("moved_at");
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "tasks" ADD COLUMN "assignee_id" uuid;--> statement-breakpoint
+ALTER TABLE "tasks" ADD CONSTRAINT "tasks_assignee_id_users_id_fk" FOREIGN KEY ("assignee_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "tasks_assignee_id_idx" ON "tasks" USING btree ("assignee_id");
\ No newline at end of file
@@ -0,0 +1,6 @@
+ALTER TABLE "tasks" ADD COLUMN "site_id" uuid;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "device_id" uuid;--> statement-breakpoint
+ALTER TABLE "tasks" ADD CONSTRAINT "tasks_site_id_sites_id_fk" FOREIGN KEY ("site_id") REFERENCES "public"."sites"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tasks" ADD CONSTRAINT "tasks_device_id_devices_id_fk" FOREIGN KEY ("device_id") REFERENCES "public"."devices"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "tasks_site_id_idx" ON "tasks" USING btree ("site_id");--> statement-breakpoint
+CREATE INDEX "tasks_device_id_idx" ON "tasks" USING btree ("device_id");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "tasks" ADD COLUMN "search_vector" "tsvector" GENERATED ALWAYS AS (setweight(to_tsvector('english', coalesce(name, '')), 'A') || setweight(to_tsvector('english', coalesce(description, '')), 'B')) STORED;--> statement-breakpoint
+CREATE INDEX "tasks_search_vector_idx" ON "tasks" USING gin ("search_vector");
\ No newline at end of file
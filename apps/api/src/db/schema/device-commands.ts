@@ -0,0 +1,98 @@
+import {
+  index,
+  jsonb,
+  pgEnum,
+  pgTable,
+  text,
+  timestamp,
+  uuid,
+} from "drizzle-orm/pg-core";
+import { z } from "zod";
+
+import { devices } from "./devices";
+import { users } from "./users";
+
+// Command type and status enums
+export const deviceCommandTypeEnum = pgEnum("device_command_type", [
+  "reboot",
+  "configure",
+  "firmware_update",
+]);
+
+export const deviceCommandStatusEnum = pgEnum("device_command_status", [
+  "pending",
+  "delivered",
+  "succeeded",
+  "failed",
+]);
+
+// Device commands table, one row per command issued to a device
+export const deviceCommands = pgTable("device_commands", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  deviceId: uuid("device_id").notNull().references(() => devices.id, { onDelete: "cascade" }),
+  type: deviceCommandTypeEnum("type").notNull(),
+  payload: jsonb("payload").$type<Record<string, any>>(), // Type-specific arguments, e.g. the firmware version to install
+  status: deviceCommandStatusEnum("status").notNull().default("pending"),
+  result: jsonb("result").$type<Record<string, any>>(), // What the device reported when it acknowledged the command
+  errorMessage: text("error_message"),
+  issuedBy: uuid("issued_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  deliveredAt: timestamp("delivered_at"), // First time the device polled the command
+  completedAt: timestamp("completed_at"), // When the device acknowledged the command
+}, table => [
+  // Devices poll for their own pending commands, oldest first
+  index("device_commands_device_status_created_at_idx").on(table.deviceId, table.status, table.createdAt),
+  index("device_commands_issued_by_idx").on(table.issuedBy),
+]);
+
+// Zod schemas
+export const selectDeviceCommandSchema = z.object({
+  id: z.string(),
+  deviceId: z.string(),
+  type: z.enum(["reboot", "configure", "firmware_update"]),
+  payload: z.record(z.any()).nullable(),
+  status: z.enum(["pending", "delivered", "succeeded", "failed"]),
+  result: z.record(z.any()).nullable(),
+  errorMessage: z.string().nullable(),
+  issuedBy: z.string().nullable(),
+  createdAt: z.date(),
+  deliveredAt: z.date().nullable(),
+  completedAt: z.date().nullable(),
+});
+
+export const insertDeviceCommandSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("reboot"),
+    payload: z.object({
+      delaySeconds: z.number().int().min(0).max(3600).optional(),
+    }).optional(),
+  }),
+  z.object({
+    type: z.literal("configure"),
+    payload: z.record(z.any()).refine(
+      config => Object.keys(config).length > 0,
+      "Expected at least one setting",
+    ),
+  }),
+  z.object({
+    type: z.literal("firmware_update"),
+    payload: z.object({
+      version: z.string().min(1).max(100),
+      url: z.string().url(),
+      checksum: z.string().max(255).optional(),
+    }),
+  }),
+]);
+
+export const acknowledgeDeviceCommandSchema = z.object({
+  success: z.boolean(),
+  result: z.record(z.any()).optional(),
+  errorMessage: z.string().max(1000).optional(),
+});
+
+// Type exports
+export type DeviceCommand = z.infer<typeof selectDeviceCommandSchema>;
+export type InsertDeviceCommand = z.infer<typeof insertDeviceCommandSchema>;
+export type AcknowledgeDeviceCommand = z.infer<typeof acknowledgeDeviceCommandSchema>;
+export type DeviceCommandType = DeviceCommand["type"];
+export type DeviceCommandStatus = DeviceCommand["status"];
@@ -0,0 +1,55 @@
+import {
+  index,
+  jsonb,
+  pgTable,
+  timestamp,
+  unique,
+  uuid,
+} from "drizzle-orm/pg-core";
+import { z } from "zod";
+
+import type { JsonSchema } from "../../lib/json-schema";
+
+import { jsonSchemaDefinition } from "../../lib/json-schema";
+import { deviceTypeEnum } from "./devices";
+import { tenants } from "./tenants";
+import { users } from "./users";
+
+// Device metadata schemas table, at most one JSON Schema per tenant and device type
+export const deviceMetadataSchemas = pgTable("device_metadata_schemas", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  tenantId: uuid("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  deviceType: deviceTypeEnum("device_type").notNull(),
+  schema: jsonb("schema").$type<JsonSchema>().notNull(),
+  updatedBy: uuid("updated_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow().$onUpdate(() => new Date()),
+}, table => [
+  unique("unique_tenant_device_type").on(table.tenantId, table.deviceType),
+  index("device_metadata_schemas_tenant_id_idx").on(table.tenantId),
+]);
+
+// Zod schemas
+export const selectDeviceMetadataSchemaSchema = z.object({
+  id: z.string(),
+  tenantId: z.string(),
+  deviceType: z.enum(["sensor", "controller", "gateway", "camera", "actuator", "meter", "beacon", "router", "server", "workstation"]),
+  schema: z.record(z.any()),
+  updatedBy: z.string().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+// Recursive schemas do not render in OpenAPI, so the structure is checked in a refinement
+export const upsertDeviceMetadataSchemaSchema = z.object({
+  schema: z.record(z.any()).superRefine((schema, ctx) => {
+    const parsed = jsonSchemaDefinition.safeParse(schema);
+    if (!parsed.success) {
+      parsed.error.issues.forEach(issue => ctx.addIssue(issue));
+    }
+  }),
+});
+
+// Type exports
+export type DeviceMetadataSchema = z.infer<typeof selectDeviceMetadataSchemaSchema>;
+export type UpsertDeviceMetadataSchema = z.infer<typeof upsertDeviceMetadataSchemaSchema>;
@@ -1,15 +1,18 @@
-import { 
-  boolean, 
-  pgTable, 
+import {
+  boolean,
+  index,
+  jsonb,
   pgEnum,
-  timestamp, 
-  uuid, 
+  pgTable,
+  text,
+  timestamp,
+  uuid,
   varchar,
-  jsonb,
-  index
 } from "drizzle-orm/pg-core";
 import { z } from "zod";
+
 import { sites } from "./sites";
+import { users } from "./users";
 
 // Device type and status enums
 export const deviceTypeEnum = pgEnum("device_type", [
@@ -22,7 +25,7 @@ export const deviceTypeEnum = pgEnum("device_type", [
   "beacon",
   "router",
   "server",
-  "workstation"
+  "workstation",
 ]);
 
 export const deviceStatusEnum = pgEnum("device_status", [
@@ -30,7 +33,7 @@ export const deviceStatusEnum = pgEnum("device_status", [
   "offline",
   "maintenance",
   "error",
-  "decommissioned"
+  "decommissioned",
 ]);
 
 // Devices table
@@ -43,13 +46,13 @@ export const devices = pgTable("devices", {
   model: varchar("model", { length: 255 }),
   manufacturer: varchar("manufacturer", { length: 255 }),
   firmwareVersion: varchar("firmware_version", { length: 100 }),
-  metadata: jsonb("metadata"), // Store additional device metadata (config, specs, etc.)
+  metadata: jsonb("metadata").$type<Record<string, any>>(), // Store additional device metadata (config, specs, etc.)
   status: deviceStatusEnum("status").notNull().default("offline"),
   lastSeenAt: timestamp("last_seen_at"),
   isActive: boolean("is_active").notNull().default(true),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow().$onUpdate(() => new Date()),
-}, (table) => [
+}, table => [
   index("devices_site_id_idx").on(table.siteId),
   index("devices_name_idx").on(table.name),
   index("devices_type_idx").on(table.type),
@@ -58,6 +61,34 @@ export const devices = pgTable("devices", {
   index("devices_last_seen_at_idx").on(table.lastSeenAt),
 ]);
 
+// Device status history table, one row per status change
+export const deviceStatusHistory = pgTable("device_status_history", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  deviceId: uuid("device_id").notNull().references(() => devices.id, { onDelete: "cascade" }),
+  fromStatus: deviceStatusEnum("from_status"), // Null for the status a device was created with
+  toStatus: deviceStatusEnum("to_status").notNull(),
+  reason: varchar("reason", { length: 255 }).notNull(), // heartbeat, offline_sweep, manual, site_transition, enrollment
+  changedBy: uuid("changed_by").references(() => users.id, { onDelete: "set null" }), // Null for system changes
+  changedAt: timestamp("changed_at").notNull().defaultNow(),
+}, table => [
+  index("device_status_history_device_id_idx").on(table.deviceId),
+  index("device_status_history_changed_at_idx").on(table.changedAt),
+]);
+
+// Device site movements table, one row per relocation between sites
+export const deviceSiteMovements = pgTable("device_site_movements", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  deviceId: uuid("device_id").notNull().references(() => devices.id, { onDelete: "cascade" }),
+  fromSiteId: uuid("from_site_id").references(() => sites.id, { onDelete: "set null" }), // Null once the old site is deleted
+  toSiteId: uuid("to_site_id").references(() => sites.id, { onDelete: "set null" }),
+  reason: text("reason"),
+  movedBy: uuid("moved_by").references(() => users.id, { onDelete: "set null" }),
+  movedAt: timestamp("moved_at").notNull().defaultNow(),
+}, table => [
+  index("device_site_movements_device_id_idx").on(table.deviceId),
+  index("device_site_movements_moved_at_idx").on(table.movedAt),
+]);
+
 // Zod schemas
 export const selectDeviceSchema = z.object({
   id: z.string(),
@@ -91,9 +122,37 @@ export const insertDeviceSchema = z.object({
 
 export const patchDeviceSchema = insertDeviceSchema.partial();
 
+export const selectDeviceStatusHistorySchema = z.object({
+  id: z.string(),
+  deviceId: z.string(),
+  fromStatus: z.enum(["online", "offline", "maintenance", "error", "decommissioned"]).nullable(),
+  toStatus: z.enum(["online", "offline", "maintenance", "error", "decommissioned"]),
+  reason: z.string(),
+  changedBy: z.string().nullable(),
+  changedAt: z.date(),
+});
+
+export const selectDeviceSiteMovementSchema = z.object({
+  id: z.string(),
+  deviceId: z.string(),
+  fromSiteId: z.string().nullable(),
+  toSiteId: z.string().nullable(),
+  reason: z.string().nullable(),
+  movedBy: z.string().nullable(),
+  movedAt: z.date(),
+});
+
+export const moveDeviceSchema = z.object({
+  siteId: z.string().uuid(),
+  reason: z.string().max(500).optional(),
+});
+
 // Type exports
 export type Device = z.infer<typeof selectDeviceSchema>;
 export type InsertDevice = z.infer<typeof insertDeviceSchema>;
 export type PatchDevice = z.infer<typeof patchDeviceSchema>;
 export type DeviceType = Device["type"];
-export type DeviceStatus = Device["status"]; 
\ No newline at end of file
+export type DeviceStatus = Device["status"];
+export type DeviceStatusHistory = z.infer<typeof selectDeviceStatusHistorySchema>;
+export type DeviceSiteMovement = z.infer<typeof selectDeviceSiteMovementSchema>;
+export type MoveDevice = z.infer<typeof moveDeviceSchema>;
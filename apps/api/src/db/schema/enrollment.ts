@@ -0,0 +1,79 @@
+import {
+  index,
+  integer,
+  pgTable,
+  timestamp,
+  uuid,
+  varchar,
+} from "drizzle-orm/pg-core";
+import { z } from "zod";
+
+import { devices, insertDeviceSchema } from "./devices";
+import { sites } from "./sites";
+import { tenants } from "./tenants";
+import { users } from "./users";
+
+// Enrollment tokens table. Only a hash of the token is stored; the token itself is shown once.
+export const enrollmentTokens = pgTable("enrollment_tokens", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  tenantId: uuid("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  siteId: uuid("site_id").notNull().references(() => sites.id, { onDelete: "cascade" }),
+  name: varchar("name", { length: 255 }).notNull(),
+  tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(),
+  tokenPrefix: varchar("token_prefix", { length: 16 }).notNull(), // First characters of the token, to tell tokens apart
+  maxUses: integer("max_uses").notNull().default(1),
+  useCount: integer("use_count").notNull().default(0),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+  createdBy: uuid("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, table => [
+  index("enrollment_tokens_tenant_id_idx").on(table.tenantId),
+  index("enrollment_tokens_site_id_idx").on(table.siteId),
+]);
+
+// Device credentials table, one service account secret per enrolled device
+export const deviceCredentials = pgTable("device_credentials", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  deviceId: uuid("device_id").notNull().unique().references(() => devices.id, { onDelete: "cascade" }),
+  userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }), // The device's service_account user
+  secretHash: varchar("secret_hash", { length: 64 }).notNull().unique(),
+  enrollmentTokenId: uuid("enrollment_token_id").references(() => enrollmentTokens.id, { onDelete: "set null" }),
+  lastUsedAt: timestamp("last_used_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, table => [
+  index("device_credentials_user_id_idx").on(table.userId),
+]);
+
+// Zod schemas
+export const selectEnrollmentTokenSchema = z.object({
+  id: z.string(),
+  tenantId: z.string(),
+  siteId: z.string(),
+  name: z.string(),
+  tokenPrefix: z.string(),
+  maxUses: z.number(),
+  useCount: z.number(),
+  expiresAt: z.date(),
+  revokedAt: z.date().nullable(),
+  createdBy: z.string().nullable(),
+  createdAt: z.date(),
+});
+
+export const insertEnrollmentTokenSchema = z.object({
+  name: z.string().min(1).max(255),
+  maxUses: z.number().int().min(1).max(10000).default(1),
+  expiresInHours: z.number().int().min(1).max(24 * 30).default(24),
+});
+
+// The site comes from the token, so the device only describes itself
+export const enrollDeviceSchema = z.object({
+  token: z.string().min(1),
+  device: insertDeviceSchema.omit({ siteId: true, status: true, isActive: true }),
+});
+
+// Type exports
+export type EnrollmentToken = z.infer<typeof selectEnrollmentTokenSchema>;
+export type InsertEnrollmentToken = z.infer<typeof insertEnrollmentTokenSchema>;
+export type EnrollDevice = z.infer<typeof enrollDeviceSchema>;
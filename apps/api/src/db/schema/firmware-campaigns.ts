@@ -0,0 +1,125 @@
+import {
+  doublePrecision,
+  index,
+  integer,
+  jsonb,
+  pgEnum,
+  pgTable,
+  text,
+  timestamp,
+  unique,
+  uuid,
+  varchar,
+} from "drizzle-orm/pg-core";
+import { z } from "zod";
+
+import { deviceCommands } from "./device-commands";
+import { devices } from "./devices";
+import { tenants } from "./tenants";
+import { users } from "./users";
+
+// Campaign status enum
+export const firmwareCampaignStatusEnum = pgEnum("firmware_campaign_status", [
+  "running",
+  "halted",
+  "completed",
+  "cancelled",
+]);
+
+// Which devices a campaign targets; every given field must match
+export const firmwareCampaignTargetSchema = z.object({
+  model: z.string().max(255).optional(),
+  manufacturer: z.string().max(255).optional(),
+  type: z.enum(["sensor", "controller", "gateway", "camera", "actuator", "meter", "beacon", "router", "server", "workstation"]).optional(),
+  siteIds: z.array(z.string().uuid()).min(1).optional(),
+});
+
+export type FirmwareCampaignTarget = z.infer<typeof firmwareCampaignTargetSchema>;
+
+// Firmware campaigns table
+export const firmwareCampaigns = pgTable("firmware_campaigns", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  tenantId: uuid("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  name: varchar("name", { length: 255 }).notNull(),
+  firmwareVersion: varchar("firmware_version", { length: 100 }).notNull(),
+  firmwareUrl: text("firmware_url").notNull(),
+  checksum: varchar("checksum", { length: 255 }),
+  target: jsonb("target").$type<FirmwareCampaignTarget>().notNull(),
+  waves: jsonb("waves").$type<number[]>().notNull(), // Cumulative percentage of targeted devices updated by the end of each wave
+  failureThreshold: doublePrecision("failure_threshold").notNull(), // Fraction of failed updates that halts the campaign
+  status: firmwareCampaignStatusEnum("status").notNull().default("running"),
+  currentWave: integer("current_wave").notNull().default(0), // Zero-based index into waves
+  haltReason: text("halt_reason"),
+  createdBy: uuid("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow().$onUpdate(() => new Date()),
+  completedAt: timestamp("completed_at"), // When the campaign completed, halted or was cancelled
+}, table => [
+  index("firmware_campaigns_tenant_id_idx").on(table.tenantId),
+  index("firmware_campaigns_status_idx").on(table.status),
+]);
+
+// Devices targeted by a campaign, and the update command once their wave starts
+export const firmwareCampaignDevices = pgTable("firmware_campaign_devices", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  campaignId: uuid("campaign_id").notNull().references(() => firmwareCampaigns.id, { onDelete: "cascade" }),
+  deviceId: uuid("device_id").notNull().references(() => devices.id, { onDelete: "cascade" }),
+  wave: integer("wave").notNull(),
+  commandId: uuid("command_id").references(() => deviceCommands.id, { onDelete: "set null" }), // Null until the wave is dispatched
+}, table => [
+  unique("unique_campaign_device").on(table.campaignId, table.deviceId),
+  index("firmware_campaign_devices_campaign_wave_idx").on(table.campaignId, table.wave),
+  index("firmware_campaign_devices_command_id_idx").on(table.commandId),
+]);
+
+// Zod schemas
+export const selectFirmwareCampaignSchema = z.object({
+  id: z.string(),
+  tenantId: z.string(),
+  name: z.string(),
+  firmwareVersion: z.string(),
+  firmwareUrl: z.string(),
+  checksum: z.string().nullable(),
+  target: firmwareCampaignTargetSchema,
+  waves: z.array(z.number()),
+  failureThreshold: z.number(),
+  status: z.enum(["running", "halted", "completed", "cancelled"]),
+  currentWave: z.number(),
+  haltReason: z.string().nullable(),
+  createdBy: z.string().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+  completedAt: z.date().nullable(),
+});
+
+export const insertFirmwareCampaignSchema = z.object({
+  name: z.string().min(1).max(255),
+  firmwareVersion: z.string().min(1).max(100),
+  firmwareUrl: z.string().url(),
+  checksum: z.string().max(255).optional(),
+  target: firmwareCampaignTargetSchema.default({}),
+  waves: z.array(z.number().gt(0).max(100))
+    .min(1)
+    .max(10)
+    .refine(waves => waves.every((percent, index) => index === 0 || percent > waves[index - 1]), "Waves must increase")
+    .refine(waves => waves[waves.length - 1] === 100, "The last wave must reach 100")
+    .default([5, 25, 100]),
+  failureThreshold: z.number().min(0).max(1).default(0.1),
+});
+
+export const selectFirmwareCampaignWaveSchema = z.object({
+  wave: z.number(),
+  percent: z.number(),
+  devices: z.number(),
+  queued: z.number(), // Not dispatched yet
+  pending: z.number(),
+  delivered: z.number(),
+  succeeded: z.number(),
+  failed: z.number(),
+});
+
+// Type exports
+export type FirmwareCampaign = z.infer<typeof selectFirmwareCampaignSchema>;
+export type InsertFirmwareCampaign = z.infer<typeof insertFirmwareCampaignSchema>;
+export type FirmwareCampaignStatus = FirmwareCampaign["status"];
+export type FirmwareCampaignWave = z.infer<typeof selectFirmwareCampaignWaveSchema>;
@@ -0,0 +1,69 @@
+/* eslint-disable ts/no-redeclare */
+import { sql } from "drizzle-orm";
+import { index, integer, pgTable, primaryKey, timestamp, uniqueIndex, uuid, varchar } from "drizzle-orm/pg-core";
+import { z } from "zod";
+
+import { LABEL_COLOR_PATTERN, MAX_LABEL_NAME_LENGTH, normalizeLabelName } from "../../lib/labels";
+import { tasks } from "./tasks";
+import { tenants } from "./tenants";
+
+// Labels are defined per tenant; tasks refer to them by id, so a rename shows on every task
+export const labels = pgTable("labels", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  tenantId: uuid("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  name: varchar("name", { length: MAX_LABEL_NAME_LENGTH }).notNull(),
+  // Hex color such as #3b82f6
+  color: varchar("color", { length: 7 }).notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow().$onUpdate(() => new Date()),
+}, table => [
+  uniqueIndex("labels_tenant_id_name_idx").on(table.tenantId, sql`lower(${table.name})`),
+]);
+
+// Tasks and their labels
+export const taskLabels = pgTable("task_labels", {
+  taskId: integer("task_id").notNull().references(() => tasks.id, { onDelete: "cascade" }),
+  labelId: uuid("label_id").notNull().references(() => labels.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, table => [
+  primaryKey({ columns: [table.taskId, table.labelId] }),
+  index("task_labels_label_id_idx").on(table.labelId),
+]);
+
+// Zod schemas
+export const selectLabelSchema = z.object({
+  id: z.string(),
+  tenantId: z.string(),
+  name: z.string(),
+  color: z.string(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+export type selectLabelSchema = z.infer<typeof selectLabelSchema>;
+
+// How a label appears on a task
+export const taskLabelSchema = selectLabelSchema.pick({ id: true, name: true, color: true });
+export type taskLabelSchema = z.infer<typeof taskLabelSchema>;
+
+export const insertLabelSchema = z.object({
+  name: z.string()
+    .transform(normalizeLabelName)
+    .pipe(z.string().min(1).max(MAX_LABEL_NAME_LENGTH)),
+  color: z.string().regex(LABEL_COLOR_PATTERN, "Expected a hex color such as #3b82f6").transform(color => color.toLowerCase()),
+});
+export type insertLabelSchema = z.infer<typeof insertLabelSchema>;
+
+export const patchLabelSchema = insertLabelSchema.partial();
+export type patchLabelSchema = z.infer<typeof patchLabelSchema>;
+
+export const mergeLabelSchema = z.object({
+  // The label that takes over this label's tasks; this label is then deleted
+  targetId: z.string().uuid(),
+});
+export type mergeLabelSchema = z.infer<typeof mergeLabelSchema>;
+
+export const setTaskLabelsSchema = z.object({
+  // Replaces the task's labels
+  labelIds: z.array(z.string().uuid()).max(20),
+});
+export type setTaskLabelsSchema = z.infer<typeof setTaskLabelsSchema>;
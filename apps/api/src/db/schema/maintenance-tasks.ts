@@ -0,0 +1,51 @@
+import { sql } from "drizzle-orm";
+import {
+  index,
+  integer,
+  pgEnum,
+  pgTable,
+  timestamp,
+  uniqueIndex,
+  uuid,
+} from "drizzle-orm/pg-core";
+import { z } from "zod";
+
+import { devices } from "./devices";
+import { sites } from "./sites";
+import { tasks } from "./tasks";
+
+// What opened a maintenance task
+export const maintenanceTriggerEnum = pgEnum("maintenance_trigger", [
+  "error",
+  "offline",
+]);
+
+// Device maintenance tasks table, linking a task to the device incident that opened it.
+// A device has at most one open incident, which closes when the device is back online.
+export const deviceMaintenanceTasks = pgTable("device_maintenance_tasks", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  taskId: integer("task_id").notNull().references(() => tasks.id, { onDelete: "cascade" }),
+  deviceId: uuid("device_id").notNull().references(() => devices.id, { onDelete: "cascade" }),
+  siteId: uuid("site_id").notNull().references(() => sites.id, { onDelete: "cascade" }),
+  trigger: maintenanceTriggerEnum("trigger").notNull(),
+  openedAt: timestamp("opened_at").notNull().defaultNow(),
+  closedAt: timestamp("closed_at"),
+}, table => [
+  uniqueIndex("device_maintenance_tasks_open_device_idx").on(table.deviceId).where(sql`${table.closedAt} is null`),
+  index("device_maintenance_tasks_task_id_idx").on(table.taskId),
+]);
+
+// Zod schemas
+export const selectDeviceMaintenanceTaskSchema = z.object({
+  id: z.string(),
+  taskId: z.number(),
+  deviceId: z.string(),
+  siteId: z.string(),
+  trigger: z.enum(["error", "offline"]),
+  openedAt: z.date(),
+  closedAt: z.date().nullable(),
+});
+
+// Type exports
+export type DeviceMaintenanceTask = z.infer<typeof selectDeviceMaintenanceTaskSchema>;
+export type MaintenanceTrigger = DeviceMaintenanceTask["trigger"];
@@ -0,0 +1,40 @@
+/* eslint-disable ts/no-redeclare */
+import { index, integer, pgTable, timestamp, uuid, varchar } from "drizzle-orm/pg-core";
+import { z } from "zod";
+
+import { taskComments } from "./task-comments";
+import { tasks } from "./tasks";
+import { tenants } from "./tenants";
+import { users } from "./users";
+
+export const NOTIFICATION_TYPES = ["task_comment_mention"] as const;
+
+// Notifications table. Each row is one event for one recipient.
+export const notifications = pgTable("notifications", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  tenantId: uuid("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }), // Recipient
+  actorId: uuid("actor_id").references(() => users.id, { onDelete: "set null" }),
+  type: varchar("type", { length: 50, enum: NOTIFICATION_TYPES }).notNull(),
+  taskId: integer("task_id").references(() => tasks.id, { onDelete: "cascade" }),
+  commentId: uuid("comment_id").references(() => taskComments.id, { onDelete: "cascade" }),
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, table => [
+  index("notifications_user_id_read_at_idx").on(table.userId, table.readAt),
+  index("notifications_tenant_id_idx").on(table.tenantId),
+]);
+
+// Zod schemas
+export const selectNotificationSchema = z.object({
+  id: z.string(),
+  tenantId: z.string(),
+  userId: z.string(),
+  actorId: z.string().nullable(),
+  type: z.enum(NOTIFICATION_TYPES),
+  taskId: z.number().nullable(),
+  commentId: z.string().nullable(),
+  readAt: z.date().nullable(),
+  createdAt: z.date(),
+});
+export type selectNotificationSchema = z.infer<typeof selectNotificationSchema>;
@@ -24,6 +24,12 @@ export const siteStatusEnum = pgEnum("site_status", [
   "decommissioned",
 ]);
 
+// Site role enum, mirrors the Permify site#manager and site#operator relations
+export const siteRoleEnum = pgEnum("site_role", [
+  "manager",
+  "operator",
+]);
+
 // Sites table
 export const sites = pgTable("sites", {
   id: uuid("id").primaryKey().defaultRandom(),
@@ -33,7 +39,7 @@ export const sites = pgTable("sites", {
   latitude: doublePrecision("latitude"),
   longitude: doublePrecision("longitude"),
   timezone: varchar("timezone", { length: 100 }).notNull().default("UTC"),
-  metadata: jsonb("metadata"), // Store additional site metadata
+  metadata: jsonb("metadata").$type<Record<string, any>>(), // Store additional site metadata
   status: siteStatusEnum("status").notNull().default("active"),
   isActive: boolean("is_active").notNull().default(true),
   createdAt: timestamp("created_at").notNull().defaultNow(),
@@ -51,6 +57,7 @@ export const userSiteAssignments = pgTable("user_site_assignments", {
   userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   siteId: uuid("site_id").notNull().references(() => sites.id, { onDelete: "cascade" }),
   tenantId: uuid("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  role: siteRoleEnum("role").notNull().default("operator"),
   assignedBy: uuid("assigned_by").notNull().references(() => users.id),
   assignedAt: timestamp("assigned_at").notNull().defaultNow(),
   createdAt: timestamp("created_at").notNull().defaultNow(),
@@ -60,6 +67,7 @@ export const userSiteAssignments = pgTable("user_site_assignments", {
   index("user_site_assignments_user_id_idx").on(table.userId),
   index("user_site_assignments_site_id_idx").on(table.siteId),
   index("user_site_assignments_tenant_id_idx").on(table.tenantId),
+  index("user_site_assignments_role_idx").on(table.role),
   index("user_site_assignments_assigned_by_idx").on(table.assignedBy),
 ]);
 
@@ -98,6 +106,7 @@ export const selectUserSiteAssignmentSchema = z.object({
   userId: z.string(),
   siteId: z.string(),
   tenantId: z.string(),
+  role: z.enum(["manager", "operator"]),
   assignedBy: z.string(),
   assignedAt: z.date(),
   createdAt: z.date(),
@@ -108,6 +117,7 @@ export const insertUserSiteAssignmentSchema = z.object({
   userId: z.string().uuid(),
   siteId: z.string().uuid(),
   tenantId: z.string().uuid(),
+  role: z.enum(["manager", "operator"]).optional(),
   assignedBy: z.string().uuid(),
 });
 
@@ -119,3 +129,4 @@ export type SiteStatus = Site["status"];
 
 export type UserSiteAssignment = z.infer<typeof selectUserSiteAssignmentSchema>;
 export type InsertUserSiteAssignment = z.infer<typeof insertUserSiteAssignmentSchema>;
+export type SiteRole = UserSiteAssignment["role"];
@@ -0,0 +1,44 @@
+/* eslint-disable ts/no-redeclare */
+import { getTableColumns } from "drizzle-orm";
+import { index, integer, pgTable, timestamp, uuid, varchar } from "drizzle-orm/pg-core";
+import { z } from "zod";
+
+import { tasks } from "./tasks";
+import { tenants } from "./tenants";
+import { users } from "./users";
+
+// Task attachments table. The contents live in attachment storage under `storageKey`.
+export const taskAttachments = pgTable("task_attachments", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  tenantId: uuid("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  taskId: integer("task_id").notNull().references(() => tasks.id, { onDelete: "cascade" }),
+  uploadedBy: uuid("uploaded_by").references(() => users.id, { onDelete: "set null" }),
+  fileName: varchar("file_name", { length: 255 }).notNull(),
+  // Detected from the contents, not taken from the upload
+  mimeType: varchar("mime_type", { length: 100 }).notNull(),
+  size: integer("size").notNull(),
+  checksum: varchar("checksum", { length: 64 }).notNull(), // SHA-256, hex
+  storageKey: varchar("storage_key", { length: 500 }).notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, table => [
+  index("task_attachments_task_id_idx").on(table.taskId),
+  index("task_attachments_tenant_id_idx").on(table.tenantId),
+]);
+
+// Where the contents are stored is internal to the API
+const { storageKey: _storageKey, ...taskAttachmentColumns } = getTableColumns(taskAttachments);
+export { taskAttachmentColumns };
+
+// Zod schemas
+export const selectTaskAttachmentSchema = z.object({
+  id: z.string(),
+  tenantId: z.string(),
+  taskId: z.number(),
+  uploadedBy: z.string().nullable(),
+  fileName: z.string(),
+  mimeType: z.string(),
+  size: z.number(),
+  checksum: z.string(),
+  createdAt: z.date(),
+});
+export type selectTaskAttachmentSchema = z.infer<typeof selectTaskAttachmentSchema>;
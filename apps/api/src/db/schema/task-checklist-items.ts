@@ -0,0 +1,41 @@
+/* eslint-disable ts/no-redeclare */
+import { boolean, index, integer, pgTable, timestamp, uuid, varchar } from "drizzle-orm/pg-core";
+import { z } from "zod";
+
+import { tasks } from "./tasks";
+
+// Checklist items are steps too small to be subtasks, with no assignee or due date of their own
+export const taskChecklistItems = pgTable("task_checklist_items", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  taskId: integer("task_id").notNull().references(() => tasks.id, { onDelete: "cascade" }),
+  text: varchar("text", { length: 500 }).notNull(),
+  done: boolean("done").notNull().default(false),
+  position: integer("position").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow().$onUpdate(() => new Date()),
+}, table => [
+  index("task_checklist_items_task_id_idx").on(table.taskId),
+]);
+
+// Zod schemas
+export const selectTaskChecklistItemSchema = z.object({
+  id: z.string(),
+  taskId: z.number(),
+  text: z.string(),
+  done: z.boolean(),
+  position: z.number(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+export type selectTaskChecklistItemSchema = z.infer<typeof selectTaskChecklistItemSchema>;
+
+export const insertTaskChecklistItemSchema = z.object({
+  text: z.string().trim().min(1).max(500),
+  done: z.boolean().optional(),
+});
+export type insertTaskChecklistItemSchema = z.infer<typeof insertTaskChecklistItemSchema>;
+
+export const patchTaskChecklistItemSchema = insertTaskChecklistItemSchema.extend({
+  position: z.number().int().min(0),
+}).partial();
+export type patchTaskChecklistItemSchema = z.infer<typeof patchTaskChecklistItemSchema>;
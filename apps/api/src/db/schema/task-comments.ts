@@ -0,0 +1,42 @@
+/* eslint-disable ts/no-redeclare */
+import { index, integer, pgTable, text, timestamp, uuid } from "drizzle-orm/pg-core";
+import { z } from "zod";
+
+import { tasks } from "./tasks";
+import { users } from "./users";
+
+// Task comments table. Comments stay when their author leaves.
+export const taskComments = pgTable("task_comments", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  taskId: integer("task_id").notNull().references(() => tasks.id, { onDelete: "cascade" }),
+  authorId: uuid("author_id").references(() => users.id, { onDelete: "set null" }),
+  body: text("body").notNull(),
+  // Set when the author changes the body
+  editedAt: timestamp("edited_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow().$onUpdate(() => new Date()),
+}, table => [
+  index("task_comments_task_id_created_at_idx").on(table.taskId, table.createdAt),
+  index("task_comments_author_id_idx").on(table.authorId),
+]);
+
+// Zod schemas
+export const selectTaskCommentSchema = z.object({
+  id: z.string(),
+  taskId: z.number(),
+  authorId: z.string().nullable(),
+  body: z.string(),
+  editedAt: z.date().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+export type selectTaskCommentSchema = z.infer<typeof selectTaskCommentSchema>;
+
+export const insertTaskCommentSchema = z.object({
+  // Mention tenant members with @ and their email address, or the part before the @
+  body: z.string().trim().min(1).max(10_000),
+});
+export type insertTaskCommentSchema = z.infer<typeof insertTaskCommentSchema>;
+
+export const patchTaskCommentSchema = insertTaskCommentSchema;
+export type patchTaskCommentSchema = z.infer<typeof patchTaskCommentSchema>;
@@ -0,0 +1,34 @@
+/* eslint-disable ts/no-redeclare */
+import { sql } from "drizzle-orm";
+import { check, index, integer, pgTable, primaryKey, timestamp, uuid } from "drizzle-orm/pg-core";
+import { z } from "zod";
+
+import { tasks } from "./tasks";
+import { users } from "./users";
+
+// A task waits for each of its blockers. Cycles are rejected when an edge is added.
+export const taskDependencies = pgTable("task_dependencies", {
+  taskId: integer("task_id").notNull().references(() => tasks.id, { onDelete: "cascade" }),
+  blockedById: integer("blocked_by_id").notNull().references(() => tasks.id, { onDelete: "cascade" }),
+  createdBy: uuid("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, table => [
+  primaryKey({ columns: [table.taskId, table.blockedById] }),
+  index("task_dependencies_blocked_by_id_idx").on(table.blockedById),
+  check("task_dependencies_not_self", sql`${table.taskId} <> ${table.blockedById}`),
+]);
+
+// Zod schemas
+export const selectTaskDependencySchema = z.object({
+  taskId: z.number(),
+  blockedById: z.number(),
+  createdBy: z.string().nullable(),
+  createdAt: z.date(),
+});
+export type selectTaskDependencySchema = z.infer<typeof selectTaskDependencySchema>;
+
+export const insertTaskDependencySchema = z.object({
+  // The task that has to be done first, in the same tenant
+  blockedById: z.number().int().positive(),
+});
+export type insertTaskDependencySchema = z.infer<typeof insertTaskDependencySchema>;
@@ -0,0 +1,45 @@
+/* eslint-disable ts/no-redeclare */
+import { index, pgTable, text, timestamp, uuid } from "drizzle-orm/pg-core";
+import { z } from "zod";
+
+import { parseRecurrenceRule } from "../../lib/recurrence";
+import { tenants } from "./tenants";
+import { users } from "./users";
+
+// Task series table. Each occurrence is a task; completing the latest one creates the next.
+export const taskSeries = pgTable("task_series", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  tenantId: uuid("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  rrule: text("rrule").notNull(),
+  // Due date of the occurrence the rule counts from
+  startsAt: timestamp("starts_at").notNull(),
+  createdBy: uuid("created_by").references(() => users.id, { onDelete: "set null" }),
+  // Set when the series is stopped or its rule runs out
+  endedAt: timestamp("ended_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow().$onUpdate(() => new Date()),
+}, table => [
+  index("task_series_tenant_id_idx").on(table.tenantId),
+]);
+
+export const recurrenceRuleSchema = z.string()
+  .max(500)
+  .refine(value => parseRecurrenceRule(value) !== null, "Expected an RRULE such as FREQ=MONTHLY;BYMONTHDAY=1");
+
+// Zod schemas
+export const selectTaskSeriesSchema = z.object({
+  id: z.string(),
+  tenantId: z.string(),
+  rrule: z.string(),
+  startsAt: z.date(),
+  createdBy: z.string().nullable(),
+  endedAt: z.date().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+export type selectTaskSeriesSchema = z.infer<typeof selectTaskSeriesSchema>;
+
+export const patchTaskSeriesSchema = z.object({
+  rrule: recurrenceRuleSchema,
+});
+export type patchTaskSeriesSchema = z.infer<typeof patchTaskSeriesSchema>;
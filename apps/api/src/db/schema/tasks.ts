@@ -0,0 +1,106 @@
+/* eslint-disable ts/no-redeclare */
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
+
+import { getTableColumns, sql } from "drizzle-orm";
+import { boolean, customType, index, integer, pgTable, serial, text, timestamp, uniqueIndex, uuid, varchar } from "drizzle-orm/pg-core";
+import { z } from "zod";
+
+import { devices } from "./devices";
+import { sites } from "./sites";
+import { recurrenceRuleSchema, taskSeries } from "./task-series";
+import { tenants } from "./tenants";
+import { users } from "./users";
+
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
+});
+
+// Updated tasks table to reference new users table
+export const tasks = pgTable("tasks", {
+  id: serial("id").primaryKey(),
+  tenantId: uuid("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }), // Creator
+  assigneeId: uuid("assignee_id").references(() => users.id, { onDelete: "set null" }),
+  siteId: uuid("site_id").references(() => sites.id, { onDelete: "set null" }),
+  deviceId: uuid("device_id").references(() => devices.id, { onDelete: "set null" }),
+  // Subtasks are deleted with their parent
+  parentId: integer("parent_id").references((): AnyPgColumn => tasks.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  description: text("description"),
+  done: boolean("done").notNull().default(false),
+  priority: varchar("priority", { length: 20, enum: ["low", "medium", "high", "urgent"] }).notNull().default("medium"),
+  dueDate: timestamp("due_date"),
+  seriesId: uuid("series_id").references(() => taskSeries.id, { onDelete: "set null" }),
+  occurrence: integer("occurrence"), // 1 for the first task in a series
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow().$onUpdate(() => new Date()),
+  // Names outrank descriptions in search results
+  searchVector: tsvector("search_vector").generatedAlwaysAs(sql`setweight(to_tsvector('english', coalesce(name, '')), 'A') || setweight(to_tsvector('english', coalesce(description, '')), 'B')`),
+}, table => [
+  index("tasks_tenant_id_idx").on(table.tenantId),
+  index("tasks_user_id_idx").on(table.userId),
+  index("tasks_assignee_id_idx").on(table.assigneeId),
+  index("tasks_site_id_idx").on(table.siteId),
+  index("tasks_device_id_idx").on(table.deviceId),
+  index("tasks_parent_id_idx").on(table.parentId),
+  index("tasks_priority_idx").on(table.priority),
+  index("tasks_due_date_idx").on(table.dueDate),
+  index("tasks_done_idx").on(table.done),
+  index("tasks_search_vector_idx").using("gin", table.searchVector),
+  // Completing an occurrence twice must not create two next occurrences
+  uniqueIndex("tasks_series_occurrence_idx").on(table.seriesId, table.occurrence),
+]);
+
+// The search vector is only matched against, never returned
+const { searchVector: _searchVector, ...taskColumns } = getTableColumns(tasks);
+export { taskColumns };
+
+// Manual Zod schemas to avoid drizzle-zod compatibility issues
+export const selectTasksSchema = z.object({
+  id: z.number(),
+  tenantId: z.string(),
+  userId: z.string(),
+  assigneeId: z.string().nullable(),
+  siteId: z.string().nullable(),
+  deviceId: z.string().nullable(),
+  parentId: z.number().nullable(),
+  name: z.string(),
+  description: z.string().nullable(),
+  done: z.boolean(),
+  priority: z.enum(["low", "medium", "high", "urgent"]),
+  dueDate: z.date().nullable(),
+  seriesId: z.string().nullable(),
+  occurrence: z.number().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+export type selectTasksSchema = z.infer<typeof selectTasksSchema>;
+
+export const insertTasksSchema = z.object({
+  tenantId: z.string().uuid(),
+  userId: z.string().uuid(),
+  // A task on a device also belongs to the device's site
+  siteId: z.string().uuid().nullable().optional(),
+  deviceId: z.string().uuid().nullable().optional(),
+  // Makes the task a subtask of another task in the tenant
+  parentId: z.number().int().positive().nullable().optional(),
+  name: z.string().min(1).max(500),
+  description: z.string().optional(),
+  done: z.boolean().optional(),
+  priority: z.enum(["low", "medium", "high", "urgent"]).optional(),
+  dueDate: z.date().optional(),
+  // Repeats the task from its due date
+  recurrence: recurrenceRuleSchema.optional(),
+});
+export type insertTasksSchema = z.infer<typeof insertTasksSchema>;
+
+// Recurrence changes through the task's series; the tenant and creator never change
+export const patchTasksSchema = insertTasksSchema.omit({ tenantId: true, userId: true, recurrence: true }).partial();
+export type patchTasksSchema = z.infer<typeof patchTasksSchema>;
+
+export const assignTaskSchema = z.object({
+  assigneeId: z.string().uuid(),
+});
+export type assignTaskSchema = z.infer<typeof assignTaskSchema>;
@@ -0,0 +1,51 @@
+import {
+  doublePrecision,
+  index,
+  pgTable,
+  timestamp,
+  uuid,
+  varchar,
+} from "drizzle-orm/pg-core";
+import { z } from "zod";
+
+import { devices } from "./devices";
+
+// Device telemetry table, one row per reading
+export const deviceTelemetry = pgTable("device_telemetry", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  deviceId: uuid("device_id").notNull().references(() => devices.id, { onDelete: "cascade" }),
+  metric: varchar("metric", { length: 100 }).notNull(),
+  value: doublePrecision("value").notNull(),
+  recordedAt: timestamp("recorded_at").notNull(), // When the device took the reading
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, table => [
+  // Range scans are always for one device, usually one metric
+  index("device_telemetry_device_metric_recorded_at_idx").on(table.deviceId, table.metric, table.recordedAt),
+]);
+
+// Zod schemas
+export const selectTelemetryPointSchema = z.object({
+  metric: z.string(),
+  value: z.number(),
+  recordedAt: z.date(),
+});
+
+export const insertTelemetryPointSchema = z.object({
+  metric: z.string().min(1).max(100),
+  value: z.number().finite(),
+  recordedAt: z.coerce.date().optional(),
+});
+
+export const selectTelemetryAggregateSchema = z.object({
+  metric: z.string(),
+  bucketStart: z.date(),
+  min: z.number(),
+  max: z.number(),
+  avg: z.number(),
+  count: z.number(),
+});
+
+// Type exports
+export type TelemetryPoint = z.infer<typeof selectTelemetryPointSchema>;
+export type InsertTelemetryPoint = z.infer<typeof insertTelemetryPointSchema>;
+export type TelemetryAggregate = z.infer<typeof selectTelemetryAggregateSchema>;
@@ -26,6 +26,27 @@ export const envSchema = z.object({
   PERMIFY_CACHE_MAX_KEYS: z.string().default("10000"),
   PERMIFY_TIMEOUT: z.string().default("5000"),
   SYSTEM_ADMIN_USER_ID: z.string().optional(),
+  // Device liveness configuration
+  DEVICE_HEARTBEAT_INTERVAL_SECONDS: z.coerce.number().positive().default(60),
+  DEVICE_OFFLINE_MISSED_HEARTBEATS: z.coerce.number().int().positive().default(3),
+  DEVICE_OFFLINE_SWEEP_INTERVAL_SECONDS: z.coerce.number().positive().default(60),
+  // Firmware campaign updates not acknowledged within this time count as failed
+  FIRMWARE_UPDATE_ACK_TIMEOUT_SECONDS: z.coerce.number().positive().default(86400),
+  // Attachment storage configuration
+  ATTACHMENT_STORAGE_DRIVER: z.enum(["local"]).default("local"),
+  ATTACHMENT_STORAGE_PATH: z.string().default("./storage/attachments"),
+  // Left empty in .env.example, which dotenv reads as ""
+  ATTACHMENT_URL_SECRET: z.preprocess(value => value === "" ? undefined : value, z.string().min(32).optional()),
+  ATTACHMENT_URL_TTL_SECONDS: z.coerce.number().int().positive().default(300),
+}).superRefine((value, ctx) => {
+  // Every instance must sign download URLs with the same secret
+  if (value.NODE_ENV === "production" && !value.ATTACHMENT_URL_SECRET) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["ATTACHMENT_URL_SECRET"],
+      message: "Required in production",
+    });
+  }
 });
 
 export type AppEnv = z.infer<typeof envSchema>;
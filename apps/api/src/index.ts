@@ -3,6 +3,7 @@ import pino from "pino";
 
 import app from "./app";
 import env from "./env";
+import { startDeviceOfflineSweeper } from "./lib/device-offline-sweeper";
 
 const port = env.PORT;
 
@@ -37,8 +38,9 @@ process.on("uncaughtException", (error) => {
 });
 logger.info(`Server is running on port ${port}`);
 
-
 serve({
   fetch: app.fetch,
   port,
 });
+
+startDeviceOfflineSweeper(logger);
@@ -0,0 +1,61 @@
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+/**
+ * Where attachment contents live. Keys are slash-separated paths that the API
+ * generates, so a prefix such as a tenant id groups everything below it.
+ */
+export type AttachmentStorage = {
+  put: (key: string, data: Uint8Array) => Promise<void>;
+  // Null when nothing is stored under the key
+  get: (key: string) => Promise<Uint8Array<ArrayBuffer> | null>;
+  remove: (key: string) => Promise<void>;
+  removePrefix: (prefix: string) => Promise<void>;
+};
+
+// Keys are made of ids, which keeps them inside the storage root
+const STORAGE_KEY_PATTERN = /^[\w-]+(?:\/[\w-]+)*\/?$/;
+
+function assertStorageKey(key: string) {
+  if (!STORAGE_KEY_PATTERN.test(key)) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+}
+
+/**
+ * Stores each key as a file below the root directory
+ */
+export function createLocalAttachmentStorage(root: string): AttachmentStorage {
+  const resolve = (key: string) => {
+    assertStorageKey(key);
+    return path.join(path.resolve(root), key);
+  };
+
+  return {
+    async put(key, data) {
+      const file = resolve(key);
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, data);
+    },
+
+    async get(key) {
+      try {
+        return await readFile(resolve(key));
+      }
+      catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+          return null;
+        }
+        throw error;
+      }
+    },
+
+    async remove(key) {
+      await rm(resolve(key), { force: true });
+    },
+
+    async removePrefix(prefix) {
+      await rm(resolve(prefix), { recursive: true, force: true });
+    },
+  };
+}
@@ -0,0 +1,114 @@
+import { Buffer } from "node:buffer";
+import { createHash, createHmac, timingSafeEqual } from "node:crypto";
+
+import type { TenantType } from "../db/schema";
+
+const IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp"] as const;
+const DOCUMENT_TYPES = ["application/pdf"] as const;
+
+export type AttachmentLimits = {
+  maxBytes: number;
+  mimeTypes: readonly string[];
+};
+
+const MB = 1024 * 1024;
+
+// Trials get photos only; paid plans add PDFs, with room to grow by plan
+export const ATTACHMENT_LIMITS: Record<TenantType, AttachmentLimits> = {
+  trial: { maxBytes: 5 * MB, mimeTypes: IMAGE_TYPES },
+  starter: { maxBytes: 10 * MB, mimeTypes: [...IMAGE_TYPES, ...DOCUMENT_TYPES] },
+  standard: { maxBytes: 25 * MB, mimeTypes: [...IMAGE_TYPES, "image/gif", ...DOCUMENT_TYPES] },
+  enterprise: { maxBytes: 50 * MB, mimeTypes: [...IMAGE_TYPES, "image/gif", ...DOCUMENT_TYPES] },
+};
+
+// Leading bytes of each type we accept. WebP also needs "WEBP" at offset 8.
+const SIGNATURES: { mimeType: string; bytes: number[]; offset?: number }[] = [
+  { mimeType: "image/jpeg", bytes: [0xFF, 0xD8, 0xFF] },
+  { mimeType: "image/png", bytes: [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A] },
+  { mimeType: "image/gif", bytes: [0x47, 0x49, 0x46, 0x38] },
+  { mimeType: "application/pdf", bytes: [0x25, 0x50, 0x44, 0x46, 0x2D] },
+  { mimeType: "image/webp", bytes: [0x57, 0x45, 0x42, 0x50], offset: 8 },
+];
+
+/**
+ * The file's type from its contents, or null when it is not one we recognize.
+ * The type a client declares is not trusted, since files are served back with it.
+ */
+export function detectMimeType(data: Uint8Array): string | null {
+  const matches = (bytes: number[], offset = 0) => bytes.every((byte, index) => data[offset + index] === byte);
+  const isRiff = matches([0x52, 0x49, 0x46, 0x46]);
+
+  const signature = SIGNATURES.find(({ mimeType, bytes, offset }) =>
+    matches(bytes, offset) && (mimeType !== "image/webp" || isRiff));
+  return signature?.mimeType ?? null;
+}
+
+// Room for the multipart boundaries and headers around the file
+const MULTIPART_OVERHEAD_BYTES = 64 * 1024;
+
+// The largest upload request any plan accepts; each plan's own limit is applied to the file itself
+export const MAX_ATTACHMENT_REQUEST_BYTES = Math.max(...Object.values(ATTACHMENT_LIMITS).map(limits => limits.maxBytes))
+  + MULTIPART_OVERHEAD_BYTES;
+
+export type AttachmentRejection = {
+  reason: "size" | "type";
+  message: string;
+};
+
+/**
+ * Why the tenant cannot store the file, or null when it can
+ */
+export function attachmentRejection(limits: AttachmentLimits, file: { size: number; mimeType: string | null }): AttachmentRejection | null {
+  if (file.size > limits.maxBytes) {
+    return { reason: "size", message: `Attachments are limited to ${Math.floor(limits.maxBytes / MB)} MB on this plan` };
+  }
+  if (!file.mimeType || !limits.mimeTypes.includes(file.mimeType)) {
+    return { reason: "type", message: `Allowed file types on this plan: ${limits.mimeTypes.join(", ")}` };
+  }
+  return null;
+}
+
+/**
+ * The uploaded name without any directories or control characters, for display
+ * and the download's Content-Disposition
+ */
+export function attachmentFileName(name: string): string {
+  // eslint-disable-next-line no-control-regex
+  const base = name.split(/[/\\]/).pop()?.replace(/[\x00-\x1F\x7F"]/g, "").trim() ?? "";
+  return base.slice(0, 255) || "attachment";
+}
+
+export function attachmentChecksum(data: Uint8Array): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+// Grouped by tenant and task, so deleting either removes everything below it
+export function attachmentStorageKey(tenantId: string, taskId: number, attachmentId: string): string {
+  return `${tenantId}/${taskId}/${attachmentId}`;
+}
+
+export function taskAttachmentPrefix(tenantId: string, taskId: number): string {
+  return `${tenantId}/${taskId}/`;
+}
+
+/**
+ * A signature for downloading the attachment until `expires`, in Unix seconds
+ */
+export function signAttachmentDownload(attachmentId: string, expires: number, secret: string): string {
+  return createHmac("sha256", secret).update(`${attachmentId}.${expires}`).digest("base64url");
+}
+
+export function verifyAttachmentDownload(
+  attachmentId: string,
+  expires: number,
+  signature: string,
+  secret: string,
+  now = new Date(),
+): boolean {
+  if (!Number.isInteger(expires) || expires * 1000 <= now.getTime()) {
+    return false;
+  }
+  const expected = Buffer.from(signAttachmentDownload(attachmentId, expires, secret));
+  const actual = Buffer.from(signature);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,20 @@
+import type { Context } from "hono";
+
+import { isIP } from "node:net";
+
+export type AuditContext = ReturnType<typeof getAuditContext>;
+
+/**
+ * Request details recorded with every audit log row
+ */
+export function getAuditContext(c: Context) {
+  const forwardedFor = c.req.header("x-forwarded-for")?.split(",")[0].trim();
+
+  return {
+    userId: c.get("userId") ?? null,
+    tenantId: c.get("tenant")?.id ?? null,
+    // ip_address is an inet column, so drop anything that is not an address
+    ipAddress: forwardedFor && isIP(forwardedFor) ? forwardedFor : null,
+    userAgent: c.req.header("user-agent") ?? null,
+  };
+}
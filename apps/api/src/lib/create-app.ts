@@ -4,6 +4,7 @@ import type { AppOpenAPI } from "./types";
 
 import { errorHandler } from "../middleware/error-handler";
 import { optionalKeycloakAuth } from "../middleware/keycloak";
+import { permifyContext } from "../middleware/permify-context";
 import { createPinoLogger } from "../middleware/pino-logger";
 import { BASE_PATH } from "./constants";
 import createRouter from "./create-router";
@@ -26,6 +27,7 @@ export default function createApp() {
     .use("*", (c, next) => {
       return optionalKeycloakAuth()(c, next);
     })
+    .use("*", permifyContext())
     .notFound(notFound)
     .onError(errorHandler);
 
@@ -0,0 +1,90 @@
+/**
+ * Parse RFC 4180 CSV text into rows of fields. Quoted fields may contain
+ * commas, newlines and doubled quotes.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  // Skip a leading byte order mark from spreadsheet exports
+  const input = text.startsWith("\uFEFF") ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === "\"") {
+        if (input[i + 1] === "\"") {
+          field += "\"";
+          i++;
+        }
+        else {
+          inQuotes = false;
+        }
+      }
+      else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === "\"") {
+      inQuotes = true;
+    }
+    else if (char === ",") {
+      row.push(field);
+      field = "";
+    }
+    else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    }
+    else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines carry no data
+  return rows.filter(fields => fields.some(value => value.trim() !== ""));
+}
+
+/**
+ * Parse CSV text with a header row into one record per data row
+ */
+export function parseCsvRecords(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    return [];
+  }
+  const columns = header.map(column => column.trim());
+  return rows.map(fields => Object.fromEntries(
+    columns.map((column, index) => [column, fields[index] ?? ""]),
+  ));
+}
+
+// Spreadsheets evaluate cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Format one CSV row, quoting fields that contain commas, quotes or line breaks.
+ * Text that a spreadsheet would read as a formula is prefixed with a quote.
+ */
+export function formatCsvRow(fields: (string | number | null | undefined)[]): string {
+  return `${fields.map((value) => {
+    const text = value == null ? "" : String(value);
+    const field = typeof value === "string" && FORMULA_PREFIX.test(text) ? `'${text}` : text;
+    return /[",\r\n]/.test(field) ? `"${field.replaceAll("\"", "\"\"")}"` : field;
+  }).join(",")}\r\n`;
+}
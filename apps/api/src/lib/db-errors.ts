@@ -0,0 +1,19 @@
+// Postgres error code for a row that breaks a unique constraint
+const UNIQUE_VIOLATION = "23505";
+
+type PostgresErrorFields = {
+  code?: unknown;
+  constraint_name?: unknown;
+};
+
+/**
+ * Whether the error is Postgres refusing a duplicate under the named unique constraint
+ */
+export function isUniqueViolation(error: unknown, constraint: string): boolean {
+  if (typeof error !== "object" || error === null) {
+    return false;
+  }
+  const { code, constraint_name: constraintName } = error as PostgresErrorFields;
+  return (code === UNIQUE_VIOLATION && constraintName === constraint)
+    || ("cause" in error && isUniqueViolation(error.cause, constraint));
+}
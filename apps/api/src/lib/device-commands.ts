@@ -0,0 +1,66 @@
+import type { Executor } from "../db";
+import type { DeviceCommandStatus, DeviceCommandType } from "../db/schema";
+import type { AuditContext } from "./audit";
+
+import { auditLogs, deviceCommands } from "../db/schema";
+
+export const MAX_POLLED_COMMANDS = 50;
+
+/**
+ * Permify device permission required to issue each command type
+ */
+export const DEVICE_COMMAND_PERMISSIONS: Record<DeviceCommandType, string> = {
+  reboot: "reboot",
+  configure: "configure",
+  firmware_update: "update_firmware",
+};
+
+/**
+ * Statuses a device still has to act on. Delivered commands are handed out
+ * again on the next poll, so a device that crashed mid-command retries it.
+ */
+export const OPEN_COMMAND_STATUSES = ["pending", "delivered"] as const satisfies readonly DeviceCommandStatus[];
+
+export function isCommandOpen(status: DeviceCommandStatus): boolean {
+  return (OPEN_COMMAND_STATUSES as readonly DeviceCommandStatus[]).includes(status);
+}
+
+export type QueuedDeviceCommand = {
+  deviceId: string;
+  type: DeviceCommandType;
+  payload: Record<string, any> | null;
+};
+
+/**
+ * Queue commands and write an execute audit row for each one
+ */
+export async function queueDeviceCommands(
+  executor: Executor,
+  commands: QueuedDeviceCommand[],
+  audit: AuditContext,
+  details: Record<string, unknown> = {},
+) {
+  if (commands.length === 0) {
+    return [];
+  }
+
+  const created = await executor.insert(deviceCommands)
+    .values(commands.map(command => ({ ...command, issuedBy: audit.userId })))
+    .returning();
+
+  await executor.insert(auditLogs).values(created.map(command => ({
+    ...audit,
+    action: "execute" as const,
+    resourceType: "device" as const,
+    resourceId: command.deviceId,
+    details: {
+      ...details,
+      event: "issued",
+      commandId: command.id,
+      type: command.type,
+      payload: command.payload,
+    },
+  })));
+
+  return created;
+}
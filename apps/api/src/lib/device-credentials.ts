@@ -0,0 +1,47 @@
+import { createHash, randomBytes } from "node:crypto";
+
+export const ENROLLMENT_TOKEN_PREFIX = "enr_";
+export const DEVICE_SECRET_PREFIX = "dvc_";
+
+/**
+ * A random secret with a recognizable prefix, so a leaked value can be
+ * traced to what it unlocks
+ */
+export function generateSecret(prefix: string): string {
+  return `${prefix}${randomBytes(32).toString("base64url")}`;
+}
+
+/**
+ * Secrets are stored as a SHA-256 hash. They are long and random, so a fast
+ * hash is enough and lets us look them up by value.
+ */
+export function hashSecret(secret: string): string {
+  return createHash("sha256").update(secret).digest("hex");
+}
+
+export function isDeviceSecret(token: string): boolean {
+  return token.startsWith(DEVICE_SECRET_PREFIX);
+}
+
+type EnrollmentTokenState = {
+  maxUses: number;
+  useCount: number;
+  expiresAt: Date;
+  revokedAt: Date | null;
+};
+
+/**
+ * Why an enrollment token cannot be used, or null when it can
+ */
+export function enrollmentTokenRejection(token: EnrollmentTokenState, now = new Date()): string | null {
+  if (token.revokedAt) {
+    return "Enrollment token has been revoked";
+  }
+  if (token.expiresAt <= now) {
+    return "Enrollment token has expired";
+  }
+  if (token.useCount >= token.maxUses) {
+    return "Enrollment token has been used up";
+  }
+  return null;
+}
@@ -0,0 +1,67 @@
+import type { DeviceStatus, DeviceType } from "../db/schema";
+
+import { formatCsvRow } from "./csv";
+
+export const DEVICE_EXPORT_FORMATS = ["csv", "ndjson"] as const;
+export type DeviceExportFormat = typeof DEVICE_EXPORT_FORMATS[number];
+
+export const DEVICE_EXPORT_CONTENT_TYPES: Record<DeviceExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  ndjson: "application/x-ndjson; charset=utf-8",
+};
+
+// Rows are read in batches of this size while the response streams
+export const DEVICE_EXPORT_BATCH_SIZE = 500;
+
+export type DeviceExportRow = {
+  id: string;
+  name: string;
+  type: DeviceType;
+  serialNumber: string | null;
+  model: string | null;
+  manufacturer: string | null;
+  siteId: string;
+  siteName: string;
+  status: DeviceStatus;
+  firmwareVersion: string | null;
+  lastSeenAt: Date | null;
+  isActive: boolean;
+  createdAt: Date;
+};
+
+// Column order of the CSV export, which is also the key order of NDJSON records
+export const DEVICE_EXPORT_COLUMNS: (keyof DeviceExportRow)[] = [
+  "id",
+  "name",
+  "type",
+  "serialNumber",
+  "model",
+  "manufacturer",
+  "siteId",
+  "siteName",
+  "status",
+  "firmwareVersion",
+  "lastSeenAt",
+  "isActive",
+  "createdAt",
+];
+
+function exportValue(value: DeviceExportRow[keyof DeviceExportRow]) {
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+/**
+ * Text written before the first row: a header for CSV, nothing for NDJSON
+ */
+export function formatDeviceExportHeader(format: DeviceExportFormat): string {
+  return format === "csv" ? formatCsvRow(DEVICE_EXPORT_COLUMNS) : "";
+}
+
+export function formatDeviceExportRow(row: DeviceExportRow, format: DeviceExportFormat): string {
+  const values = DEVICE_EXPORT_COLUMNS.map(column => exportValue(row[column]));
+
+  if (format === "csv") {
+    return formatCsvRow(values.map(value => typeof value === "boolean" ? String(value) : value));
+  }
+  return `${JSON.stringify(Object.fromEntries(DEVICE_EXPORT_COLUMNS.map((column, index) => [column, values[index]])))}\n`;
+}
@@ -0,0 +1,51 @@
+import { and, eq } from "drizzle-orm";
+import { ZodIssueCode } from "zod";
+
+import type { DeviceType } from "../db/schema";
+import type { JsonSchemaIssue } from "./json-schema";
+
+import { db } from "../db";
+import { deviceMetadataSchemas } from "../db/schema";
+import { validateJsonSchema } from "./json-schema";
+
+/**
+ * Check device metadata against the tenant's schema for the device type.
+ * Devices of a type without a registered schema accept any metadata.
+ */
+export async function findDeviceMetadataIssues(
+  tenantId: string,
+  type: DeviceType,
+  metadata: Record<string, any> | null | undefined,
+): Promise<JsonSchemaIssue[]> {
+  const registered = await db.query.deviceMetadataSchemas.findFirst({
+    columns: { schema: true },
+    where: and(
+      eq(deviceMetadataSchemas.tenantId, tenantId),
+      eq(deviceMetadataSchemas.deviceType, type),
+    ),
+  });
+
+  if (!registered) {
+    return [];
+  }
+
+  // Missing metadata still has to satisfy required fields
+  return validateJsonSchema(registered.schema, metadata ?? {}, ["metadata"]);
+}
+
+/**
+ * Metadata issues in the same shape as request validation errors
+ */
+export function metadataValidationError(issues: JsonSchemaIssue[]) {
+  return {
+    success: false as const,
+    error: {
+      issues: issues.map(issue => ({
+        code: ZodIssueCode.custom,
+        path: issue.path,
+        message: issue.message,
+      })),
+      name: "ZodError",
+    },
+  };
+}
@@ -0,0 +1,115 @@
+import type { Logger } from "pino";
+
+import { and, inArray, isNotNull, lt } from "drizzle-orm";
+
+import { db } from "../db";
+import { devices } from "../db/schema";
+import env from "../env";
+import { getBackgroundPermifySync } from "../middleware/permify-context";
+import { offlineCutoff, SWEEPABLE_STATUSES } from "./device-status";
+import { recordDeviceStatusChanges } from "./device-status-history";
+import { expireFirmwareCampaignCommands } from "./firmware-campaign-rollout";
+import { findMaintenanceCandidates, syncMaintenanceTasks } from "./maintenance-task-sync";
+
+/**
+ * Mark devices offline when they have missed the configured number of
+ * heartbeats. Returns the ids of the devices that went offline.
+ */
+export async function sweepOfflineDevices(now = new Date()): Promise<string[]> {
+  const cutoff = offlineCutoff(now, env.DEVICE_HEARTBEAT_INTERVAL_SECONDS, env.DEVICE_OFFLINE_MISSED_HEARTBEATS);
+
+  return db.transaction(async (tx) => {
+    // Lock the stale rows so a heartbeat arriving mid-sweep waits for us
+    const stale = await tx.select({ id: devices.id, status: devices.status })
+      .from(devices)
+      .where(and(
+        inArray(devices.status, [...SWEEPABLE_STATUSES]),
+        isNotNull(devices.lastSeenAt),
+        lt(devices.lastSeenAt, cutoff),
+      ))
+      .for("update");
+
+    if (stale.length === 0) {
+      return [];
+    }
+
+    const ids = stale.map(device => device.id);
+    await tx.update(devices)
+      .set({ status: "offline", updatedAt: now })
+      .where(inArray(devices.id, ids));
+
+    await recordDeviceStatusChanges(
+      tx,
+      stale.map(device => ({ deviceId: device.id, fromStatus: device.status, toStatus: "offline" })),
+      "offline_sweep",
+    );
+
+    return ids;
+  });
+}
+
+/**
+ * Open maintenance tasks for devices in error or offline past their tenant's
+ * threshold that do not have one yet. Returns the ids of the opened tasks.
+ */
+export async function openMaintenanceTasks(now = new Date()): Promise<number[]> {
+  const permifySync = await getBackgroundPermifySync();
+
+  return db.transaction(async (tx) => {
+    const candidates = await findMaintenanceCandidates(tx, now);
+    const { opened } = await syncMaintenanceTasks(tx, candidates, permifySync, now);
+    return opened;
+  });
+}
+
+/**
+ * Fail campaign firmware updates that were not acknowledged in time, so their
+ * campaigns can finish. Returns the ids of the failed commands.
+ */
+export async function expireFirmwareUpdates(now = new Date()): Promise<string[]> {
+  const cutoff = new Date(now.getTime() - env.FIRMWARE_UPDATE_ACK_TIMEOUT_SECONDS * 1000);
+
+  return db.transaction(tx => expireFirmwareCampaignCommands(tx, cutoff, now));
+}
+
+/**
+ * Run the offline sweep, open maintenance tasks and expire firmware updates on an interval. Returns a function that stops it.
+ */
+export function startDeviceOfflineSweeper(logger: Logger): () => void {
+  let running = false;
+
+  const timer = setInterval(async () => {
+    // Skip a tick rather than overlap a slow sweep
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      const ids = await sweepOfflineDevices();
+      if (ids.length > 0) {
+        logger.info({ count: ids.length, deviceIds: ids }, "Marked devices offline after missed heartbeats");
+      }
+
+      // Offline devices only need a task once they pass the threshold, so this runs every tick
+      const taskIds = await openMaintenanceTasks();
+      if (taskIds.length > 0) {
+        logger.info({ count: taskIds.length, taskIds }, "Opened maintenance tasks for failing devices");
+      }
+
+      const commandIds = await expireFirmwareUpdates();
+      if (commandIds.length > 0) {
+        logger.info({ count: commandIds.length, commandIds }, "Failed firmware updates that were not acknowledged in time");
+      }
+    }
+    catch (error) {
+      logger.error({ err: error }, "Device offline sweep failed");
+    }
+    finally {
+      running = false;
+    }
+  }, env.DEVICE_OFFLINE_SWEEP_INTERVAL_SECONDS * 1000);
+
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,32 @@
+import type { Executor } from "../db";
+import type { DeviceStatus } from "../db/schema";
+
+import { deviceStatusHistory } from "../db/schema";
+
+export type DeviceStatusChange = {
+  deviceId: string;
+  fromStatus: DeviceStatus | null;
+  toStatus: DeviceStatus;
+};
+
+export type DeviceStatusChangeReason = "heartbeat" | "offline_sweep" | "manual" | "site_transition" | "enrollment";
+
+/**
+ * Record status changes in the history table, skipping rows where the status did not change
+ */
+export async function recordDeviceStatusChanges(
+  executor: Executor,
+  changes: DeviceStatusChange[],
+  reason: DeviceStatusChangeReason,
+  changedBy: string | null = null,
+) {
+  const rows = changes
+    .filter(change => change.fromStatus !== change.toStatus)
+    .map(change => ({ ...change, reason, changedBy }));
+
+  if (rows.length === 0) {
+    return;
+  }
+
+  await executor.insert(deviceStatusHistory).values(rows);
+}
@@ -0,0 +1,30 @@
+import type { DeviceStatus } from "../db/schema";
+
+/**
+ * Statuses a device may report about itself in a heartbeat
+ */
+export const HEARTBEAT_STATUSES = ["online", "error"] as const satisfies readonly DeviceStatus[];
+export type HeartbeatStatus = typeof HEARTBEAT_STATUSES[number];
+
+/**
+ * Statuses the offline sweeper moves to offline once heartbeats stop
+ */
+export const SWEEPABLE_STATUSES = ["online", "error"] as const satisfies readonly DeviceStatus[];
+
+/**
+ * Status a device ends up in after a heartbeat. Maintenance and
+ * decommissioning are set by people, so a heartbeat does not override them.
+ */
+export function statusAfterHeartbeat(current: DeviceStatus, reported: HeartbeatStatus): DeviceStatus {
+  if (current === "maintenance" || current === "decommissioned") {
+    return current;
+  }
+  return reported;
+}
+
+/**
+ * Devices last seen before this time have missed too many heartbeats
+ */
+export function offlineCutoff(now: Date, heartbeatIntervalSeconds: number, missedHeartbeats: number): Date {
+  return new Date(now.getTime() - heartbeatIntervalSeconds * missedHeartbeats * 1000);
+}
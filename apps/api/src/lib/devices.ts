@@ -0,0 +1,45 @@
+import { and, eq, ne } from "drizzle-orm";
+import { HTTPException } from "hono/http-exception";
+import * as HttpStatusCodes from "stoker/http-status-codes";
+
+import { db } from "../db";
+import { devices } from "../db/schema";
+import { isUniqueViolation } from "./db-errors";
+
+const SERIAL_NUMBER_CONSTRAINT = "devices_serial_number_unique";
+
+function serialNumberConflict() {
+  return new HTTPException(HttpStatusCodes.CONFLICT, {
+    message: "Device with this serial number already exists",
+  });
+}
+
+// Serial numbers are unique across all tenants
+export async function assertSerialNumberAvailable(serialNumber: string, exceptDeviceId?: string) {
+  const existing = await db.query.devices.findFirst({
+    columns: { id: true },
+    where: exceptDeviceId
+      ? and(eq(devices.serialNumber, serialNumber), ne(devices.id, exceptDeviceId))
+      : eq(devices.serialNumber, serialNumber),
+  });
+
+  if (existing) {
+    throw serialNumberConflict();
+  }
+}
+
+/**
+ * Runs a device write, turning a serial number taken by a concurrent write
+ * since assertSerialNumberAvailable into the same conflict
+ */
+export async function withSerialNumberConflict<T>(write: () => Promise<T>): Promise<T> {
+  try {
+    return await write();
+  }
+  catch (error) {
+    if (isUniqueViolation(error, SERIAL_NUMBER_CONSTRAINT)) {
+      throw serialNumberConflict();
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,197 @@
+import { and, eq, inArray, isNull, lt, sql } from "drizzle-orm";
+
+import type { Executor } from "../db";
+import type { AuditContext } from "./audit";
+
+import { auditLogs, deviceCommands, firmwareCampaignDevices, firmwareCampaigns } from "../db/schema";
+import { OPEN_COMMAND_STATUSES, queueDeviceCommands } from "./device-commands";
+import { failureThresholdExceeded, summarizeWaves } from "./firmware-campaigns";
+
+type FirmwareCampaignRow = typeof firmwareCampaigns.$inferSelect;
+
+// Waves after the first are started by device acknowledgements, so they are issued in the creator's name
+function campaignAuditContext(campaign: FirmwareCampaignRow): AuditContext {
+  return {
+    userId: campaign.createdBy,
+    tenantId: campaign.tenantId,
+    ipAddress: null,
+    userAgent: null,
+  };
+}
+
+/**
+ * Per-wave progress of a campaign
+ */
+export async function getCampaignProgress(executor: Executor, campaign: FirmwareCampaignRow) {
+  const counts = await executor.select({
+    wave: firmwareCampaignDevices.wave,
+    status: deviceCommands.status,
+    count: sql<number>`count(*)`.mapWith(Number),
+  })
+    .from(firmwareCampaignDevices)
+    .leftJoin(deviceCommands, eq(firmwareCampaignDevices.commandId, deviceCommands.id))
+    .where(eq(firmwareCampaignDevices.campaignId, campaign.id))
+    .groupBy(firmwareCampaignDevices.wave, deviceCommands.status);
+
+  return summarizeWaves(campaign.waves, counts);
+}
+
+// Queue firmware_update commands for the devices in one wave
+async function dispatchWave(executor: Executor, campaign: FirmwareCampaignRow, wave: number) {
+  const members = await executor.select({ deviceId: firmwareCampaignDevices.deviceId })
+    .from(firmwareCampaignDevices)
+    .where(and(
+      eq(firmwareCampaignDevices.campaignId, campaign.id),
+      eq(firmwareCampaignDevices.wave, wave),
+      isNull(firmwareCampaignDevices.commandId),
+    ));
+
+  const commands = await queueDeviceCommands(
+    executor,
+    members.map(member => ({
+      deviceId: member.deviceId,
+      type: "firmware_update" as const,
+      payload: {
+        version: campaign.firmwareVersion,
+        url: campaign.firmwareUrl,
+        ...(campaign.checksum ? { checksum: campaign.checksum } : {}),
+      },
+    })),
+    campaignAuditContext(campaign),
+    { campaignId: campaign.id, wave },
+  );
+
+  if (commands.length === 0) {
+    return;
+  }
+
+  const commandIds = commands.map(command => command.id);
+  await executor.update(firmwareCampaignDevices)
+    .set({
+      commandId: sql`(select ${deviceCommands.id} from ${deviceCommands} where ${deviceCommands.deviceId} = ${firmwareCampaignDevices.deviceId} and ${inArray(deviceCommands.id, commandIds)})`,
+    })
+    .where(and(
+      eq(firmwareCampaignDevices.campaignId, campaign.id),
+      eq(firmwareCampaignDevices.wave, wave),
+      isNull(firmwareCampaignDevices.commandId),
+    ));
+}
+
+async function finishCampaign(
+  executor: Executor,
+  campaign: FirmwareCampaignRow,
+  status: "halted" | "completed",
+  haltReason: string | null = null,
+) {
+  const now = new Date();
+  const [finished] = await executor.update(firmwareCampaigns)
+    .set({ status, haltReason, completedAt: now, updatedAt: now })
+    .where(eq(firmwareCampaigns.id, campaign.id))
+    .returning();
+
+  await executor.insert(auditLogs).values({
+    ...campaignAuditContext(campaign),
+    action: "deploy",
+    resourceType: "configuration",
+    resourceId: campaign.id,
+    details: { event: status, haltReason },
+    success: status === "completed",
+  });
+
+  return finished;
+}
+
+/**
+ * Move a running campaign forward: halt it once too many updates have failed,
+ * dispatch the current wave if it has not gone out yet, and start the next
+ * wave once every device in the current one has acknowledged. Call inside a
+ * transaction after any campaign command completes.
+ */
+export async function advanceFirmwareCampaign(executor: Executor, campaignId: string): Promise<FirmwareCampaignRow | null> {
+  const [locked] = await executor.select()
+    .from(firmwareCampaigns)
+    .where(eq(firmwareCampaigns.id, campaignId))
+    .for("update");
+
+  if (!locked || locked.status !== "running") {
+    return locked ?? null;
+  }
+
+  let campaign = locked;
+  for (;;) {
+    const progress = await getCampaignProgress(executor, campaign);
+    const dispatched = progress.reduce((total, wave) => total + wave.devices - wave.queued, 0);
+    const failed = progress.reduce((total, wave) => total + wave.failed, 0);
+
+    if (failureThresholdExceeded(failed, dispatched, campaign.failureThreshold)) {
+      return finishCampaign(executor, campaign, "halted", `${failed} of ${dispatched} updates failed`);
+    }
+
+    const current = progress[campaign.currentWave];
+    if (current.queued > 0) {
+      await dispatchWave(executor, campaign, campaign.currentWave);
+      return campaign;
+    }
+    if (current.pending + current.delivered > 0) {
+      return campaign;
+    }
+    if (campaign.currentWave === campaign.waves.length - 1) {
+      return finishCampaign(executor, campaign, "completed");
+    }
+
+    [campaign] = await executor.update(firmwareCampaigns)
+      .set({ currentWave: campaign.currentWave + 1, updatedAt: new Date() })
+      .where(eq(firmwareCampaigns.id, campaign.id))
+      .returning();
+  }
+}
+
+/**
+ * Fail the updates of running campaigns that devices have not acknowledged
+ * since the cutoff, such as devices that went offline or whose site was
+ * decommissioned, then move their campaigns on. Without this a single silent
+ * device keeps its campaign running forever. Returns the failed command ids.
+ */
+export async function expireFirmwareCampaignCommands(executor: Executor, cutoff: Date, now = new Date()): Promise<string[]> {
+  // Skip commands a device is acknowledging right now
+  const stale = await executor.select({
+    commandId: deviceCommands.id,
+    deviceId: deviceCommands.deviceId,
+    campaign: firmwareCampaigns,
+  })
+    .from(firmwareCampaignDevices)
+    .innerJoin(firmwareCampaigns, eq(firmwareCampaignDevices.campaignId, firmwareCampaigns.id))
+    .innerJoin(deviceCommands, eq(firmwareCampaignDevices.commandId, deviceCommands.id))
+    .where(and(
+      eq(firmwareCampaigns.status, "running"),
+      inArray(deviceCommands.status, [...OPEN_COMMAND_STATUSES]),
+      lt(deviceCommands.createdAt, cutoff),
+    ))
+    .for("update", { of: deviceCommands, skipLocked: true });
+
+  if (stale.length === 0) {
+    return [];
+  }
+
+  const errorMessage = "Device did not acknowledge the update in time";
+  const commandIds = stale.map(row => row.commandId);
+  await executor.update(deviceCommands)
+    .set({ status: "failed", errorMessage, completedAt: now })
+    .where(inArray(deviceCommands.id, commandIds));
+
+  await executor.insert(auditLogs).values(stale.map(row => ({
+    ...campaignAuditContext(row.campaign),
+    action: "execute" as const,
+    resourceType: "device" as const,
+    resourceId: row.deviceId,
+    details: { event: "timed_out", commandId: row.commandId, type: "firmware_update" },
+    success: false,
+    errorMessage,
+  })));
+
+  for (const campaignId of new Set(stale.map(row => row.campaign.id))) {
+    await advanceFirmwareCampaign(executor, campaignId);
+  }
+
+  return commandIds;
+}
@@ -0,0 +1,65 @@
+import type { DeviceCommandStatus, FirmwareCampaignWave } from "../db/schema";
+
+/**
+ * Wave index for each of `count` devices, given cumulative wave percentages.
+ * Each wave gets at least one device while devices remain, so a 5% first wave
+ * over a small fleet still updates a canary.
+ */
+export function assignWaves(count: number, waves: readonly number[]): number[] {
+  const assigned: number[] = [];
+
+  waves.forEach((percent, wave) => {
+    const cutoff = wave === waves.length - 1
+      ? count
+      : Math.min(count, Math.max(assigned.length + 1, Math.ceil(count * percent / 100)));
+
+    while (assigned.length < cutoff) {
+      assigned.push(wave);
+    }
+  });
+
+  return assigned;
+}
+
+/**
+ * Whether failed updates make up more than the threshold of those dispatched
+ */
+export function failureThresholdExceeded(failed: number, dispatched: number, threshold: number): boolean {
+  if (dispatched === 0) {
+    return false;
+  }
+  return failed / dispatched > threshold;
+}
+
+export type CampaignCommandCount = {
+  wave: number;
+  status: DeviceCommandStatus | null; // Null while the wave has not been dispatched
+  count: number;
+};
+
+/**
+ * Per-wave progress from command counts grouped by wave and status
+ */
+export function summarizeWaves(waves: readonly number[], counts: CampaignCommandCount[]): FirmwareCampaignWave[] {
+  const summary = waves.map((percent, wave) => ({
+    wave,
+    percent,
+    devices: 0,
+    queued: 0,
+    pending: 0,
+    delivered: 0,
+    succeeded: 0,
+    failed: 0,
+  }));
+
+  for (const { wave, status, count } of counts) {
+    const row = summary[wave];
+    if (!row) {
+      continue;
+    }
+    row.devices += count;
+    row[status ?? "queued"] += count;
+  }
+
+  return summary;
+}
@@ -0,0 +1,94 @@
+import type { AnyColumn, SQL } from "drizzle-orm";
+
+import { sql } from "drizzle-orm";
+
+export const EARTH_RADIUS_KM = 6371;
+
+// Length of one degree of latitude, used to pre-filter with the location index
+export const KM_PER_DEGREE_LATITUDE = 111.045;
+
+export type Coordinates = {
+  lat: number;
+  lng: number;
+};
+
+export type BoundingBox = {
+  minLng: number;
+  minLat: number;
+  maxLng: number;
+  maxLat: number;
+};
+
+function parseNumberList(value: string, expected: number): number[] | null {
+  const parts = value.split(",").map(part => part.trim());
+  if (parts.length !== expected || parts.includes("")) {
+    return null;
+  }
+  const numbers = parts.map(Number);
+  return numbers.every(Number.isFinite) ? numbers : null;
+}
+
+function isLatitude(value: number) {
+  return value >= -90 && value <= 90;
+}
+
+function isLongitude(value: number) {
+  return value >= -180 && value <= 180;
+}
+
+/**
+ * Parse a "lat,lng" pair, returning null when it is malformed or out of range
+ */
+export function parseCoordinates(value: string): Coordinates | null {
+  const numbers = parseNumberList(value, 2);
+  if (!numbers) {
+    return null;
+  }
+  const [lat, lng] = numbers;
+  if (!isLatitude(lat) || !isLongitude(lng)) {
+    return null;
+  }
+  return { lat, lng };
+}
+
+/**
+ * Parse a "minLng,minLat,maxLng,maxLat" box. minLng may exceed maxLng
+ * for boxes that cross the antimeridian.
+ */
+export function parseBoundingBox(value: string): BoundingBox | null {
+  const numbers = parseNumberList(value, 4);
+  if (!numbers) {
+    return null;
+  }
+  const [minLng, minLat, maxLng, maxLat] = numbers;
+  if (!isLongitude(minLng) || !isLongitude(maxLng) || !isLatitude(minLat) || !isLatitude(maxLat)) {
+    return null;
+  }
+  if (minLat > maxLat) {
+    return null;
+  }
+  return { minLng, minLat, maxLng, maxLat };
+}
+
+/**
+ * Great-circle distance in kilometers between two coordinates
+ */
+export function haversineDistanceKm(from: Coordinates, to: Coordinates): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * SQL expression for the haversine distance in kilometers from a point
+ */
+export function haversineDistanceSql(latitude: AnyColumn, longitude: AnyColumn, origin: Coordinates): SQL<number> {
+  return sql<number>`(2 * ${EARTH_RADIUS_KM} * asin(least(1, sqrt(
+    power(sin(radians(${latitude} - ${origin.lat}) / 2), 2)
+    + cos(radians(${origin.lat})) * cos(radians(${latitude}))
+    * power(sin(radians(${longitude} - ${origin.lng}) / 2), 2)
+  ))))`.mapWith(Number);
+}
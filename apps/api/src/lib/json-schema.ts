@@ -0,0 +1,262 @@
+import { z } from "zod";
+
+/**
+ * The JSON Schema subset metadata schemas may use. Unknown keywords are
+ * rejected rather than silently ignored, so a schema never looks stricter
+ * than it is.
+ */
+export type JsonSchema = {
+  type?: JsonSchemaType | JsonSchemaType[];
+  title?: string;
+  description?: string;
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+};
+
+const JSON_SCHEMA_TYPES = ["string", "number", "integer", "boolean", "object", "array", "null"] as const;
+type JsonSchemaType = typeof JSON_SCHEMA_TYPES[number];
+
+// Patterns run on the event loop for every tenant, so both they and the
+// strings they are tested against are kept small
+export const MAX_PATTERN_LENGTH = 100;
+export const MAX_PATTERN_VALUE_LENGTH = 256;
+const MAX_UNBOUNDED_QUANTIFIERS = 2;
+// A {n,m} repeat with a larger upper bound backtracks like *
+const MAX_BOUNDED_REPEAT = 10;
+
+const QUANTIFIER = /^(?:[*+?]|\{\d+(?:(,)(\d*))?\})\??/;
+
+function isUnboundedQuantifier(match: RegExpExecArray): boolean {
+  const [quantifier, comma, max] = match;
+  if (quantifier.startsWith("*") || quantifier.startsWith("+")) {
+    return true;
+  }
+  return comma !== undefined && (max === "" || Number(max) > MAX_BOUNDED_REPEAT);
+}
+
+/**
+ * Why a pattern may not be used, or null if it is safe. Patterns that can
+ * backtrack catastrophically are rejected: backreferences, an unbounded
+ * repeat of a group that itself repeats or has alternatives, and more than
+ * a couple of unbounded quantifiers.
+ */
+export function patternIssue(pattern: string): string | null {
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    return `Must be at most ${MAX_PATTERN_LENGTH} characters`;
+  }
+  try {
+    // eslint-disable-next-line no-new
+    new RegExp(pattern, "u");
+  }
+  catch {
+    return "Expected a valid regular expression";
+  }
+
+  // Whether each open group, outermost first, repeats anything or has alternatives
+  const groups = [false];
+  // Whether the atom before the current position is such a group
+  let repeatsInside = false;
+  let unbounded = 0;
+
+  for (let index = 0; index < pattern.length; index++) {
+    const char = pattern[index];
+    const quantifier = QUANTIFIER.exec(pattern.slice(index));
+
+    if (quantifier && index > 0) {
+      const isUnbounded = isUnboundedQuantifier(quantifier);
+      if (isUnbounded && repeatsInside) {
+        return "Repeated groups must not contain repeats or alternatives";
+      }
+      if (isUnbounded && ++unbounded > MAX_UNBOUNDED_QUANTIFIERS) {
+        return `Must have at most ${MAX_UNBOUNDED_QUANTIFIERS} unbounded repeats`;
+      }
+      groups[groups.length - 1] = true;
+      repeatsInside = false;
+      index += quantifier[0].length - 1;
+      continue;
+    }
+
+    repeatsInside = false;
+    if (char === "\\") {
+      if (/[1-9k]/.test(pattern[index + 1] ?? "")) {
+        return "Backreferences are not supported";
+      }
+      index++;
+    }
+    else if (char === "[") {
+      // Quantifier characters inside a class are literals
+      for (index++; index < pattern.length && pattern[index] !== "]"; index++) {
+        if (pattern[index] === "\\") {
+          index++;
+        }
+      }
+    }
+    else if (char === "(") {
+      groups.push(false);
+      // Skip the group's modifier, such as ?: or ?<name>, so its ? is not read as a quantifier
+      const modifier = /^\?(?:<[=!]|<[^>]*>|[:=!])/.exec(pattern.slice(index + 1));
+      index += modifier?.[0].length ?? 0;
+    }
+    else if (char === ")") {
+      repeatsInside = groups.pop() ?? false;
+      groups[groups.length - 1] ||= repeatsInside;
+    }
+    else if (char === "|") {
+      groups[groups.length - 1] = true;
+    }
+  }
+
+  return null;
+}
+
+export const jsonSchemaDefinition: z.ZodType<JsonSchema> = z.lazy(() => z.object({
+  type: z.enum(JSON_SCHEMA_TYPES).or(z.array(z.enum(JSON_SCHEMA_TYPES)).min(1)).optional(),
+  title: z.string().optional(),
+  description: z.string().optional(),
+  enum: z.array(z.unknown()).min(1).optional(),
+  const: z.unknown().optional(),
+  properties: z.record(jsonSchemaDefinition).optional(),
+  required: z.array(z.string()).optional(),
+  additionalProperties: z.boolean().optional(),
+  items: jsonSchemaDefinition.optional(),
+  minItems: z.number().int().min(0).optional(),
+  maxItems: z.number().int().min(0).optional(),
+  minimum: z.number().optional(),
+  maximum: z.number().optional(),
+  minLength: z.number().int().min(0).optional(),
+  maxLength: z.number().int().min(0).optional(),
+  pattern: z.string().superRefine((pattern, ctx) => {
+    const issue = patternIssue(pattern);
+    if (issue) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: issue });
+    }
+  }).optional(),
+}).strict());
+
+export type JsonSchemaIssue = {
+  path: (string | number)[];
+  message: string;
+};
+
+function typeOf(value: unknown): JsonSchemaType {
+  if (value === null) {
+    return "null";
+  }
+  if (Array.isArray(value)) {
+    return "array";
+  }
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? "integer" : "number";
+  }
+  return typeof value as JsonSchemaType;
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  const actual = typeOf(value);
+  // Every integer is also a number
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+function isDeepEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Validate a value against a schema, returning every issue found with the
+ * path to the offending field. An empty list means the value is valid.
+ */
+export function validateJsonSchema(schema: JsonSchema, value: unknown, path: (string | number)[] = []): JsonSchemaIssue[] {
+  const issues: JsonSchemaIssue[] = [];
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      // Later checks assume the type matched
+      return [{ path, message: `Expected ${types.join(" or ")}, received ${typeOf(value)}` }];
+    }
+  }
+
+  if (schema.enum !== undefined && !schema.enum.some(option => isDeepEqual(option, value))) {
+    issues.push({ path, message: `Expected one of ${schema.enum.map(option => JSON.stringify(option)).join(", ")}` });
+  }
+  if (schema.const !== undefined && !isDeepEqual(schema.const, value)) {
+    issues.push({ path, message: `Expected ${JSON.stringify(schema.const)}` });
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({ path, message: `Must be at least ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push({ path, message: `Must be at most ${schema.maximum}` });
+    }
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      issues.push({ path, message: `Must be at least ${schema.minLength} characters` });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      issues.push({ path, message: `Must be at most ${schema.maxLength} characters` });
+    }
+    if (schema.pattern !== undefined) {
+      // Schemas saved before patterns were restricted are not run either
+      if (patternIssue(schema.pattern)) {
+        issues.push({ path, message: `Pattern ${schema.pattern} is not supported` });
+      }
+      else if (value.length > MAX_PATTERN_VALUE_LENGTH) {
+        issues.push({ path, message: `Must be at most ${MAX_PATTERN_VALUE_LENGTH} characters to match ${schema.pattern}` });
+      }
+      else if (!new RegExp(schema.pattern, "u").test(value)) {
+        issues.push({ path, message: `Must match ${schema.pattern}` });
+      }
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issues.push({ path, message: `Must have at least ${schema.minItems} items` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      issues.push({ path, message: `Must have at most ${schema.maxItems} items` });
+    }
+    if (schema.items) {
+      const items = schema.items;
+      value.forEach((item, index) => issues.push(...validateJsonSchema(items, item, [...path, index])));
+    }
+  }
+
+  if (typeOf(value) === "object") {
+    const object = value as Record<string, unknown>;
+    const properties = schema.properties ?? {};
+
+    for (const key of schema.required ?? []) {
+      if (object[key] === undefined) {
+        issues.push({ path: [...path, key], message: "Required" });
+      }
+    }
+
+    for (const [key, propertyValue] of Object.entries(object)) {
+      const property = properties[key];
+      if (property) {
+        issues.push(...validateJsonSchema(property, propertyValue, [...path, key]));
+      }
+      else if (schema.additionalProperties === false) {
+        issues.push({ path: [...path, key], message: "Unrecognized key" });
+      }
+    }
+  }
+
+  return issues;
+}
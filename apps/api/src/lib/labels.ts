@@ -0,0 +1,21 @@
+export const MAX_LABEL_NAME_LENGTH = 50;
+export const LABEL_COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+/**
+ * The name with runs of whitespace collapsed. Names are also unique ignoring
+ * case, so "Urgent " and "urgent" are one label.
+ */
+export function normalizeLabelName(name: string): string {
+  return name.trim().replace(/\s+/g, " ");
+}
+
+/**
+ * Each task's labels, in the order the rows came in. Tasks without labels get an empty list.
+ */
+export function groupTaskLabels<T>(taskIds: number[], rows: { taskId: number; label: T }[]): Map<number, T[]> {
+  const grouped = new Map<number, T[]>(taskIds.map(id => [id, []]));
+  for (const { taskId, label } of rows) {
+    grouped.get(taskId)?.push(label);
+  }
+  return grouped;
+}
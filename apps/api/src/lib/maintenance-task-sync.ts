@@ -0,0 +1,230 @@
+import type { SQL } from "drizzle-orm";
+
+import { and, asc, eq, exists, inArray, isNotNull, isNull, notExists, or, sql } from "drizzle-orm";
+
+import type { Executor } from "../db";
+import type { PermifyDataSync } from "./permify-setup";
+
+import {
+  auditLogs,
+  deviceMaintenanceTasks,
+  devices,
+  sites,
+  tasks,
+  tenants,
+  userSiteAssignments,
+  userTenantAssociations,
+} from "../db/schema";
+import {
+  DEFAULT_OFFLINE_THRESHOLD_MINUTES,
+  maintenancePriority,
+  maintenanceSettings,
+  maintenanceTaskName,
+  maintenanceTrigger,
+} from "./maintenance-tasks";
+
+export type MaintenanceTaskChanges = {
+  opened: number[];
+  closed: number[];
+};
+
+// The tenant's longest-serving owner, who is recorded as the creator of maintenance tasks
+async function findTenantOwner(executor: Executor, tenantId: string): Promise<string | null> {
+  const [owner] = await executor.select({ userId: userTenantAssociations.userId })
+    .from(userTenantAssociations)
+    .where(and(
+      eq(userTenantAssociations.tenantId, tenantId),
+      eq(userTenantAssociations.role, "owner"),
+      eq(userTenantAssociations.status, "active"),
+    ))
+    .orderBy(asc(userTenantAssociations.createdAt))
+    .limit(1);
+
+  return owner?.userId ?? null;
+}
+
+// Maintenance tasks go to the site's longest-serving manager, or the tenant owner for unmanaged sites
+async function findSiteManager(executor: Executor, siteId: string): Promise<string | null> {
+  const [manager] = await executor.select({ userId: userSiteAssignments.userId })
+    .from(userSiteAssignments)
+    .where(and(
+      eq(userSiteAssignments.siteId, siteId),
+      eq(userSiteAssignments.role, "manager"),
+    ))
+    .orderBy(asc(userSiteAssignments.assignedAt))
+    .limit(1);
+
+  return manager?.userId ?? null;
+}
+
+/**
+ * Open a maintenance task for each device that is in error or has been offline
+ * past its tenant's threshold, and close the incident of each device that is
+ * back online. A device never has more than one open incident.
+ */
+export async function syncMaintenanceTasks(
+  executor: Executor,
+  deviceIds: string[],
+  permifySync: PermifyDataSync | null,
+  now = new Date(),
+): Promise<MaintenanceTaskChanges> {
+  const changes: MaintenanceTaskChanges = { opened: [], closed: [] };
+  if (deviceIds.length === 0) {
+    return changes;
+  }
+
+  const rows = await executor.select({
+    device: devices,
+    site: { id: sites.id, name: sites.name, tenantId: sites.tenantId },
+    tenantSettings: tenants.settings,
+    incident: deviceMaintenanceTasks,
+  })
+    .from(devices)
+    .innerJoin(sites, eq(devices.siteId, sites.id))
+    .innerJoin(tenants, eq(sites.tenantId, tenants.id))
+    .leftJoin(deviceMaintenanceTasks, and(
+      eq(deviceMaintenanceTasks.deviceId, devices.id),
+      isNull(deviceMaintenanceTasks.closedAt),
+    ))
+    .where(inArray(devices.id, deviceIds))
+    // Serializes with heartbeats, which lock the device before changing its status
+    .for("update", { of: devices });
+
+  for (const { device, site, tenantSettings, incident } of rows) {
+    const settings = maintenanceSettings(tenantSettings);
+
+    if (incident && device.status === "online") {
+      await executor.update(deviceMaintenanceTasks)
+        .set({ closedAt: now })
+        .where(eq(deviceMaintenanceTasks.id, incident.id));
+
+      if (settings.autoClose) {
+        await executor.update(tasks)
+          .set({ done: true, updatedAt: now })
+          .where(eq(tasks.id, incident.taskId));
+      }
+
+      await executor.insert(auditLogs).values({
+        tenantId: site.tenantId,
+        action: "update",
+        resourceType: "task",
+        resourceId: String(incident.taskId),
+        details: { event: "maintenance_closed", deviceId: device.id, autoClosed: settings.autoClose },
+      });
+
+      changes.closed.push(incident.taskId);
+      continue;
+    }
+
+    const trigger = maintenanceTrigger(device, settings, now);
+    if (incident || !trigger || !settings.enabled) {
+      continue;
+    }
+
+    const ownerId = await findTenantOwner(executor, site.tenantId);
+    if (!ownerId) {
+      continue;
+    }
+    const assigneeId = (await findSiteManager(executor, site.id)) ?? ownerId;
+
+    const [task] = await executor.insert(tasks).values({
+      tenantId: site.tenantId,
+      userId: ownerId,
+      assigneeId,
+      siteId: site.id,
+      deviceId: device.id,
+      name: maintenanceTaskName(device.name, trigger, settings),
+      description: [
+        `Site: ${site.name}`,
+        `Device: ${device.name} (${device.type}${device.serialNumber ? `, serial ${device.serialNumber}` : ""})`,
+        `Last seen: ${device.lastSeenAt?.toISOString() ?? "never"}`,
+      ].join("\n"),
+      priority: maintenancePriority(device.type, settings),
+    }).returning({ id: tasks.id });
+
+    await executor.insert(deviceMaintenanceTasks).values({
+      taskId: task.id,
+      deviceId: device.id,
+      siteId: site.id,
+      trigger,
+      openedAt: now,
+    });
+
+    await executor.insert(auditLogs).values({
+      tenantId: site.tenantId,
+      action: "create",
+      resourceType: "task",
+      resourceId: String(task.id),
+      details: { event: "maintenance_opened", deviceId: device.id, siteId: site.id, trigger, assigneeId },
+    });
+
+    await permifySync?.syncTaskAssigned(String(task.id), assigneeId, ownerId, {
+      tenantId: site.tenantId,
+      siteId: site.id,
+      deviceId: device.id,
+    });
+
+    changes.opened.push(task.id);
+  }
+
+  return changes;
+}
+
+// The tenant's maintenance settings in SQL, falling back to the defaults the way maintenanceSettings does
+function maintenanceSetting(key: "enabled" | "offlineThresholdMinutes") {
+  return sql`${tenants.settings}->'maintenanceTasks'->${sql.raw(`'${key}'`)}`;
+}
+
+function maintenanceEnabledSql(): SQL {
+  return sql`${maintenanceSetting("enabled")} is distinct from 'false'::jsonb`;
+}
+
+function offlineThresholdMinutesSql(): SQL {
+  const value = maintenanceSetting("offlineThresholdMinutes");
+  // Nested so the cast only runs on numbers. Capped at a century, past which intervals overflow.
+  return sql`least(case when jsonb_typeof(${value}) = 'number'
+    then case when (${value})::numeric > 0 and (${value})::numeric % 1 = 0 then (${value})::double precision else ${DEFAULT_OFFLINE_THRESHOLD_MINUTES} end
+    else ${DEFAULT_OFFLINE_THRESHOLD_MINUTES} end, 52596000)`;
+}
+
+/**
+ * Devices that need a maintenance task and have no open incident: in error, or
+ * offline past their tenant's threshold, in a tenant with maintenance tasks
+ * enabled and an owner to create them
+ */
+export async function findMaintenanceCandidates(executor: Executor, now = new Date()): Promise<string[]> {
+  const candidates = await executor.select({ id: devices.id })
+    .from(devices)
+    .innerJoin(sites, eq(devices.siteId, sites.id))
+    .innerJoin(tenants, eq(sites.tenantId, tenants.id))
+    .where(and(
+      maintenanceEnabledSql(),
+      or(
+        eq(devices.status, "error"),
+        and(
+          eq(devices.status, "offline"),
+          isNotNull(devices.lastSeenAt),
+          sql`${devices.lastSeenAt} <= ${now.toISOString()}::timestamp - ${offlineThresholdMinutesSql()} * interval '1 minute'`,
+        ),
+      ),
+      exists(
+        executor.select({ id: userTenantAssociations.id })
+          .from(userTenantAssociations)
+          .where(and(
+            eq(userTenantAssociations.tenantId, tenants.id),
+            eq(userTenantAssociations.role, "owner"),
+            eq(userTenantAssociations.status, "active"),
+          )),
+      ),
+      notExists(
+        executor.select({ id: deviceMaintenanceTasks.id })
+          .from(deviceMaintenanceTasks)
+          .where(and(
+            eq(deviceMaintenanceTasks.deviceId, devices.id),
+            isNull(deviceMaintenanceTasks.closedAt),
+          )),
+      ),
+    ));
+
+  return candidates.map(candidate => candidate.id);
+}
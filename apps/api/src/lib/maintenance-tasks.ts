@@ -0,0 +1,80 @@
+import { z } from "zod";
+
+import type { DeviceStatus, DeviceType, MaintenanceTrigger } from "../db/schema";
+
+type TaskPriority = "low" | "medium" | "high" | "urgent";
+
+// Infrastructure that other devices depend on gets looked at first
+export const DEFAULT_MAINTENANCE_PRIORITIES: Record<DeviceType, TaskPriority> = {
+  gateway: "urgent",
+  router: "urgent",
+  server: "urgent",
+  controller: "high",
+  actuator: "high",
+  camera: "medium",
+  meter: "medium",
+  workstation: "medium",
+  sensor: "low",
+  beacon: "low",
+};
+
+const taskPrioritySchema = z.enum(["low", "medium", "high", "urgent"]);
+
+export const DEFAULT_OFFLINE_THRESHOLD_MINUTES = 60;
+
+// Read from `settings.maintenanceTasks` on the tenant. Invalid values fall back to the defaults.
+const maintenanceSettingsSchema = z.object({
+  enabled: z.boolean().catch(true).default(true),
+  autoClose: z.boolean().catch(true).default(true),
+  offlineThresholdMinutes: z.number()
+    .int()
+    .positive()
+    .catch(DEFAULT_OFFLINE_THRESHOLD_MINUTES)
+    .default(DEFAULT_OFFLINE_THRESHOLD_MINUTES),
+  priorities: z.record(taskPrioritySchema).catch({}).default({}),
+});
+
+export type MaintenanceSettings = z.infer<typeof maintenanceSettingsSchema>;
+
+/**
+ * A tenant's maintenance task settings, with defaults for anything unset
+ */
+export function maintenanceSettings(tenantSettings: unknown): MaintenanceSettings {
+  const tenant = z.object({ maintenanceTasks: z.unknown() }).partial().safeParse(tenantSettings);
+  const parsed = maintenanceSettingsSchema.safeParse((tenant.success ? tenant.data.maintenanceTasks : undefined) ?? {});
+  return parsed.success ? parsed.data : maintenanceSettingsSchema.parse({});
+}
+
+export function maintenancePriority(type: DeviceType, settings: MaintenanceSettings): TaskPriority {
+  return settings.priorities[type] ?? DEFAULT_MAINTENANCE_PRIORITIES[type];
+}
+
+type MaintenanceDeviceState = {
+  status: DeviceStatus;
+  lastSeenAt: Date | null;
+};
+
+/**
+ * Why a device needs a maintenance task, or null when it does not. A device that
+ * has never reported is not considered offline; it may not be installed yet.
+ */
+export function maintenanceTrigger(
+  device: MaintenanceDeviceState,
+  settings: MaintenanceSettings,
+  now = new Date(),
+): MaintenanceTrigger | null {
+  if (device.status === "error") {
+    return "error";
+  }
+  if (device.status === "offline" && device.lastSeenAt
+    && now.getTime() - device.lastSeenAt.getTime() >= settings.offlineThresholdMinutes * 60 * 1000) {
+    return "offline";
+  }
+  return null;
+}
+
+export function maintenanceTaskName(deviceName: string, trigger: MaintenanceTrigger, settings: MaintenanceSettings): string {
+  return trigger === "error"
+    ? `Device "${deviceName}" reported an error`
+    : `Device "${deviceName}" offline for over ${settings.offlineThresholdMinutes} minutes`;
+}
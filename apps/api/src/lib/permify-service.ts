@@ -1,7 +1,7 @@
 import type { Logger } from "pino";
 
 import { grpc } from "@permify/permify-node";
-import * as NodeCache from "node-cache";
+import NodeCache from "node-cache";
 
 // Permify client types
 type PermifyTuple = {
@@ -46,6 +46,16 @@ type WriteDataRequest = {
   tuples: PermifyTuple[];
 };
 
+type DeleteDataRequest = {
+  tenantId: string;
+  tupleFilter: {
+    entity: { type: string; ids: string[] };
+    relation: string;
+    subject: { type: string; ids: string[]; relation: string };
+  };
+  attributeFilter: Record<string, never>;
+};
+
 type SchemaWriteRequest = {
   tenantId: string;
   schema: string;
@@ -151,6 +161,9 @@ export type BulkRelationshipData = {
   deleteExisting?: boolean;
 };
 
+// The largest page Permify returns from an entity lookup
+const LOOKUP_PAGE_SIZE = 100;
+
 class PermifyError extends Error {
   constructor(
     message: string,
@@ -191,6 +204,7 @@ export class PermifyService {
     TENANT: "tenant",
     SITE: "site",
     DEVICE: "device",
+    AGENT: "agent",
   } as const;
 
   public readonly Permissions = {
@@ -241,8 +255,11 @@ export class PermifyService {
       // Fallback for development/testing
       this.client = {
         schema: { write: async () => ({}) },
-        data: { write: async () => ({}) },
-        permission: { check: async () => ({ can: "RESULT_DENIED" }) },
+        data: { write: async () => ({}), delete: async () => ({}) },
+        permission: {
+          check: async () => ({ can: "RESULT_DENIED" }),
+          lookupEntity: async () => ({ entityIds: [], continuousToken: "" }),
+        },
       };
     }
   }
@@ -321,10 +338,11 @@ entity site {
 
 entity device {
   relation site @site
+  relation agent @user
   
   permission configure = site.device_admin
-  permission monitor = site.device_access
-  permission control = site.device_admin
+  permission monitor = site.device_access or agent
+  permission control = site.device_admin or agent
   permission view_logs = site.device_access
   permission update_firmware = site.device_admin
   permission reboot = site.device_admin
@@ -450,6 +468,41 @@ entity task {
     }
   }
 
+  /**
+   * Delete a single relationship
+   */
+  async deleteRelationship(relationship: RelationshipData): Promise<void> {
+    this.ensureInitialized();
+
+    try {
+      const request: DeleteDataRequest = {
+        tenantId: this.config.tenantId,
+        tupleFilter: {
+          entity: { type: relationship.entity.type, ids: [relationship.entity.id] },
+          relation: relationship.relation,
+          subject: { type: relationship.subject.type, ids: [relationship.subject.id], relation: "" },
+        },
+        attributeFilter: {},
+      };
+
+      await this.client.data.delete(request);
+
+      // Permissions inherited through this relation are cached on other entities too
+      this.cache.flushAll();
+
+      this.logger.debug({ relationship }, "Relationship deleted successfully");
+    }
+    catch (error) {
+      const permifyError = new PermifyError(
+        "Failed to delete relationship",
+        "DELETE_RELATIONSHIP_ERROR",
+        { relationship, error },
+      );
+      this.logger.error(permifyError, "Failed to delete relationship");
+      throw permifyError;
+    }
+  }
+
   /**
    * Check if a subject has permission on an entity
    */
@@ -511,6 +564,52 @@ entity task {
     }
   }
 
+  /**
+   * Find the entities of a type that a subject has a permission on, optionally
+   * only among the given ids. Pages through Permify until every match is read.
+   */
+  async lookupEntities(
+    entityType: string,
+    permission: string,
+    subject: PermifySubject,
+    scopeIds?: string[],
+  ): Promise<string[]> {
+    this.ensureInitialized();
+
+    const entityIds: string[] = [];
+    let continuousToken = "";
+
+    try {
+      do {
+        const response = await this.client.permission.lookupEntity({
+          tenantId: this.config.tenantId,
+          metadata: {
+            depth: 20,
+          },
+          entityType,
+          permission,
+          subject,
+          scope: scopeIds ? { [entityType]: { data: scopeIds } } : {},
+          pageSize: LOOKUP_PAGE_SIZE,
+          continuousToken,
+        });
+        entityIds.push(...response.entityIds);
+        continuousToken = response.continuousToken;
+      } while (continuousToken);
+
+      return entityIds;
+    }
+    catch (error) {
+      const permifyError = new PermifyError(
+        "Failed to look up entities",
+        "LOOKUP_ENTITY_ERROR",
+        { entityType, permission, subject, error },
+      );
+      this.logger.error(permifyError, "Entity lookup failed");
+      throw permifyError;
+    }
+  }
+
   /**
    * Check multiple permissions for a subject
    */
@@ -669,14 +768,75 @@ entity task {
   }
 
   /**
-   * Set up a device within a site
+   * Give a user a role on a site
    */
-  async createDevice(deviceId: string, siteId: string): Promise<void> {
+  async assignUserToSite(userId: string, siteId: string, role: "manager" | "operator"): Promise<void> {
     await this.writeRelationship({
+      entity: { type: this.EntityTypes.SITE, id: siteId },
+      relation: role === "manager" ? this.Relations.MANAGER : this.Relations.OPERATOR,
+      subject: { type: this.EntityTypes.USER, id: userId },
+    });
+  }
+
+  /**
+   * Remove a user's role on a site
+   */
+  async removeUserFromSite(userId: string, siteId: string, role: "manager" | "operator"): Promise<void> {
+    await this.deleteRelationship({
+      entity: { type: this.EntityTypes.SITE, id: siteId },
+      relation: role === "manager" ? this.Relations.MANAGER : this.Relations.OPERATOR,
+      subject: { type: this.EntityTypes.USER, id: userId },
+    });
+  }
+
+  /**
+   * Set up a device within a site, optionally with the service account it reports as
+   */
+  async createDevice(deviceId: string, siteId: string, agentId?: string): Promise<void> {
+    const relationships: RelationshipData[] = [
+      {
+        entity: { type: this.EntityTypes.DEVICE, id: deviceId },
+        relation: this.Relations.SITE,
+        subject: { type: this.EntityTypes.SITE, id: siteId },
+      },
+    ];
+
+    if (agentId) {
+      relationships.push({
+        entity: { type: this.EntityTypes.DEVICE, id: deviceId },
+        relation: this.Relations.AGENT,
+        subject: { type: this.EntityTypes.USER, id: agentId },
+      });
+    }
+
+    await this.writeBulkRelationships({ relationships });
+  }
+
+  /**
+   * Move a device to another site. The new relation is written first, so a
+   * failure part way leaves the device reachable rather than orphaned.
+   */
+  async moveDevice(deviceId: string, fromSiteId: string, toSiteId: string): Promise<void> {
+    const toRelationship: RelationshipData = {
       entity: { type: this.EntityTypes.DEVICE, id: deviceId },
       relation: this.Relations.SITE,
-      subject: { type: this.EntityTypes.SITE, id: siteId },
-    });
+      subject: { type: this.EntityTypes.SITE, id: toSiteId },
+    };
+
+    await this.writeRelationship(toRelationship);
+
+    try {
+      await this.deleteRelationship({
+        entity: { type: this.EntityTypes.DEVICE, id: deviceId },
+        relation: this.Relations.SITE,
+        subject: { type: this.EntityTypes.SITE, id: fromSiteId },
+      });
+    }
+    catch (error) {
+      // The database move rolls back, so undo the new relation too
+      await this.deleteRelationship(toRelationship).catch(() => {});
+      throw error;
+    }
   }
 
   /**
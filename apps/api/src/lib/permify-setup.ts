@@ -278,15 +278,133 @@ export class PermifyDataSync {
     }
   }
 
+  /**
+   * Sync a batch of imported sites in a single write
+   */
+  async syncSitesImported(siteIds: string[], tenantId: string): Promise<void> {
+    if (siteIds.length === 0) {
+      return;
+    }
+
+    try {
+      const relationships: RelationshipData[] = siteIds.map(siteId => ({
+        entity: { type: this.permifyService.EntityTypes.SITE, id: siteId },
+        relation: this.permifyService.Relations.TENANT,
+        subject: { type: this.permifyService.EntityTypes.TENANT, id: tenantId },
+      }));
+
+      await this.permifyService.writeBulkRelationships({ relationships });
+      this.logger.info({ tenantId, count: siteIds.length }, 'Synced site import to Permify');
+    } catch (error) {
+      this.logger.error({ err: error, tenantId, count: siteIds.length }, 'Failed to sync site import to Permify');
+      throw error;
+    }
+  }
+
+  /**
+   * Sync user assignment to a site
+   */
+  async syncUserAssignedToSite(
+    userId: string,
+    siteId: string,
+    role: 'manager' | 'operator'
+  ): Promise<void> {
+    try {
+      await this.permifyService.assignUserToSite(userId, siteId, role);
+      this.logger.info({ userId, siteId, role }, 'Synced site assignment to Permify');
+    } catch (error) {
+      this.logger.error({ err: error, userId, siteId, role }, 'Failed to sync site assignment to Permify');
+      throw error;
+    }
+  }
+
+  /**
+   * Sync user removal from a site
+   */
+  async syncUserUnassignedFromSite(
+    userId: string,
+    siteId: string,
+    role: 'manager' | 'operator'
+  ): Promise<void> {
+    try {
+      await this.permifyService.removeUserFromSite(userId, siteId, role);
+      this.logger.info({ userId, siteId, role }, 'Synced site unassignment to Permify');
+    } catch (error) {
+      this.logger.error({ err: error, userId, siteId, role }, 'Failed to sync site unassignment to Permify');
+      throw error;
+    }
+  }
+
   /**
    * Sync device creation
    */
   async syncDeviceCreated(deviceId: string, siteId: string): Promise<void> {
     try {
       await this.permifyService.createDevice(deviceId, siteId);
-      this.logger.info('Synced device creation to Permify', { deviceId, siteId });
+      this.logger.info({ deviceId, siteId }, 'Synced device creation to Permify');
+    } catch (error) {
+      this.logger.error({ err: error, deviceId, siteId }, 'Failed to sync device creation to Permify');
+      throw error;
+    }
+  }
+
+  /**
+   * Sync an enrolled device and its service account
+   */
+  async syncDeviceEnrolled(deviceId: string, siteId: string, agentId: string): Promise<void> {
+    try {
+      await this.permifyService.createDevice(deviceId, siteId, agentId);
+      this.logger.info({ deviceId, siteId, agentId }, 'Synced device enrollment to Permify');
+    } catch (error) {
+      this.logger.error({ err: error, deviceId, siteId }, 'Failed to sync device enrollment to Permify');
+      throw error;
+    }
+  }
+
+  /**
+   * Sync a device moving between sites
+   */
+  async syncDeviceMoved(deviceId: string, fromSiteId: string, toSiteId: string): Promise<void> {
+    try {
+      await this.permifyService.moveDevice(deviceId, fromSiteId, toSiteId);
+      this.logger.info({ deviceId, fromSiteId, toSiteId }, 'Synced device move to Permify');
     } catch (error) {
-      this.logger.error(error, 'Failed to sync device creation to Permify', { deviceId, siteId });
+      this.logger.error({ err: error, deviceId, fromSiteId, toSiteId }, 'Failed to sync device move to Permify');
+      throw error;
+    }
+  }
+
+  /**
+   * Sync task creation
+   */
+  async syncTaskCreated(
+    taskId: string,
+    creatorId: string,
+    context: {
+      tenantId: string;
+      siteId?: string;
+      deviceId?: string;
+    }
+  ): Promise<void> {
+    try {
+      await this.permifyService.writeBulkRelationships({
+        relationships: [
+          {
+            entity: { type: this.permifyService.EntityTypes.TASK, id: taskId },
+            relation: this.permifyService.Relations.CREATOR,
+            subject: { type: this.permifyService.EntityTypes.USER, id: creatorId },
+          },
+          {
+            entity: { type: this.permifyService.EntityTypes.TASK, id: taskId },
+            relation: this.permifyService.Relations.TENANT,
+            subject: { type: this.permifyService.EntityTypes.TENANT, id: context.tenantId },
+          },
+          ...this.taskLinkRelationships(taskId, context),
+        ],
+      });
+      this.logger.info({ taskId, creatorId, ...context }, 'Synced task creation to Permify');
+    } catch (error) {
+      this.logger.error({ err: error, taskId, creatorId }, 'Failed to sync task creation to Permify');
       throw error;
     }
   }
@@ -350,4 +468,75 @@ export class PermifyDataSync {
       throw error;
     }
   }
+
+  /**
+   * Sync task unassignment
+   */
+  async syncTaskUnassigned(taskId: string, assigneeId: string): Promise<void> {
+    try {
+      await this.permifyService.deleteRelationship({
+        entity: { type: this.permifyService.EntityTypes.TASK, id: taskId },
+        relation: this.permifyService.Relations.ASSIGNEE,
+        subject: { type: this.permifyService.EntityTypes.USER, id: assigneeId },
+      });
+      this.logger.info({ taskId, assigneeId }, 'Synced task unassignment to Permify');
+    } catch (error) {
+      this.logger.error({ err: error, taskId, assigneeId }, 'Failed to sync task unassignment to Permify');
+      throw error;
+    }
+  }
+
+  /**
+   * Sync a task moving between sites or devices. New relations are written
+   * before the old ones are removed, so the task never loses its site.
+   */
+  async syncTaskLinksChanged(
+    taskId: string,
+    previous: { siteId?: string; deviceId?: string },
+    next: { siteId?: string; deviceId?: string }
+  ): Promise<void> {
+    try {
+      const added = this.taskLinkRelationships(taskId, {
+        siteId: next.siteId !== previous.siteId ? next.siteId : undefined,
+        deviceId: next.deviceId !== previous.deviceId ? next.deviceId : undefined,
+      });
+      const removed = this.taskLinkRelationships(taskId, {
+        siteId: next.siteId !== previous.siteId ? previous.siteId : undefined,
+        deviceId: next.deviceId !== previous.deviceId ? previous.deviceId : undefined,
+      });
+
+      if (added.length > 0) {
+        await this.permifyService.writeBulkRelationships({ relationships: added });
+      }
+      for (const relationship of removed) {
+        await this.permifyService.deleteRelationship(relationship);
+      }
+      this.logger.info({ taskId, previous, next }, 'Synced task links to Permify');
+    } catch (error) {
+      this.logger.error({ err: error, taskId, previous, next }, 'Failed to sync task links to Permify');
+      throw error;
+    }
+  }
+
+  private taskLinkRelationships(taskId: string, links: { siteId?: string; deviceId?: string }): RelationshipData[] {
+    const relationships: RelationshipData[] = [];
+
+    if (links.siteId) {
+      relationships.push({
+        entity: { type: this.permifyService.EntityTypes.TASK, id: taskId },
+        relation: this.permifyService.Relations.SITE,
+        subject: { type: this.permifyService.EntityTypes.SITE, id: links.siteId },
+      });
+    }
+
+    if (links.deviceId) {
+      relationships.push({
+        entity: { type: this.permifyService.EntityTypes.TASK, id: taskId },
+        relation: this.permifyService.Relations.DEVICE,
+        subject: { type: this.permifyService.EntityTypes.DEVICE, id: links.deviceId },
+      });
+    }
+
+    return relationships;
+  }
 } 
\ No newline at end of file
@@ -0,0 +1,310 @@
+export const RECURRENCE_FREQUENCIES = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"] as const;
+export type RecurrenceFrequency = typeof RECURRENCE_FREQUENCIES[number];
+
+// Index 0 is Monday, the RFC 5545 default week start
+const WEEKDAYS = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"] as const;
+
+export type RecurrenceRule = {
+  freq: RecurrenceFrequency;
+  interval: number;
+  count?: number;
+  until?: Date;
+  // An ordinal picks the nth weekday of the month, counting from the end when negative
+  byDay?: { weekday: number; ordinal?: number }[];
+  byMonthDay?: number[];
+  byMonth?: number[];
+};
+
+// Expanding a rule stops after this many periods, about 27 years of a daily rule
+const MAX_PERIODS = 10_000;
+
+function parseInteger(value: string, min: number, max: number): number | null {
+  if (!/^[+-]?\d+$/.test(value)) {
+    return null;
+  }
+  const parsed = Number.parseInt(value, 10);
+  return parsed >= min && parsed <= max ? parsed : null;
+}
+
+function parseList<T>(value: string, parseItem: (item: string) => T | null): T[] | null {
+  const items = value.split(",").map(parseItem);
+  return items.includes(null) ? null : items as T[];
+}
+
+// UNTIL is a date, or a UTC date-time; floating local times are not supported
+function parseUntil(value: string): Date | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z)?$/.exec(value);
+  if (!match) {
+    return null;
+  }
+  const [, year, month, day, hour = "23", minute = "59", second = "59"] = match;
+  const until = new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second));
+  return Number.isNaN(until.getTime()) ? null : until;
+}
+
+/**
+ * Parse the supported RRULE subset: FREQ (DAILY, WEEKLY, MONTHLY, YEARLY),
+ * INTERVAL, COUNT or UNTIL, BYDAY, BYMONTHDAY and BYMONTH. Ordinal weekdays
+ * such as 2TU or -1FR are allowed for monthly rules, and yearly rules with
+ * BYMONTH. Returns null for anything else.
+ */
+export function parseRecurrenceRule(value: string): RecurrenceRule | null {
+  const parts = new Map<string, string>();
+  for (const part of value.trim().replace(/^RRULE:/i, "").split(";")) {
+    const [key, partValue, ...rest] = part.split("=");
+    if (!key || !partValue || rest.length > 0 || parts.has(key.toUpperCase())) {
+      return null;
+    }
+    parts.set(key.toUpperCase(), partValue.toUpperCase());
+  }
+
+  const freq = parts.get("FREQ") as RecurrenceFrequency | undefined;
+  if (!freq || !RECURRENCE_FREQUENCIES.includes(freq)) {
+    return null;
+  }
+
+  const rule: RecurrenceRule = { freq, interval: 1 };
+  for (const [key, partValue] of parts) {
+    switch (key) {
+      case "FREQ":
+        break;
+      case "INTERVAL": {
+        const interval = parseInteger(partValue, 1, 1000);
+        if (interval === null) {
+          return null;
+        }
+        rule.interval = interval;
+        break;
+      }
+      case "COUNT": {
+        const count = parseInteger(partValue, 1, 10_000);
+        if (count === null) {
+          return null;
+        }
+        rule.count = count;
+        break;
+      }
+      case "UNTIL": {
+        const until = parseUntil(partValue);
+        if (!until) {
+          return null;
+        }
+        rule.until = until;
+        break;
+      }
+      case "BYDAY": {
+        const byDay = parseList(partValue, (item) => {
+          const match = /^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/.exec(item);
+          if (!match) {
+            return null;
+          }
+          const weekday = WEEKDAYS.indexOf(match[2] as typeof WEEKDAYS[number]);
+          if (match[1] === undefined) {
+            return { weekday };
+          }
+          const ordinal = parseInteger(match[1], -5, 5);
+          return ordinal ? { weekday, ordinal } : null;
+        });
+        if (!byDay) {
+          return null;
+        }
+        rule.byDay = byDay;
+        break;
+      }
+      case "BYMONTHDAY": {
+        const byMonthDay = parseList(partValue, item => parseInteger(item, -31, 31) || null);
+        if (!byMonthDay) {
+          return null;
+        }
+        rule.byMonthDay = byMonthDay;
+        break;
+      }
+      case "BYMONTH": {
+        const byMonth = parseList(partValue, item => parseInteger(item, 1, 12));
+        if (!byMonth) {
+          return null;
+        }
+        rule.byMonth = byMonth;
+        break;
+      }
+      default:
+        return null;
+    }
+  }
+
+  // COUNT and UNTIL must not both appear, and BYMONTHDAY has no meaning for weekly rules
+  if ((rule.count && rule.until) || (rule.freq === "WEEKLY" && rule.byMonthDay)) {
+    return null;
+  }
+  const hasOrdinals = rule.byDay?.some(day => day.ordinal !== undefined);
+  if (hasOrdinals && !(rule.freq === "MONTHLY" || (rule.freq === "YEARLY" && rule.byMonth))) {
+    return null;
+  }
+
+  return rule;
+}
+
+type LocalDate = { year: number; month: number; day: number };
+type LocalTime = { hour: number; minute: number; second: number };
+
+function dayNumber(date: LocalDate): number {
+  return Date.UTC(date.year, date.month - 1, date.day) / 86_400_000;
+}
+
+function fromDayNumber(days: number): LocalDate {
+  const date = new Date(days * 86_400_000);
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function weekdayOf(date: LocalDate): number {
+  return (new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay() + 6) % 7;
+}
+
+function zonedParts(instant: Date, timeZone: string): LocalDate & LocalTime {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(instant);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+  return {
+    year: part("year"),
+    month: part("month"),
+    day: part("day"),
+    hour: part("hour"),
+    minute: part("minute"),
+    second: part("second"),
+  };
+}
+
+function offsetAt(timestamp: number, timeZone: string): number {
+  const wholeSeconds = timestamp - (((timestamp % 1000) + 1000) % 1000);
+  const local = zonedParts(new Date(wholeSeconds), timeZone);
+  return Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second) - wholeSeconds;
+}
+
+// The instant a wall-clock time happens in the time zone
+function zonedTime(date: LocalDate, time: LocalTime, timeZone: string): Date {
+  const wall = Date.UTC(date.year, date.month - 1, date.day, time.hour, time.minute, time.second);
+  // The offset at the first guess can be on the other side of a DST change
+  const guess = wall - offsetAt(wall, timeZone);
+  return new Date(wall - offsetAt(guess, timeZone));
+}
+
+function monthDates(rule: RecurrenceRule, year: number, month: number, defaultDay: number): LocalDate[] {
+  const length = daysInMonth(year, month);
+  let days: number[];
+
+  if (rule.byMonthDay) {
+    days = rule.byMonthDay
+      .map(day => (day > 0 ? day : length + day + 1))
+      .filter(day => day >= 1 && day <= length);
+    if (rule.byDay) {
+      const weekdays = rule.byDay.map(day => day.weekday);
+      days = days.filter(day => weekdays.includes(weekdayOf({ year, month, day })));
+    }
+  }
+  else if (rule.byDay) {
+    days = rule.byDay.flatMap(({ weekday, ordinal }) => {
+      const matching: number[] = [];
+      for (let day = 1; day <= length; day++) {
+        if (weekdayOf({ year, month, day }) === weekday) {
+          matching.push(day);
+        }
+      }
+      if (ordinal === undefined) {
+        return matching;
+      }
+      const picked = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+      return picked === undefined ? [] : [picked];
+    });
+  }
+  else {
+    // Months too short for the start day are skipped, as RFC 5545 does
+    days = defaultDay <= length ? [defaultDay] : [];
+  }
+
+  return [...new Set(days)].sort((a, b) => a - b).map(day => ({ year, month, day }));
+}
+
+// Candidate dates in the period `index` intervals after the start, in order
+function periodDates(rule: RecurrenceRule, start: LocalDate, index: number): LocalDate[] {
+  const step = index * rule.interval;
+  let dates: LocalDate[];
+
+  switch (rule.freq) {
+    case "DAILY": {
+      const date = fromDayNumber(dayNumber(start) + step);
+      const length = daysInMonth(date.year, date.month);
+      const matchesWeekday = !rule.byDay || rule.byDay.some(day => day.weekday === weekdayOf(date));
+      const matchesMonthDay = !rule.byMonthDay || rule.byMonthDay.some(day => (day > 0 ? day : length + day + 1) === date.day);
+      dates = matchesWeekday && matchesMonthDay ? [date] : [];
+      break;
+    }
+    case "WEEKLY": {
+      const weekStart = dayNumber(start) - weekdayOf(start) + 7 * step;
+      const weekdays = rule.byDay?.map(day => day.weekday) ?? [weekdayOf(start)];
+      dates = [...new Set(weekdays)].sort((a, b) => a - b).map(weekday => fromDayNumber(weekStart + weekday));
+      break;
+    }
+    case "MONTHLY": {
+      const months = start.month - 1 + step;
+      dates = monthDates(rule, start.year + Math.floor(months / 12), (months % 12) + 1, start.day);
+      break;
+    }
+    case "YEARLY": {
+      const year = start.year + step;
+      const months = rule.byMonth ? [...new Set(rule.byMonth)].sort((a, b) => a - b) : [start.month];
+      dates = months.flatMap(month => monthDates(rule, year, month, start.day));
+      break;
+    }
+  }
+
+  return rule.byMonth && rule.freq !== "YEARLY"
+    ? dates.filter(date => rule.byMonth!.includes(date.month))
+    : dates;
+}
+
+/**
+ * The first occurrence of the rule after `after`, or null once the rule has
+ * run out. The start is the first occurrence, and COUNT includes it. Every
+ * occurrence keeps the start's wall-clock time in the time zone, across DST changes.
+ */
+export function nextOccurrence(rule: RecurrenceRule, start: Date, after: Date, timeZone = "UTC"): Date | null {
+  const local = zonedParts(start, timeZone);
+  const startDate = { year: local.year, month: local.month, day: local.day };
+  const startDay = dayNumber(startDate);
+
+  if (start > after) {
+    return start;
+  }
+
+  let emitted = 1;
+  for (let index = 0; index < MAX_PERIODS; index++) {
+    for (const date of periodDates(rule, startDate, index)) {
+      if (dayNumber(date) <= startDay) {
+        continue;
+      }
+
+      const occurrence = zonedTime(date, local, timeZone);
+      emitted++;
+      if ((rule.until && occurrence > rule.until) || (rule.count && emitted > rule.count)) {
+        return null;
+      }
+      if (occurrence > after) {
+        return occurrence;
+      }
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,96 @@
+import { z } from "zod";
+
+import { insertSiteSchema } from "../db/schema/sites";
+
+export const MAX_SITE_IMPORT_ROWS = 1000;
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    // eslint-disable-next-line no-new
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  }
+  catch {
+    return false;
+  }
+}
+
+// The tenant comes from the path, and timezones must be IANA names
+export const importSiteRowSchema = insertSiteSchema.omit({ tenantId: true }).extend({
+  timezone: z.string()
+    .max(100)
+    .refine(isValidTimeZone, "Expected an IANA time zone name")
+    .optional(),
+});
+export type ImportSiteRow = z.infer<typeof importSiteRowSchema>;
+
+export type SiteImportRowError = {
+  row: number;
+  issues: {
+    path: (string | number)[];
+    message: string;
+  }[];
+};
+
+/**
+ * Turn a CSV record into the shape importSiteRowSchema expects. Empty cells
+ * are treated as missing, numbers, booleans and JSON metadata are decoded,
+ * and anything that does not decode is passed through for validation to reject.
+ */
+export function csvRecordToSiteRow(record: Record<string, string>): Record<string, unknown> {
+  const row: Record<string, unknown> = {};
+
+  for (const [key, rawValue] of Object.entries(record)) {
+    const value = rawValue.trim();
+    if (value === "") {
+      continue;
+    }
+
+    switch (key) {
+      case "latitude":
+      case "longitude":
+        row[key] = Number(value);
+        break;
+      case "isActive":
+        row[key] = value === "true" ? true : value === "false" ? false : value;
+        break;
+      case "metadata":
+        try {
+          row[key] = JSON.parse(value);
+        }
+        catch {
+          row[key] = value;
+        }
+        break;
+      default:
+        row[key] = value;
+    }
+  }
+
+  return row;
+}
+
+/**
+ * Validate every row, collecting errors with 1-based row numbers
+ */
+export function validateSiteImportRows(rows: unknown[]) {
+  const valid: ImportSiteRow[] = [];
+  const errors: SiteImportRowError[] = [];
+
+  rows.forEach((row, index) => {
+    const result = importSiteRowSchema.safeParse(row);
+    if (result.success) {
+      valid.push(result.data);
+      return;
+    }
+    errors.push({
+      row: index + 1,
+      issues: result.error.issues.map(issue => ({
+        path: issue.path,
+        message: issue.message,
+      })),
+    });
+  });
+
+  return { valid, errors };
+}
@@ -0,0 +1,36 @@
+import type { DeviceStatus, SiteStatus } from "../db/schema";
+
+/**
+ * Legal site status transitions. Decommissioning is terminal.
+ */
+export const SITE_TRANSITIONS: Record<SiteStatus, readonly SiteStatus[]> = {
+  active: ["inactive", "maintenance", "decommissioned"],
+  inactive: ["active", "maintenance", "decommissioned"],
+  maintenance: ["active", "inactive", "decommissioned"],
+  decommissioned: [],
+};
+
+export function canTransitionSite(from: SiteStatus, to: SiteStatus): boolean {
+  return SITE_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Device status a site transition cascades to, or null when devices are left alone
+ */
+export function cascadedDeviceStatus(to: SiteStatus): DeviceStatus | null {
+  switch (to) {
+    case "maintenance":
+      return "maintenance";
+    case "decommissioned":
+      return "decommissioned";
+    default:
+      return null;
+  }
+}
+
+/**
+ * Whether a site transition closes the open tasks linked to the site
+ */
+export function closesSiteTasks(to: SiteStatus): boolean {
+  return to === "decommissioned";
+}
@@ -0,0 +1,62 @@
+import type { PinoLogger } from "hono-pino";
+
+import { randomBytes } from "node:crypto";
+
+import type { AttachmentStorage } from "./attachment-storage";
+
+import env from "../env";
+import { createLocalAttachmentStorage } from "./attachment-storage";
+import { signAttachmentDownload, taskAttachmentPrefix, verifyAttachmentDownload } from "./attachments";
+import { BASE_PATH } from "./constants";
+
+// Object storage drivers go here, behind the same interface
+function createAttachmentStorage(): AttachmentStorage {
+  switch (env.ATTACHMENT_STORAGE_DRIVER) {
+    case "local":
+      return createLocalAttachmentStorage(env.ATTACHMENT_STORAGE_PATH);
+  }
+}
+
+export const attachmentStorage = createAttachmentStorage();
+
+// Only outside production: without a configured secret, download URLs signed before a restart stop working
+const downloadUrlSecret = env.ATTACHMENT_URL_SECRET ?? randomBytes(32).toString("base64url");
+
+export function attachmentDownloadUrl(attachmentId: string, now = new Date()) {
+  const expires = Math.floor(now.getTime() / 1000) + env.ATTACHMENT_URL_TTL_SECONDS;
+  const signature = signAttachmentDownload(attachmentId, expires, downloadUrlSecret);
+  return {
+    url: `${BASE_PATH}/attachments/${attachmentId}/content?expires=${expires}&signature=${signature}`,
+    expiresAt: new Date(expires * 1000),
+  };
+}
+
+export function isValidAttachmentDownload(attachmentId: string, expires: number, signature: string) {
+  return verifyAttachmentDownload(attachmentId, expires, signature, downloadUrlSecret);
+}
+
+/**
+ * Remove the stored files of deleted tasks. Their rows are already gone with
+ * the tasks, so a failure only leaves files behind and is logged, not thrown.
+ */
+export async function deleteTaskAttachmentFiles(tenantId: string, taskIds: number[], logger: PinoLogger) {
+  const results = await Promise.allSettled(
+    taskIds.map(taskId => attachmentStorage.removePrefix(taskAttachmentPrefix(tenantId, taskId))),
+  );
+  const failed = results.filter(result => result.status === "rejected");
+  if (failed.length > 0) {
+    logger.error({ tenantId, taskIds, err: failed[0].reason }, "Failed to delete attachment files of deleted tasks");
+  }
+}
+
+/**
+ * Remove every stored file of a deleted tenant, logging rather than throwing on failure
+ */
+export async function deleteTenantAttachmentFiles(tenantId: string, logger: PinoLogger) {
+  try {
+    await attachmentStorage.removePrefix(`${tenantId}/`);
+  }
+  catch (error) {
+    logger.error({ tenantId, err: error }, "Failed to delete attachment files of deleted tenant");
+  }
+}
@@ -0,0 +1,44 @@
+// Authors can fix a comment shortly after posting it; later changes need a new comment
+export const TASK_COMMENT_EDIT_WINDOW_MINUTES = 15;
+
+export function isWithinEditWindow(createdAt: Date, now = new Date()): boolean {
+  return now.getTime() - createdAt.getTime() <= TASK_COMMENT_EDIT_WINDOW_MINUTES * 60 * 1000;
+}
+
+// An @ that does not follow a word character, so addresses in plain text are not mentions
+const MENTION_PATTERN = /(?<![\w.+-])@([\w.+-]+(?:@[\w-]+(?:\.[\w-]+)+)?)/g;
+
+/**
+ * The handles mentioned in a comment, lowercased and without duplicates. A
+ * handle is a member's full email address, or the part before the @ when no
+ * other member shares it.
+ */
+export function parseMentions(body: string): string[] {
+  const handles = [...body.matchAll(MENTION_PATTERN)]
+    // Sentence punctuation after a handle is not part of it
+    .map(match => match[1].replace(/\.+$/, "").toLowerCase())
+    .filter(handle => handle.length > 0);
+  return [...new Set(handles)];
+}
+
+export type MentionableMember = {
+  userId: string;
+  email: string;
+};
+
+/**
+ * The members the handles refer to. Unknown and ambiguous handles are ignored.
+ */
+export function resolveMentions(handles: string[], members: MentionableMember[]): string[] {
+  const userIds = new Set<string>();
+  for (const handle of handles) {
+    const matches = members.filter(({ email }) => {
+      const address = email.toLowerCase();
+      return handle.includes("@") ? address === handle : address.split("@")[0] === handle;
+    });
+    if (matches.length === 1) {
+      userIds.add(matches[0].userId);
+    }
+  }
+  return [...userIds];
+}
@@ -0,0 +1,48 @@
+export type TaskDependencyEdge = {
+  taskId: number;
+  blockedById: number;
+};
+
+/**
+ * The chain of tasks from `from` to `to`, each blocked by the next, or null
+ * when `to` is not among `from`'s blockers. Shortest chains are found first.
+ */
+export function findBlockerPath(edges: TaskDependencyEdge[], from: number, to: number): number[] | null {
+  const blockers = new Map<number, number[]>();
+  for (const edge of edges) {
+    blockers.set(edge.taskId, [...(blockers.get(edge.taskId) ?? []), edge.blockedById]);
+  }
+
+  const previous = new Map<number, number | null>([[from, null]]);
+  const queue = [from];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (current === to) {
+      const path: number[] = [];
+      for (let step: number | null = current; step !== null; step = previous.get(step)!) {
+        path.unshift(step);
+      }
+      return path;
+    }
+    for (const blocker of blockers.get(current) ?? []) {
+      if (!previous.has(blocker)) {
+        previous.set(blocker, current);
+        queue.push(blocker);
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * The cycle that the new edge would close, starting and ending with its task,
+ * or null when the edge is safe to add
+ */
+export function findDependencyCycle(edges: TaskDependencyEdge[], edge: TaskDependencyEdge): number[] | null {
+  const path = findBlockerPath(edges, edge.blockedById, edge.taskId);
+  return path && [edge.taskId, ...path];
+}
+
+export function describeDependencyCycle(cycle: number[]): string {
+  return `This would make task #${cycle[0]} wait on itself: ${cycle.map(id => `#${id}`).join(" → ")}`;
+}
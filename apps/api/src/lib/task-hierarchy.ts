@@ -0,0 +1,57 @@
+import { z } from "zod";
+
+import type { TaskLinkIssue } from "./task-links";
+
+// A top-level task, its subtasks and their subtasks
+export const MAX_TASK_DEPTH = 3;
+
+// Read from `settings.tasks` on the tenant. Completing a task with open subtasks
+// is refused by default; "cascade" completes the subtasks along with it.
+const taskHierarchySettingsSchema = z.object({
+  openSubtasks: z.enum(["block", "cascade"]).catch("block").default("block"),
+});
+
+export type TaskHierarchySettings = z.infer<typeof taskHierarchySettingsSchema>;
+
+/**
+ * A tenant's subtask settings, with defaults for anything unset
+ */
+export function taskHierarchySettings(tenantSettings: unknown): TaskHierarchySettings {
+  const tenant = z.object({ tasks: z.unknown() }).partial().safeParse(tenantSettings);
+  const parsed = taskHierarchySettingsSchema.safeParse((tenant.success ? tenant.data.tasks : undefined) ?? {});
+  return parsed.success ? parsed.data : taskHierarchySettingsSchema.parse({});
+}
+
+export type TaskProgress = {
+  completed: number;
+  total: number;
+};
+
+export function taskProgress(items: { done: boolean }[]): TaskProgress {
+  return {
+    completed: items.filter(item => item.done).length,
+    total: items.length,
+  };
+}
+
+export type TaskParentCheck = {
+  // Null for a task that does not exist yet
+  taskId: number | null;
+  // The new parent and its ancestors, nearest first
+  ancestry: number[];
+  // Levels of subtasks below the task, 0 when it has none
+  subtreeHeight: number;
+};
+
+/**
+ * Why the task cannot go under the parent, or null when it can
+ */
+export function checkTaskParent({ taskId, ancestry, subtreeHeight }: TaskParentCheck): TaskLinkIssue | null {
+  if (taskId !== null && ancestry.includes(taskId)) {
+    return { path: ["parentId"], message: "A task cannot be a subtask of itself or of its own subtasks" };
+  }
+  if (ancestry.length + 1 + subtreeHeight > MAX_TASK_DEPTH) {
+    return { path: ["parentId"], message: `Subtasks can be nested at most ${MAX_TASK_DEPTH} levels deep` };
+  }
+  return null;
+}
@@ -0,0 +1,57 @@
+export type TaskLinks = {
+  siteId: string | null;
+  deviceId: string | null;
+};
+
+export type RequestedTaskLinks = {
+  siteId?: string | null;
+  deviceId?: string | null;
+};
+
+export type TaskLinkIssue = {
+  path: string[];
+  message: string;
+};
+
+export type TaskLinkResult =
+  | { links: TaskLinks; issue?: undefined }
+  | { issue: TaskLinkIssue; links?: undefined };
+
+/**
+ * The links a task ends up with after a patch. Linking another device moves the
+ * task to that device's site; otherwise the current site is kept.
+ */
+export function requestedTaskLinks(current: TaskLinks, updates: RequestedTaskLinks): RequestedTaskLinks {
+  const deviceId = updates.deviceId !== undefined ? updates.deviceId : current.deviceId;
+  if (updates.siteId !== undefined) {
+    return { siteId: updates.siteId, deviceId };
+  }
+  return { siteId: updates.deviceId ? null : current.siteId, deviceId };
+}
+
+/**
+ * Check requested links against the site and device found for them in the
+ * tenant. A device link implies the device's site.
+ */
+export function resolveTaskLinks(
+  requested: RequestedTaskLinks,
+  site: { id: string } | undefined,
+  device: { id: string; siteId: string } | undefined,
+): TaskLinkResult {
+  if (requested.siteId && !site) {
+    return { issue: { path: ["siteId"], message: "Site not found" } };
+  }
+  if (requested.deviceId && !device) {
+    return { issue: { path: ["deviceId"], message: "Device not found" } };
+  }
+  if (site && device && device.siteId !== site.id) {
+    return { issue: { path: ["deviceId"], message: "Device is not at this site" } };
+  }
+
+  return {
+    links: {
+      siteId: device?.siteId ?? site?.id ?? null,
+      deviceId: device?.id ?? null,
+    },
+  };
+}
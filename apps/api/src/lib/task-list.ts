@@ -0,0 +1,99 @@
+import type { SQL } from "drizzle-orm";
+
+import { sql } from "drizzle-orm";
+import { Buffer } from "node:buffer";
+
+import { tasks } from "../db/schema";
+
+export const TASK_SORT_FIELDS = ["createdAt", "updatedAt", "dueDate", "priority"] as const;
+export type TaskSortField = typeof TASK_SORT_FIELDS[number];
+
+export const MAX_TASK_PAGE_SIZE = 100;
+export const MAX_TASK_SEARCH_RESULTS = 50;
+
+/**
+ * Non-null sort keys, so a page boundary can be compared with a single row
+ * comparison. Tasks without a due date sort after every dated task.
+ */
+export function taskSortKey(field: TaskSortField): SQL {
+  switch (field) {
+    case "createdAt":
+      return sql`${tasks.createdAt}`;
+    case "updatedAt":
+      return sql`${tasks.updatedAt}`;
+    case "dueDate":
+      return sql`coalesce(${tasks.dueDate}, 'infinity'::timestamp)`;
+    case "priority":
+      return sql`case ${tasks.priority} when 'low' then 0 when 'medium' then 1 when 'high' then 2 else 3 end`;
+  }
+}
+
+// Cursors carry the sort key as Postgres text, so they need its type to compare against it
+function sortKeyCast(field: TaskSortField, key: string): SQL {
+  return field === "priority" ? sql`${key}::integer` : sql`${key}::timestamp`;
+}
+
+export type TaskCursor = {
+  sort: TaskSortField;
+  key: string;
+  id: number;
+};
+
+export function encodeTaskCursor(cursor: TaskCursor): string {
+  return Buffer.from(JSON.stringify([cursor.sort, cursor.key, cursor.id])).toString("base64url");
+}
+
+/**
+ * The cursor's position, or null when it is malformed or was issued for another sort
+ */
+export function decodeTaskCursor(value: string, sort: TaskSortField): TaskCursor | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+    if (!Array.isArray(decoded) || decoded.length !== 3) {
+      return null;
+    }
+
+    const [cursorSort, key, id] = decoded;
+    if (cursorSort !== sort || typeof key !== "string" || !Number.isInteger(id)) {
+      return null;
+    }
+
+    return { sort, key, id };
+  }
+  catch {
+    return null;
+  }
+}
+
+/**
+ * Rows after the cursor in the given direction, with the id breaking ties
+ */
+export function afterTaskCursor(cursor: TaskCursor, order: "asc" | "desc"): SQL {
+  const position = sql`(${taskSortKey(cursor.sort)}, ${tasks.id})`;
+  const boundary = sql`(${sortKeyCast(cursor.sort, cursor.key)}, ${cursor.id})`;
+  return order === "asc" ? sql`${position} > ${boundary}` : sql`${position} < ${boundary}`;
+}
+
+// Wraps matches in search snippets. Only the markers are HTML; the task text is not escaped.
+export const TASK_SNIPPET_START = "<mark>";
+export const TASK_SNIPPET_STOP = "</mark>";
+const TASK_SNIPPET_OPTIONS = `StartSel=${TASK_SNIPPET_START}, StopSel=${TASK_SNIPPET_STOP}, MaxWords=30, MinWords=10, MaxFragments=2`;
+
+/**
+ * Search text in web search syntax: quoted phrases, "or", and -excluded words
+ */
+export function taskSearchQuery(text: string): SQL {
+  return sql`websearch_to_tsquery('english', ${text})`;
+}
+
+export function matchesTaskSearch(text: string): SQL {
+  return sql`${tasks.searchVector} @@ ${taskSearchQuery(text)}`;
+}
+
+export function taskSearchRank(text: string): SQL<number> {
+  return sql<number>`ts_rank(${tasks.searchVector}, ${taskSearchQuery(text)})`;
+}
+
+export function taskSearchSnippet(text: string): SQL<string> {
+  return sql<string>`ts_headline('english', concat_ws(' — ', ${tasks.name}, ${tasks.description}), ${taskSearchQuery(text)}, ${TASK_SNIPPET_OPTIONS})`;
+}
@@ -0,0 +1,92 @@
+import { and, eq, gt } from "drizzle-orm";
+
+import type { Executor } from "../db";
+import type { PermifyDataSync } from "./permify-setup";
+
+import { sites, taskColumns, tasks, taskSeries } from "../db/schema";
+import { nextOccurrence, parseRecurrenceRule } from "./recurrence";
+
+export type CompletedOccurrence = Pick<
+  typeof tasks.$inferSelect,
+  "id" | "tenantId" | "userId" | "assigneeId" | "siteId" | "deviceId" | "parentId" | "name" | "description" | "priority" | "dueDate" | "seriesId" | "occurrence"
+>;
+
+/**
+ * Create the occurrence that follows a completed one, copying its details and
+ * parent task. Only the latest occurrence of a running series has a successor.
+ * Occurrences missed while the task was overdue are skipped, so the next one is
+ * due after now.
+ * Due dates follow the linked site's time zone, or UTC without a site.
+ */
+export async function createNextOccurrence(
+  executor: Executor,
+  completed: CompletedOccurrence,
+  permifySync: PermifyDataSync | null,
+  now = new Date(),
+) {
+  if (!completed.seriesId || completed.occurrence === null) {
+    return null;
+  }
+
+  // Serializes completions of the same series
+  const [series] = await executor.select()
+    .from(taskSeries)
+    .where(eq(taskSeries.id, completed.seriesId))
+    .for("update");
+
+  if (!series || series.endedAt) {
+    return null;
+  }
+
+  const [later] = await executor.select({ id: tasks.id })
+    .from(tasks)
+    .where(and(eq(tasks.seriesId, series.id), gt(tasks.occurrence, completed.occurrence)))
+    .limit(1);
+
+  if (later) {
+    return null;
+  }
+
+  const rule = parseRecurrenceRule(series.rrule);
+  const [site] = completed.siteId
+    ? await executor.select({ timezone: sites.timezone }).from(sites).where(eq(sites.id, completed.siteId))
+    : [];
+  const after = completed.dueDate && completed.dueDate > now ? completed.dueDate : now;
+  const dueDate = rule && nextOccurrence(rule, series.startsAt, after, site?.timezone ?? "UTC");
+
+  if (!dueDate) {
+    await executor.update(taskSeries)
+      .set({ endedAt: now, updatedAt: now })
+      .where(eq(taskSeries.id, series.id));
+    return null;
+  }
+
+  const [next] = await executor.insert(tasks).values({
+    tenantId: completed.tenantId,
+    userId: completed.userId,
+    assigneeId: completed.assigneeId,
+    siteId: completed.siteId,
+    deviceId: completed.deviceId,
+    parentId: completed.parentId,
+    name: completed.name,
+    description: completed.description,
+    priority: completed.priority,
+    dueDate,
+    seriesId: series.id,
+    occurrence: completed.occurrence + 1,
+  }).returning(taskColumns);
+
+  const context = {
+    tenantId: next.tenantId,
+    siteId: next.siteId ?? undefined,
+    deviceId: next.deviceId ?? undefined,
+  };
+  if (next.assigneeId) {
+    await permifySync?.syncTaskAssigned(String(next.id), next.assigneeId, next.userId, context);
+  }
+  else {
+    await permifySync?.syncTaskCreated(String(next.id), next.userId, context);
+  }
+
+  return next;
+}
@@ -0,0 +1,160 @@
+import type { SQL } from "drizzle-orm";
+import type { Context } from "hono";
+
+import { and, asc, eq, inArray } from "drizzle-orm";
+
+import type { Executor } from "../db";
+import type { TaskDependencyEdge } from "./task-dependencies";
+import type { RequestedTaskLinks, TaskLinkResult } from "./task-links";
+
+import { db } from "../db";
+import { devices, labels, sites, taskColumns, taskDependencies, taskLabels, tasks } from "../db/schema";
+import { checkPermissionInHandler } from "../middleware/permify";
+import { getPermifyService } from "../middleware/permify-context";
+import { groupTaskLabels } from "./labels";
+import { MAX_TASK_DEPTH } from "./task-hierarchy";
+import { resolveTaskLinks } from "./task-links";
+import { findTenantSite } from "./tenant-scope";
+
+export async function findTenantTask(tenantId: string, id: number) {
+  return db.query.tasks.findFirst({
+    columns: { searchVector: false },
+    where: and(eq(tasks.id, id), eq(tasks.tenantId, tenantId)),
+  });
+}
+
+// Creators and assignees reach their own tasks directly. Anyone else needs the
+// permission through the task's tenant or site, such as a manager of that site.
+export async function canAccessTask(c: Context, task: Pick<typeof tasks.$inferSelect, "id" | "userId" | "assigneeId">, permission: "view" | "edit" | "delete") {
+  const userId = c.get("userId");
+  if (task.userId === userId || (permission !== "delete" && task.assigneeId === userId)) {
+    return true;
+  }
+
+  const permifyService = getPermifyService(c);
+  if (!permifyService) {
+    return false;
+  }
+
+  return checkPermissionInHandler(
+    c,
+    permifyService,
+    { type: permifyService.EntityTypes.TASK, id: String(task.id) },
+    permission,
+  );
+}
+
+/**
+ * Look up a task's requested site and device within the tenant
+ */
+export async function findTaskLinks(tenantId: string, requested: RequestedTaskLinks): Promise<TaskLinkResult> {
+  const [site, [device]] = await Promise.all([
+    requested.siteId ? findTenantSite(tenantId, requested.siteId) : undefined,
+    requested.deviceId
+      ? db.select({ id: devices.id, siteId: devices.siteId })
+          .from(devices)
+          .innerJoin(sites, eq(devices.siteId, sites.id))
+          .where(and(eq(devices.id, requested.deviceId), eq(sites.tenantId, tenantId)))
+      : [],
+  ]);
+
+  return resolveTaskLinks(requested, site, device);
+}
+
+/**
+ * Open tasks linked to a site or device, soonest due first
+ */
+export function findOpenTasks(linkedTo: SQL) {
+  return db.select(taskColumns)
+    .from(tasks)
+    .where(and(linkedTo, eq(tasks.done, false)))
+    .orderBy(asc(tasks.dueDate), asc(tasks.createdAt));
+}
+
+/**
+ * The task and its ancestors, nearest first. Stops one past the depth limit,
+ * which is enough to tell that a deeper chain is too deep.
+ */
+export async function findTaskAncestry(executor: Executor, taskId: number): Promise<number[]> {
+  const ancestry: number[] = [];
+  let current: number | null = taskId;
+  while (current !== null && ancestry.length <= MAX_TASK_DEPTH) {
+    ancestry.push(current);
+    const [row] = await executor.select({ parentId: tasks.parentId }).from(tasks).where(eq(tasks.id, current));
+    current = row?.parentId ?? null;
+  }
+  return ancestry;
+}
+
+/**
+ * Every subtask below the task, with its depth: 1 for direct subtasks
+ */
+export async function findTaskDescendants(executor: Executor, taskId: number) {
+  const descendants: { id: number; done: boolean; depth: number }[] = [];
+  let parentIds = [taskId];
+  for (let depth = 1; depth <= MAX_TASK_DEPTH && parentIds.length > 0; depth++) {
+    const children = await executor.select({ id: tasks.id, done: tasks.done })
+      .from(tasks)
+      .where(inArray(tasks.parentId, parentIds));
+    descendants.push(...children.map(child => ({ ...child, depth })));
+    parentIds = children.map(child => child.id);
+  }
+  return descendants;
+}
+
+/**
+ * The labels of each task, by name
+ */
+export async function findTaskLabels(taskIds: number[]) {
+  const rows = taskIds.length === 0
+    ? []
+    : await db.select({
+      taskId: taskLabels.taskId,
+      label: { id: labels.id, name: labels.name, color: labels.color },
+    })
+      .from(taskLabels)
+      .innerJoin(labels, eq(taskLabels.labelId, labels.id))
+      .where(inArray(taskLabels.taskId, taskIds))
+      .orderBy(asc(labels.name));
+
+  return groupTaskLabels(taskIds, rows);
+}
+
+/**
+ * Dependency edges reachable from the task, following either its blockers and
+ * theirs, or the tasks it blocks and theirs
+ */
+export async function findDependencyEdges(
+  executor: Executor,
+  taskId: number,
+  direction: "blockers" | "dependents",
+): Promise<TaskDependencyEdge[]> {
+  const [from, to] = direction === "blockers"
+    ? [taskDependencies.taskId, taskDependencies.blockedById] as const
+    : [taskDependencies.blockedById, taskDependencies.taskId] as const;
+
+  const edges: TaskDependencyEdge[] = [];
+  const visited = new Set([taskId]);
+  let frontier = [taskId];
+  while (frontier.length > 0) {
+    const found = await executor.select({ taskId: taskDependencies.taskId, blockedById: taskDependencies.blockedById, next: to })
+      .from(taskDependencies)
+      .where(inArray(from, frontier));
+
+    edges.push(...found.map(({ taskId, blockedById }) => ({ taskId, blockedById })));
+    frontier = [...new Set(found.map(edge => edge.next))].filter(id => !visited.has(id));
+    frontier.forEach(id => visited.add(id));
+  }
+  return edges;
+}
+
+/**
+ * The task's blockers that are not done yet
+ */
+export function findOpenBlockers(executor: Executor, taskId: number) {
+  return executor.select({ id: tasks.id, name: tasks.name })
+    .from(taskDependencies)
+    .innerJoin(tasks, eq(taskDependencies.blockedById, tasks.id))
+    .where(and(eq(taskDependencies.taskId, taskId), eq(tasks.done, false)))
+    .orderBy(asc(tasks.id));
+}
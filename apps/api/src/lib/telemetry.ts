@@ -0,0 +1,42 @@
+import type { AnyColumn, SQL } from "drizzle-orm";
+
+import { sql } from "drizzle-orm";
+
+export const MAX_TELEMETRY_BATCH = 1000;
+export const MAX_RAW_TELEMETRY_POINTS = 10000;
+
+const BUCKET_UNIT_SECONDS = {
+  s: 1,
+  m: 60,
+  h: 60 * 60,
+  d: 24 * 60 * 60,
+} as const;
+
+const MAX_BUCKET_SECONDS = 31 * BUCKET_UNIT_SECONDS.d;
+
+/**
+ * Parse a bucket width such as "30s", "5m", "1h" or "1d" into seconds.
+ * Returns null for anything else, or widths over 31 days.
+ */
+export function parseBucket(value: string): number | null {
+  const match = /^(\d+)([smhd])$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const seconds = Number(match[1]) * BUCKET_UNIT_SECONDS[match[2] as keyof typeof BUCKET_UNIT_SECONDS];
+  if (seconds <= 0 || seconds > MAX_BUCKET_SECONDS) {
+    return null;
+  }
+  return seconds;
+}
+
+/**
+ * SQL for the start of the bucket a timestamp falls into. Buckets are aligned
+ * to the Unix epoch, so the same range always yields the same buckets.
+ */
+export function telemetryBucketSql(recordedAt: AnyColumn, bucketSeconds: number): SQL<Date> {
+  // Decode with the column so the result matches how drizzle reads timestamps
+  return sql`(to_timestamp(floor(extract(epoch from ${recordedAt}) / ${bucketSeconds}) * ${bucketSeconds}) at time zone 'UTC')`
+    .mapWith(recordedAt) as SQL<Date>;
+}
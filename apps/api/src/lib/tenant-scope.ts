@@ -0,0 +1,29 @@
+import type { SQL } from "drizzle-orm";
+
+import { and, eq, inArray } from "drizzle-orm";
+
+import { db } from "../db";
+import { devices, sites } from "../db/schema";
+
+export function findTenantSite(tenantId: string, siteId: string) {
+  return db.query.sites.findFirst({
+    where(fields, operators) {
+      return operators.and(
+        operators.eq(fields.id, siteId),
+        operators.eq(fields.tenantId, tenantId),
+      );
+    },
+  });
+}
+
+// A device is only reachable through its own site, and only when that site belongs to the tenant
+export function deviceInTenantSite(tenantId: string, siteId: string, deviceId: string): SQL {
+  return and(
+    eq(devices.id, deviceId),
+    eq(devices.siteId, siteId),
+    inArray(
+      devices.siteId,
+      db.select({ id: sites.id }).from(sites).where(eq(sites.tenantId, tenantId)),
+    ),
+  )!;
+}
@@ -0,0 +1,59 @@
+import type { MiddlewareHandler } from "hono";
+
+import { and, eq, isNull } from "drizzle-orm";
+import { createMiddleware } from "hono/factory";
+import { HTTPException } from "hono/http-exception";
+
+import { db } from "../db";
+import { deviceCredentials, users } from "../db/schema";
+import { hashSecret, isDeviceSecret } from "../lib/device-credentials";
+import { keycloakAuth } from "./keycloak";
+
+/**
+ * Authenticate either a user through Keycloak or an enrolled device through
+ * its service account secret. A device may only act on its own routes.
+ */
+export function deviceOrUserAuth(): MiddlewareHandler {
+  const userAuth = keycloakAuth();
+
+  return createMiddleware(async (c, next) => {
+    const authHeader = c.req.header("Authorization");
+    const token = authHeader?.startsWith("Bearer ") ? authHeader.substring(7) : null;
+
+    if (!token || !isDeviceSecret(token)) {
+      return userAuth(c, next);
+    }
+
+    const [credential] = await db.select({
+      id: deviceCredentials.id,
+      deviceId: deviceCredentials.deviceId,
+      userId: deviceCredentials.userId,
+      name: users.name,
+    })
+      .from(deviceCredentials)
+      .innerJoin(users, eq(deviceCredentials.userId, users.id))
+      .where(and(
+        eq(deviceCredentials.secretHash, hashSecret(token)),
+        isNull(deviceCredentials.revokedAt),
+        eq(users.isActive, true),
+      ));
+
+    if (!credential) {
+      throw new HTTPException(401, { message: "Invalid or revoked device credential" });
+    }
+
+    const deviceId = c.req.param("deviceId");
+    if (deviceId && deviceId !== credential.deviceId) {
+      throw new HTTPException(403, { message: "Device credentials only grant access to their own device" });
+    }
+
+    await db.update(deviceCredentials)
+      .set({ lastUsedAt: new Date() })
+      .where(eq(deviceCredentials.id, credential.id));
+
+    c.set("user", { sub: credential.userId, name: credential.name });
+    c.set("userId", credential.userId);
+
+    await next();
+  });
+}
@@ -5,6 +5,7 @@ import { HTTPException } from "hono/http-exception";
 import * as jose from "jose";
 
 import env from "../env";
+import { isDeviceSecret } from "../lib/device-credentials";
 
 export type KeycloakConfig = {
   realm: string;
@@ -75,6 +76,7 @@ export function keycloakAuth(): MiddlewareHandler {
       };
 
       c.set("user", user);
+      c.set("userId", user.sub);
       c.set("token", token);
 
       await next();
@@ -99,6 +101,12 @@ export function optionalKeycloakAuth(): MiddlewareHandler {
 
     const token = authHeader.substring(7);
 
+    // Device secrets are checked by the device routes that accept them
+    if (isDeviceSecret(token)) {
+      await next();
+      return;
+    }
+
     try {
       const jwks = await getJWKS(issuer);
       const { payload } = await jose.jwtVerify(token, jwks, {
@@ -121,6 +129,7 @@ export function optionalKeycloakAuth(): MiddlewareHandler {
       };
 
       c.set("user", user);
+      c.set("userId", user.sub);
       c.set("token", token);
     }
     catch (error) {
@@ -0,0 +1,84 @@
+import type { Context, MiddlewareHandler, Next } from "hono";
+
+import { createMiddleware } from "hono/factory";
+import pino from "pino";
+
+import type { PermifyService } from "../lib/permify-service";
+import type { createPermifyHelpers } from "./permify";
+
+import env from "../env";
+import { initializePermify, PermifyDataSync } from "../lib/permify-setup";
+
+type PermifyHelpers = ReturnType<typeof createPermifyHelpers>;
+
+const logger = pino({
+  level: env.LOG_LEVEL,
+  serializers: {
+    err: pino.stdSerializers.err,
+  },
+});
+
+let permifyPromise: ReturnType<typeof initializePermify> | null = null;
+
+function loadPermify() {
+  if (!permifyPromise) {
+    permifyPromise = initializePermify(logger).catch((error) => {
+      // Allow the next caller to retry initialization
+      permifyPromise = null;
+      throw error;
+    });
+  }
+  return permifyPromise;
+}
+
+/**
+ * Initialize Permify once and expose the service and helpers on the context
+ */
+export function permifyContext(): MiddlewareHandler {
+  return createMiddleware(async (c, next) => {
+    const { permifyService, permifyHelpers } = await loadPermify();
+    c.set("permifyService", permifyService);
+    c.set("permifyHelpers", permifyHelpers);
+
+    await next();
+  });
+}
+
+export function getPermifyService(c: Context): PermifyService | null {
+  return c.get("permifyService") || null;
+}
+
+/**
+ * Get a data sync helper, or null when Permify is disabled
+ */
+export function getPermifySync(c: Context): PermifyDataSync | null {
+  const permifyService = getPermifyService(c);
+  if (!permifyService) {
+    return null;
+  }
+  return new PermifyDataSync(permifyService, logger);
+}
+
+/**
+ * Data sync helper for work that runs outside a request, or null when Permify is disabled
+ */
+export async function getBackgroundPermifySync(): Promise<PermifyDataSync | null> {
+  const { permifyService } = await loadPermify();
+  if (!permifyService) {
+    return null;
+  }
+  return new PermifyDataSync(permifyService, logger);
+}
+
+/**
+ * Run a Permify helper middleware, skipping the check when Permify is disabled
+ */
+export function withPermify(select: (helpers: PermifyHelpers) => MiddlewareHandler) {
+  return (c: Context, next: Next) => {
+    const helpers: PermifyHelpers | null = c.get("permifyHelpers") || null;
+    if (!helpers) {
+      return next();
+    }
+    return select(helpers)(c, next);
+  };
+}
@@ -250,6 +250,37 @@ export async function checkPermissionInHandler(
   }
 }
 
+/**
+ * Helper to find the entities of a type the current user has a permission on,
+ * optionally only among the given ids. Finds none if the lookup fails.
+ */
+export async function lookupPermittedIdsInHandler(
+  c: Context,
+  permifyService: PermifyService,
+  entityType: string,
+  permission: string,
+  scopeIds?: string[],
+): Promise<string[]> {
+  const userId = c.get("userId");
+  if (!userId) {
+    return [];
+  }
+
+  try {
+    return await permifyService.lookupEntities(
+      entityType,
+      permission,
+      { type: permifyService.EntityTypes.USER, id: userId },
+      scopeIds,
+    );
+  }
+  catch (error) {
+    const logger = c.get("logger") as Logger;
+    logger?.error(error, "Entity lookup failed in handler");
+    return [];
+  }
+}
+
 /**
  * Helper to get user permissions for an entity
  */
@@ -0,0 +1,250 @@
+import type { SQL } from "drizzle-orm";
+
+import { and, asc, desc, eq, inArray, isNull } from "drizzle-orm";
+import { HTTPException } from "hono/http-exception";
+import * as HttpStatusCodes from "stoker/http-status-codes";
+import * as HttpStatusPhrases from "stoker/http-status-phrases";
+
+import type { AppRouteHandler } from "../../lib/types";
+import type { AcknowledgeRoute, IssueRoute, ListRoute, PollRoute } from "./device-commands.routes";
+
+import { db } from "../../db";
+import { auditLogs, deviceCommands, devices, firmwareCampaignDevices } from "../../db/schema";
+import { getAuditContext } from "../../lib/audit";
+import { DEVICE_COMMAND_PERMISSIONS, isCommandOpen, MAX_POLLED_COMMANDS, OPEN_COMMAND_STATUSES, queueDeviceCommands } from "../../lib/device-commands";
+import { advanceFirmwareCampaign } from "../../lib/firmware-campaign-rollout";
+import { deviceInTenantSite } from "../../lib/tenant-scope";
+import { checkPermissionInHandler } from "../../middleware/permify";
+import { getPermifyService } from "../../middleware/permify-context";
+import { getTenant } from "../../middleware/tenant";
+
+export const issue: AppRouteHandler<IssueRoute> = async (c) => {
+  const { siteId, deviceId } = c.req.valid("param");
+  const command = c.req.valid("json");
+  const tenant = getTenant(c);
+  const permifyService = getPermifyService(c);
+
+  const device = await db.query.devices.findFirst({
+    columns: { id: true, status: true },
+    where: deviceInTenantSite(tenant.id, siteId, deviceId),
+  });
+
+  if (!device) {
+    return c.json(
+      {
+        message: HttpStatusPhrases.NOT_FOUND,
+      },
+      HttpStatusCodes.NOT_FOUND,
+    );
+  }
+
+  // The permission depends on the command type, so it cannot be checked in middleware
+  if (permifyService) {
+    const allowed = await checkPermissionInHandler(
+      c,
+      permifyService,
+      { type: permifyService.EntityTypes.DEVICE, id: device.id },
+      DEVICE_COMMAND_PERMISSIONS[command.type],
+    );
+
+    if (!allowed) {
+      throw new HTTPException(HttpStatusCodes.FORBIDDEN, {
+        message: "Insufficient permissions",
+      });
+    }
+  }
+
+  if (device.status === "decommissioned") {
+    throw new HTTPException(HttpStatusCodes.CONFLICT, {
+      message: "Cannot issue commands to a decommissioned device",
+    });
+  }
+
+  const [queued] = await db.transaction(tx => queueDeviceCommands(
+    tx,
+    [{ deviceId: device.id, type: command.type, payload: command.payload ?? null }],
+    getAuditContext(c),
+  ));
+
+  return c.json(queued, HttpStatusCodes.CREATED);
+};
+
+export const list: AppRouteHandler<ListRoute> = async (c) => {
+  const { siteId, deviceId } = c.req.valid("param");
+  const { status, limit } = c.req.valid("query");
+  const tenant = getTenant(c);
+
+  const device = await db.query.devices.findFirst({
+    columns: { id: true },
+    where: deviceInTenantSite(tenant.id, siteId, deviceId),
+  });
+
+  if (!device) {
+    return c.json(
+      {
+        message: HttpStatusPhrases.NOT_FOUND,
+      },
+      HttpStatusCodes.NOT_FOUND,
+    );
+  }
+
+  const conditions: SQL[] = [eq(deviceCommands.deviceId, device.id)];
+  if (status) {
+    conditions.push(eq(deviceCommands.status, status));
+  }
+
+  const commands = await db.select()
+    .from(deviceCommands)
+    .where(and(...conditions))
+    .orderBy(desc(deviceCommands.createdAt))
+    .limit(limit);
+
+  return c.json(commands, HttpStatusCodes.OK);
+};
+
+export const poll: AppRouteHandler<PollRoute> = async (c) => {
+  const { siteId, deviceId } = c.req.valid("param");
+  const tenant = getTenant(c);
+
+  const device = await db.query.devices.findFirst({
+    columns: { id: true },
+    where: deviceInTenantSite(tenant.id, siteId, deviceId),
+  });
+
+  if (!device) {
+    return c.json(
+      {
+        message: HttpStatusPhrases.NOT_FOUND,
+      },
+      HttpStatusCodes.NOT_FOUND,
+    );
+  }
+
+  const commands = await db.transaction(async (tx) => {
+    const open = await tx.select()
+      .from(deviceCommands)
+      .where(and(
+        eq(deviceCommands.deviceId, device.id),
+        inArray(deviceCommands.status, [...OPEN_COMMAND_STATUSES]),
+      ))
+      .orderBy(asc(deviceCommands.createdAt))
+      .limit(MAX_POLLED_COMMANDS)
+      .for("update");
+
+    const undelivered = open.filter(command => command.status === "pending").map(command => command.id);
+    if (undelivered.length === 0) {
+      return open;
+    }
+
+    const now = new Date();
+    await tx.update(deviceCommands)
+      .set({ status: "delivered", deliveredAt: now })
+      .where(and(
+        inArray(deviceCommands.id, undelivered),
+        isNull(deviceCommands.deliveredAt),
+      ));
+
+    return open.map(command => undelivered.includes(command.id)
+      ? { ...command, status: "delivered" as const, deliveredAt: now }
+      : command);
+  });
+
+  return c.json(commands, HttpStatusCodes.OK);
+};
+
+export const acknowledge: AppRouteHandler<AcknowledgeRoute> = async (c) => {
+  const { siteId, deviceId, commandId } = c.req.valid("param");
+  const { success, result, errorMessage } = c.req.valid("json");
+  const tenant = getTenant(c);
+
+  const device = await db.query.devices.findFirst({
+    columns: { id: true },
+    where: deviceInTenantSite(tenant.id, siteId, deviceId),
+  });
+
+  if (!device) {
+    return c.json(
+      {
+        message: HttpStatusPhrases.NOT_FOUND,
+      },
+      HttpStatusCodes.NOT_FOUND,
+    );
+  }
+
+  const completed = await db.transaction(async (tx) => {
+    const [current] = await tx.select()
+      .from(deviceCommands)
+      .where(and(
+        eq(deviceCommands.id, commandId),
+        eq(deviceCommands.deviceId, device.id),
+      ))
+      .for("update");
+
+    if (!current) {
+      return null;
+    }
+
+    if (!isCommandOpen(current.status)) {
+      throw new HTTPException(HttpStatusCodes.CONFLICT, {
+        message: "Command has already been acknowledged",
+      });
+    }
+
+    const now = new Date();
+    const [updated] = await tx.update(deviceCommands)
+      .set({
+        status: success ? "succeeded" : "failed",
+        result: result ?? null,
+        errorMessage: success ? null : (errorMessage ?? null),
+        deliveredAt: current.deliveredAt ?? now,
+        completedAt: now,
+      })
+      .where(eq(deviceCommands.id, current.id))
+      .returning();
+
+    // The device now runs the firmware it was told to install
+    if (success && updated.type === "firmware_update" && typeof updated.payload?.version === "string") {
+      await tx.update(devices)
+        .set({ firmwareVersion: updated.payload.version, updatedAt: now })
+        .where(eq(devices.id, device.id));
+    }
+
+    await tx.insert(auditLogs).values({
+      ...getAuditContext(c),
+      action: "execute",
+      resourceType: "device",
+      resourceId: device.id,
+      details: {
+        event: "acknowledged",
+        commandId: updated.id,
+        type: updated.type,
+        status: updated.status,
+        result: updated.result,
+      },
+      success,
+      errorMessage: updated.errorMessage,
+    });
+
+    // Firmware campaigns start their next wave, or halt, as their updates complete
+    const campaignDevice = await tx.query.firmwareCampaignDevices.findFirst({
+      columns: { campaignId: true },
+      where: eq(firmwareCampaignDevices.commandId, updated.id),
+    });
+    if (campaignDevice) {
+      await advanceFirmwareCampaign(tx, campaignDevice.campaignId);
+    }
+
+    return updated;
+  });
+
+  if (!completed) {
+    return c.json(
+      {
+        message: HttpStatusPhrases.NOT_FOUND,
+      },
+      HttpStatusCodes.NOT_FOUND,
+    );
+  }
+
+  return c.json(completed, HttpStatusCodes.OK);
+};
@@ -0,0 +1,46 @@
+import type { Context, Next } from "hono";
+
+import createRouter from "../../lib/create-router";
+import { deviceOrUserAuth } from "../../middleware/device-auth";
+import { keycloakAuth } from "../../middleware/keycloak";
+import { withPermify } from "../../middleware/permify-context";
+import { tenantMiddleware } from "../../middleware/tenant";
+import * as handlers from "./device-commands.handlers";
+import * as routes from "./device-commands.routes";
+
+// Auth middleware
+function authMiddleware(c: Context, next: Next) {
+  return keycloakAuth()(c, next);
+}
+
+// Devices authenticate with their enrollment credential, users through Keycloak
+function deviceAuthMiddleware(c: Context, next: Next) {
+  return deviceOrUserAuth()(c, next);
+}
+
+// Tenant middleware wrapper
+function tenantAuthMiddleware(c: Context, next: Next) {
+  return tenantMiddleware()(c, next);
+}
+
+// Issuing is checked in the handler against the permission for the command type
+const deviceLogsMiddleware = withPermify(helpers => helpers.requireDeviceAccess("view_logs"));
+// Devices poll and acknowledge with an account that can control them, like heartbeats
+const deviceControlMiddleware = withPermify(helpers => helpers.requireDeviceAccess("control"));
+
+const router = createRouter();
+router.use("/tenants/:tenantId/sites/:siteId/devices/:deviceId/commands", authMiddleware);
+router.use("/tenants/:tenantId/sites/:siteId/devices/:deviceId/commands", tenantAuthMiddleware);
+router.use("/tenants/:tenantId/sites/:siteId/devices/:deviceId/commands/poll", deviceAuthMiddleware);
+router.use("/tenants/:tenantId/sites/:siteId/devices/:deviceId/commands/poll", tenantAuthMiddleware);
+router.use("/tenants/:tenantId/sites/:siteId/devices/:deviceId/commands/:commandId/ack", deviceAuthMiddleware);
+router.use("/tenants/:tenantId/sites/:siteId/devices/:deviceId/commands/:commandId/ack", tenantAuthMiddleware);
+router.on("GET", "/tenants/:tenantId/sites/:siteId/devices/:deviceId/commands", deviceLogsMiddleware);
+router.on("POST", "/tenants/:tenantId/sites/:siteId/devices/:deviceId/commands/poll", deviceControlMiddleware);
+router.on("POST", "/tenants/:tenantId/sites/:siteId/devices/:deviceId/commands/:commandId/ack", deviceControlMiddleware);
+router.openapi(routes.issue, handlers.issue);
+router.openapi(routes.list, handlers.list);
+router.openapi(routes.poll, handlers.poll);
+router.openapi(routes.acknowledge, handlers.acknowledge);
+
+export default router;
@@ -0,0 +1,133 @@
+import { createRoute, z } from "@hono/zod-openapi";
+import * as HttpStatusCodes from "stoker/http-status-codes";
+import { jsonContent, jsonContentRequired } from "stoker/openapi/helpers";
+import { createErrorSchema } from "stoker/openapi/schemas";
+
+import { acknowledgeDeviceCommandSchema, insertDeviceCommandSchema, selectDeviceCommandSchema } from "../../db/schema";
+import { notFoundSchema } from "../../lib/constants";
+
+const tags = ["Device Commands"];
+
+const deviceParamsSchema = z.object({
+  tenantId: z.string(),
+  siteId: z.string().uuid(),
+  deviceId: z.string().uuid(),
+});
+
+const commandParamsSchema = deviceParamsSchema.extend({
+  commandId: z.string().uuid(),
+});
+
+const listCommandsQuerySchema = z.object({
+  status: selectDeviceCommandSchema.shape.status.optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+export const issue = createRoute({
+  path: "/tenants/{tenantId}/sites/{siteId}/devices/{deviceId}/commands",
+  method: "post",
+  request: {
+    params: deviceParamsSchema,
+    body: jsonContentRequired(
+      insertDeviceCommandSchema,
+      "The command to queue for the device",
+    ),
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.CREATED]: jsonContent(
+      selectDeviceCommandSchema,
+      "The queued command",
+    ),
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      notFoundSchema,
+      "Device not found",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(insertDeviceCommandSchema)
+        .or(createErrorSchema(deviceParamsSchema)),
+      "The validation error(s)",
+    ),
+  },
+});
+
+export const list = createRoute({
+  path: "/tenants/{tenantId}/sites/{siteId}/devices/{deviceId}/commands",
+  method: "get",
+  request: {
+    params: deviceParamsSchema,
+    query: listCommandsQuerySchema,
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(
+      z.array(selectDeviceCommandSchema),
+      "The device's commands, newest first",
+    ),
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      notFoundSchema,
+      "Device not found",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(listCommandsQuerySchema)
+        .or(createErrorSchema(deviceParamsSchema)),
+      "Invalid parameters",
+    ),
+  },
+});
+
+export const poll = createRoute({
+  path: "/tenants/{tenantId}/sites/{siteId}/devices/{deviceId}/commands/poll",
+  method: "post",
+  request: {
+    params: deviceParamsSchema,
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(
+      z.array(selectDeviceCommandSchema),
+      "Commands the device has not acknowledged yet, oldest first",
+    ),
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      notFoundSchema,
+      "Device not found",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(deviceParamsSchema),
+      "Invalid parameters",
+    ),
+  },
+});
+
+export const acknowledge = createRoute({
+  path: "/tenants/{tenantId}/sites/{siteId}/devices/{deviceId}/commands/{commandId}/ack",
+  method: "post",
+  request: {
+    params: commandParamsSchema,
+    body: jsonContentRequired(
+      acknowledgeDeviceCommandSchema,
+      "The outcome the device reports",
+    ),
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(
+      selectDeviceCommandSchema,
+      "The completed command",
+    ),
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      notFoundSchema,
+      "Command not found",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(acknowledgeDeviceCommandSchema)
+        .or(createErrorSchema(commandParamsSchema)),
+      "The validation error(s)",
+    ),
+  },
+});
+
+export type IssueRoute = typeof issue;
+export type ListRoute = typeof list;
+export type PollRoute = typeof poll;
+export type AcknowledgeRoute = typeof acknowledge;
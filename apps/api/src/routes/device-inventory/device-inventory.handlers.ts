@@ -0,0 +1,112 @@
+import type { SQL } from "drizzle-orm";
+import type { Context } from "hono";
+
+import { and, asc, eq, gt } from "drizzle-orm";
+import { stream } from "hono/streaming";
+import * as HttpStatusCodes from "stoker/http-status-codes";
+import * as HttpStatusPhrases from "stoker/http-status-phrases";
+
+import type { DeviceStatus, DeviceType } from "../../db/schema";
+import type { DeviceExportFormat } from "../../lib/device-export";
+import type { AppRouteHandler } from "../../lib/types";
+import type { ExportSiteRoute, ExportTenantRoute } from "./device-inventory.routes";
+
+import { db } from "../../db";
+import { auditLogs, devices, sites } from "../../db/schema";
+import { getAuditContext } from "../../lib/audit";
+import {
+  DEVICE_EXPORT_BATCH_SIZE,
+  DEVICE_EXPORT_CONTENT_TYPES,
+  formatDeviceExportHeader,
+  formatDeviceExportRow,
+} from "../../lib/device-export";
+import { findTenantSite } from "../../lib/tenant-scope";
+import { getTenant } from "../../middleware/tenant";
+
+type ExportFilters = {
+  format: DeviceExportFormat;
+  type?: DeviceType;
+  status?: DeviceStatus;
+};
+
+// Record the export, then stream the matching devices batch by batch in id order
+async function streamDeviceExport(c: Context, filters: ExportFilters, scope: SQL, siteId?: string) {
+  const { format, type, status } = filters;
+  const conditions: SQL[] = [scope];
+  if (type) {
+    conditions.push(eq(devices.type, type));
+  }
+  if (status) {
+    conditions.push(eq(devices.status, status));
+  }
+
+  await db.insert(auditLogs).values({
+    ...getAuditContext(c),
+    action: "export",
+    resourceType: "device",
+    details: { format, siteId, filters: { type, status } },
+  });
+
+  c.header("Content-Type", DEVICE_EXPORT_CONTENT_TYPES[format]);
+  c.header("Content-Disposition", `attachment; filename="devices.${format}"`);
+
+  return stream(c, async (output) => {
+    await output.write(formatDeviceExportHeader(format));
+
+    let after: string | null = null;
+    while (!output.aborted) {
+      const batch = await db.select({
+        id: devices.id,
+        name: devices.name,
+        type: devices.type,
+        serialNumber: devices.serialNumber,
+        model: devices.model,
+        manufacturer: devices.manufacturer,
+        siteId: devices.siteId,
+        siteName: sites.name,
+        status: devices.status,
+        firmwareVersion: devices.firmwareVersion,
+        lastSeenAt: devices.lastSeenAt,
+        isActive: devices.isActive,
+        createdAt: devices.createdAt,
+      })
+        .from(devices)
+        .innerJoin(sites, eq(devices.siteId, sites.id))
+        .where(and(...conditions, ...(after ? [gt(devices.id, after)] : [])))
+        .orderBy(asc(devices.id))
+        .limit(DEVICE_EXPORT_BATCH_SIZE);
+
+      for (const row of batch) {
+        await output.write(formatDeviceExportRow(row, format));
+      }
+
+      if (batch.length < DEVICE_EXPORT_BATCH_SIZE) {
+        break;
+      }
+      after = batch[batch.length - 1].id;
+    }
+  });
+}
+
+export const exportTenant: AppRouteHandler<ExportTenantRoute> = async (c) => {
+  const tenant = getTenant(c);
+
+  return streamDeviceExport(c, c.req.valid("query"), eq(sites.tenantId, tenant.id));
+};
+
+export const exportSite: AppRouteHandler<ExportSiteRoute> = async (c) => {
+  const { siteId } = c.req.valid("param");
+  const tenant = getTenant(c);
+
+  const site = await findTenantSite(tenant.id, siteId);
+  if (!site) {
+    return c.json(
+      {
+        message: HttpStatusPhrases.NOT_FOUND,
+      },
+      HttpStatusCodes.NOT_FOUND,
+    );
+  }
+
+  return streamDeviceExport(c, c.req.valid("query"), eq(devices.siteId, site.id), site.id);
+};
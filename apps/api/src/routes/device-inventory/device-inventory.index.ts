@@ -0,0 +1,37 @@
+import type { Context, Next } from "hono";
+
+import createRouter from "../../lib/create-router";
+import { keycloakAuth } from "../../middleware/keycloak";
+import { withPermify } from "../../middleware/permify-context";
+import { requireRole, tenantMiddleware } from "../../middleware/tenant";
+import * as handlers from "./device-inventory.handlers";
+import * as routes from "./device-inventory.routes";
+
+// Auth middleware
+function authMiddleware(c: Context, next: Next) {
+  return keycloakAuth()(c, next);
+}
+
+// Tenant middleware wrapper
+function tenantAuthMiddleware(c: Context, next: Next) {
+  return tenantMiddleware()(c, next);
+}
+
+// Site exports need the same access as listing the site's devices; the tenant-wide
+// export covers every site, so it is limited to owners and admins
+const tenantAdminRoleMiddleware = requireRole(["owner", "admin"]);
+const tenantAdminMiddleware = withPermify(helpers => helpers.requireTenantAdmin());
+const siteDeviceAccessMiddleware = withPermify(helpers => helpers.requireSiteAccess("device_access"));
+
+const router = createRouter();
+router.use("/tenants/:tenantId/device-inventory", authMiddleware);
+router.use("/tenants/:tenantId/device-inventory", tenantAuthMiddleware);
+router.use("/tenants/:tenantId/device-inventory", tenantAdminRoleMiddleware);
+router.use("/tenants/:tenantId/device-inventory", tenantAdminMiddleware);
+router.use("/tenants/:tenantId/sites/:siteId/device-inventory", authMiddleware);
+router.use("/tenants/:tenantId/sites/:siteId/device-inventory", tenantAuthMiddleware);
+router.use("/tenants/:tenantId/sites/:siteId/device-inventory", siteDeviceAccessMiddleware);
+router.openapi(routes.exportTenant, handlers.exportTenant);
+router.openapi(routes.exportSite, handlers.exportSite);
+
+export default router;
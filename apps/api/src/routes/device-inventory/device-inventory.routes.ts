@@ -0,0 +1,85 @@
+import { createRoute, z } from "@hono/zod-openapi";
+import * as HttpStatusCodes from "stoker/http-status-codes";
+import { jsonContent } from "stoker/openapi/helpers";
+import { createErrorSchema } from "stoker/openapi/schemas";
+
+import { selectDeviceSchema } from "../../db/schema";
+import { notFoundSchema } from "../../lib/constants";
+import { DEVICE_EXPORT_COLUMNS, DEVICE_EXPORT_FORMATS } from "../../lib/device-export";
+
+const tags = ["Devices"];
+
+const tenantParamsSchema = z.object({
+  tenantId: z.string(),
+});
+
+const siteParamsSchema = z.object({
+  tenantId: z.string(),
+  siteId: z.string().uuid(),
+});
+
+// Same filters as the device list
+const exportDevicesQuerySchema = z.object({
+  format: z.enum(DEVICE_EXPORT_FORMATS).default("csv"),
+  type: selectDeviceSchema.shape.type.optional(),
+  status: selectDeviceSchema.shape.status.optional(),
+});
+
+const exportContent = {
+  "text/csv": {
+    schema: z.string().openapi({ description: `CSV with the columns ${DEVICE_EXPORT_COLUMNS.join(", ")}` }),
+  },
+  "application/x-ndjson": {
+    schema: z.string().openapi({ description: "One JSON device record per line" }),
+  },
+};
+
+// Only tenant owners and admins can export every site at once
+export const exportTenant = createRoute({
+  path: "/tenants/{tenantId}/device-inventory",
+  method: "get",
+  request: {
+    params: tenantParamsSchema,
+    query: exportDevicesQuerySchema,
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.OK]: {
+      content: exportContent,
+      description: "Every device in the tenant with its site",
+    },
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(exportDevicesQuerySchema)
+        .or(createErrorSchema(tenantParamsSchema)),
+      "Invalid parameters",
+    ),
+  },
+});
+
+export const exportSite = createRoute({
+  path: "/tenants/{tenantId}/sites/{siteId}/device-inventory",
+  method: "get",
+  request: {
+    params: siteParamsSchema,
+    query: exportDevicesQuerySchema,
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.OK]: {
+      content: exportContent,
+      description: "Every device at the site",
+    },
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      notFoundSchema,
+      "Site not found",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(exportDevicesQuerySchema)
+        .or(createErrorSchema(siteParamsSchema)),
+      "Invalid parameters",
+    ),
+  },
+});
+
+export type ExportTenantRoute = typeof exportTenant;
+export type ExportSiteRoute = typeof exportSite;
@@ -0,0 +1,78 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { db } from "../../db";
+import { devices, sites } from "../../db/schema";
+import { createTestApp } from "../../lib/create-app";
+import { parseCsvRecords } from "../../lib/csv";
+import { createTestTenant, createTestUser, testPermify } from "../../test/route-test-utils";
+import router from "./device-inventory.index";
+
+vi.mock("../../env", async () => {
+  const { testEnv } = await import("../../test/route-test-utils");
+  return { default: testEnv, env: testEnv };
+});
+vi.mock("../../db", async () => (await import("../../test/route-test-utils")).createTestDatabase());
+vi.mock("../../middleware/keycloak", async (importOriginal) => {
+  const { testKeycloakAuth } = await import("../../test/route-test-utils");
+  return {
+    ...await importOriginal<typeof import("../../middleware/keycloak")>(),
+    keycloakAuth: () => testKeycloakAuth(),
+    optionalKeycloakAuth: () => testKeycloakAuth(true),
+  };
+});
+vi.mock("../../middleware/permify-context", async (importOriginal) => {
+  const { testPermifyContext } = await import("../../test/route-test-utils");
+  return {
+    ...await importOriginal<typeof import("../../middleware/permify-context")>(),
+    permifyContext: testPermifyContext,
+  };
+});
+
+const app = createTestApp(router);
+
+describe("device inventory routes", () => {
+  let adminId: string;
+  let memberId: string;
+  let tenantId: string;
+
+  beforeEach(async () => {
+    testPermify.service = null;
+    const admin = await createTestUser(db, "Admin");
+    const member = await createTestUser(db, "Member");
+    const tenant = await createTestTenant(db, [
+      { userId: admin.id, role: "admin" },
+      { userId: member.id, role: "member" },
+    ]);
+    adminId = admin.id;
+    memberId = member.id;
+    tenantId = tenant.id;
+
+    const [site] = await db.insert(sites).values({ tenantId, name: "North plant", address: "1 North Road" }).returning();
+    await db.insert(devices).values([
+      { siteId: site.id, name: "Boiler sensor", type: "sensor" },
+      { siteId: site.id, name: "=HYPERLINK(\"http://example.com\")", type: "meter" },
+    ]);
+  });
+
+  function exportTenant(userId: string) {
+    return app.request(`/api/tenants/${tenantId}/device-inventory`, {
+      headers: { Authorization: `Bearer ${userId}` },
+    });
+  }
+
+  it("get /device-inventory is limited to tenant admins", async () => {
+    const response = await exportTenant(memberId);
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({ error: "Insufficient permissions" });
+  });
+
+  it("get /device-inventory exports every device with formulas escaped", async () => {
+    const response = await exportTenant(adminId);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toContain("text/csv");
+    const names = parseCsvRecords(await response.text()).map(record => record.name).sort();
+    expect(names).toEqual(["'=HYPERLINK(\"http://example.com\")", "Boiler sensor"]);
+  });
+});
@@ -0,0 +1,96 @@
+import { and, asc, eq } from "drizzle-orm";
+import * as HttpStatusCodes from "stoker/http-status-codes";
+import * as HttpStatusPhrases from "stoker/http-status-phrases";
+
+import type { AppRouteHandler } from "../../lib/types";
+import type { ListRoute, RemoveRoute, UpsertRoute } from "./device-metadata-schemas.routes";
+
+import { db } from "../../db";
+import { auditLogs, deviceMetadataSchemas } from "../../db/schema";
+import { getAuditContext } from "../../lib/audit";
+import { getTenant } from "../../middleware/tenant";
+
+export const list: AppRouteHandler<ListRoute> = async (c) => {
+  const tenant = getTenant(c);
+
+  const schemas = await db.select()
+    .from(deviceMetadataSchemas)
+    .where(eq(deviceMetadataSchemas.tenantId, tenant.id))
+    .orderBy(asc(deviceMetadataSchemas.deviceType));
+
+  return c.json(schemas, HttpStatusCodes.OK);
+};
+
+export const upsert: AppRouteHandler<UpsertRoute> = async (c) => {
+  const { deviceType } = c.req.valid("param");
+  const { schema } = c.req.valid("json");
+  const tenant = getTenant(c);
+  const userId = c.get("userId") ?? null;
+
+  // Existing devices are not re-validated; the schema applies to their next create or patch
+  const registered = await db.transaction(async (tx) => {
+    const [saved] = await tx.insert(deviceMetadataSchemas)
+      .values({
+        tenantId: tenant.id,
+        deviceType,
+        schema,
+        updatedBy: userId,
+      })
+      .onConflictDoUpdate({
+        target: [deviceMetadataSchemas.tenantId, deviceMetadataSchemas.deviceType],
+        set: { schema, updatedBy: userId, updatedAt: new Date() },
+      })
+      .returning();
+
+    await tx.insert(auditLogs).values({
+      ...getAuditContext(c),
+      action: "configure",
+      resourceType: "configuration",
+      resourceId: saved.id,
+      details: { deviceMetadataSchema: deviceType, schema },
+    });
+
+    return saved;
+  });
+
+  return c.json(registered, HttpStatusCodes.OK);
+};
+
+export const remove: AppRouteHandler<RemoveRoute> = async (c) => {
+  const { deviceType } = c.req.valid("param");
+  const tenant = getTenant(c);
+
+  const deleted = await db.transaction(async (tx) => {
+    const [removed] = await tx.delete(deviceMetadataSchemas)
+      .where(and(
+        eq(deviceMetadataSchemas.tenantId, tenant.id),
+        eq(deviceMetadataSchemas.deviceType, deviceType),
+      ))
+      .returning();
+
+    if (!removed) {
+      return null;
+    }
+
+    await tx.insert(auditLogs).values({
+      ...getAuditContext(c),
+      action: "delete",
+      resourceType: "configuration",
+      resourceId: removed.id,
+      details: { deviceMetadataSchema: deviceType },
+    });
+
+    return removed;
+  });
+
+  if (!deleted) {
+    return c.json(
+      {
+        message: HttpStatusPhrases.NOT_FOUND,
+      },
+      HttpStatusCodes.NOT_FOUND,
+    );
+  }
+
+  return c.body(null, HttpStatusCodes.NO_CONTENT);
+};
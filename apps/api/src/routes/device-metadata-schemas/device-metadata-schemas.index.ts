@@ -0,0 +1,35 @@
+import type { Context, Next } from "hono";
+
+import createRouter from "../../lib/create-router";
+import { keycloakAuth } from "../../middleware/keycloak";
+import { withPermify } from "../../middleware/permify-context";
+import { tenantMiddleware } from "../../middleware/tenant";
+import * as handlers from "./device-metadata-schemas.handlers";
+import * as routes from "./device-metadata-schemas.routes";
+
+// Auth middleware
+function authMiddleware(c: Context, next: Next) {
+  return keycloakAuth()(c, next);
+}
+
+// Tenant middleware wrapper
+function tenantAuthMiddleware(c: Context, next: Next) {
+  return tenantMiddleware()(c, next);
+}
+
+// Any member can read the schemas; registering them is a tenant setting
+const tenantAccessMiddleware = withPermify(helpers => helpers.requireTenantAccess());
+const tenantAdminMiddleware = withPermify(helpers => helpers.requireTenantAdmin());
+
+const router = createRouter();
+router.use("/tenants/:tenantId/device-metadata-schemas", authMiddleware);
+router.use("/tenants/:tenantId/device-metadata-schemas", tenantAuthMiddleware);
+router.use("/tenants/:tenantId/device-metadata-schemas", tenantAccessMiddleware);
+router.use("/tenants/:tenantId/device-metadata-schemas/:deviceType", authMiddleware);
+router.use("/tenants/:tenantId/device-metadata-schemas/:deviceType", tenantAuthMiddleware);
+router.use("/tenants/:tenantId/device-metadata-schemas/:deviceType", tenantAdminMiddleware);
+router.openapi(routes.list, handlers.list);
+router.openapi(routes.upsert, handlers.upsert);
+router.openapi(routes.remove, handlers.remove);
+
+export default router;
@@ -0,0 +1,83 @@
+import { createRoute, z } from "@hono/zod-openapi";
+import * as HttpStatusCodes from "stoker/http-status-codes";
+import { jsonContent, jsonContentRequired } from "stoker/openapi/helpers";
+import { createErrorSchema } from "stoker/openapi/schemas";
+
+import { selectDeviceMetadataSchemaSchema, selectDeviceSchema, upsertDeviceMetadataSchemaSchema } from "../../db/schema";
+import { notFoundSchema } from "../../lib/constants";
+
+const tags = ["Device Metadata Schemas"];
+
+const tenantParamsSchema = z.object({
+  tenantId: z.string(),
+});
+
+const deviceTypeParamsSchema = z.object({
+  tenantId: z.string(),
+  deviceType: selectDeviceSchema.shape.type,
+});
+
+export const list = createRoute({
+  path: "/tenants/{tenantId}/device-metadata-schemas",
+  method: "get",
+  request: {
+    params: tenantParamsSchema,
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(
+      z.array(selectDeviceMetadataSchemaSchema),
+      "The tenant's registered metadata schemas",
+    ),
+  },
+});
+
+export const upsert = createRoute({
+  path: "/tenants/{tenantId}/device-metadata-schemas/{deviceType}",
+  method: "put",
+  request: {
+    params: deviceTypeParamsSchema,
+    body: jsonContentRequired(
+      upsertDeviceMetadataSchemaSchema,
+      "The JSON Schema device metadata of this type must satisfy",
+    ),
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(
+      selectDeviceMetadataSchemaSchema,
+      "The registered schema",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(upsertDeviceMetadataSchemaSchema)
+        .or(createErrorSchema(deviceTypeParamsSchema)),
+      "The validation error(s)",
+    ),
+  },
+});
+
+export const remove = createRoute({
+  path: "/tenants/{tenantId}/device-metadata-schemas/{deviceType}",
+  method: "delete",
+  request: {
+    params: deviceTypeParamsSchema,
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.NO_CONTENT]: {
+      description: "Schema removed; metadata for the type is no longer validated",
+    },
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      notFoundSchema,
+      "No schema registered for the device type",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(deviceTypeParamsSchema),
+      "Invalid parameters",
+    ),
+  },
+});
+
+export type ListRoute = typeof list;
+export type UpsertRoute = typeof upsert;
+export type RemoveRoute = typeof remove;
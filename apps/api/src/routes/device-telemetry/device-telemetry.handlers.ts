@@ -0,0 +1,145 @@
+import type { SQL } from "drizzle-orm";
+
+import { and, asc, eq, gte, lt, max, min, sql } from "drizzle-orm";
+import * as HttpStatusCodes from "stoker/http-status-codes";
+import * as HttpStatusPhrases from "stoker/http-status-phrases";
+import { ZodIssueCode } from "zod";
+
+import type { AppRouteHandler } from "../../lib/types";
+import type { IngestRoute, QueryRoute } from "./device-telemetry.routes";
+
+import { db } from "../../db";
+import { deviceTelemetry } from "../../db/schema";
+import { MAX_RAW_TELEMETRY_POINTS, parseBucket, telemetryBucketSql } from "../../lib/telemetry";
+import { deviceInTenantSite } from "../../lib/tenant-scope";
+import { getTenant } from "../../middleware/tenant";
+
+const DEFAULT_RANGE_MS = 24 * 60 * 60 * 1000;
+
+export const ingest: AppRouteHandler<IngestRoute> = async (c) => {
+  const { siteId, deviceId } = c.req.valid("param");
+  const { points } = c.req.valid("json");
+  const tenant = getTenant(c);
+
+  const device = await db.query.devices.findFirst({
+    columns: { id: true },
+    where: deviceInTenantSite(tenant.id, siteId, deviceId),
+  });
+
+  if (!device) {
+    return c.json(
+      {
+        message: HttpStatusPhrases.NOT_FOUND,
+      },
+      HttpStatusCodes.NOT_FOUND,
+    );
+  }
+
+  const receivedAt = new Date();
+  const inserted = await db.insert(deviceTelemetry)
+    .values(points.map(point => ({
+      deviceId: device.id,
+      metric: point.metric,
+      value: point.value,
+      recordedAt: point.recordedAt ?? receivedAt,
+    })))
+    .returning({ id: deviceTelemetry.id });
+
+  return c.json({ inserted: inserted.length }, HttpStatusCodes.CREATED);
+};
+
+export const query: AppRouteHandler<QueryRoute> = async (c) => {
+  const { siteId, deviceId } = c.req.valid("param");
+  const { metric, from: fromParam, to: toParam, bucket } = c.req.valid("query");
+  const tenant = getTenant(c);
+
+  const to = toParam ? new Date(toParam) : new Date();
+  const from = fromParam ? new Date(fromParam) : new Date(to.getTime() - DEFAULT_RANGE_MS);
+
+  if (from >= to) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          issues: [
+            {
+              code: ZodIssueCode.custom,
+              path: ["from"],
+              message: "from must be before to",
+            },
+          ],
+          name: "ZodError",
+        },
+      },
+      HttpStatusCodes.UNPROCESSABLE_ENTITY,
+    );
+  }
+
+  const device = await db.query.devices.findFirst({
+    columns: { id: true },
+    where: deviceInTenantSite(tenant.id, siteId, deviceId),
+  });
+
+  if (!device) {
+    return c.json(
+      {
+        message: HttpStatusPhrases.NOT_FOUND,
+      },
+      HttpStatusCodes.NOT_FOUND,
+    );
+  }
+
+  const conditions: SQL[] = [
+    eq(deviceTelemetry.deviceId, device.id),
+    gte(deviceTelemetry.recordedAt, from),
+    lt(deviceTelemetry.recordedAt, to),
+  ];
+  if (metric) {
+    conditions.push(eq(deviceTelemetry.metric, metric));
+  }
+
+  const bucketSeconds = bucket ? parseBucket(bucket) : null;
+
+  if (!bucket || !bucketSeconds) {
+    // Fetch one extra row to tell the caller the range was cut short
+    const points = await db.select({
+      metric: deviceTelemetry.metric,
+      value: deviceTelemetry.value,
+      recordedAt: deviceTelemetry.recordedAt,
+    })
+      .from(deviceTelemetry)
+      .where(and(...conditions))
+      .orderBy(asc(deviceTelemetry.recordedAt))
+      .limit(MAX_RAW_TELEMETRY_POINTS + 1);
+
+    return c.json({
+      mode: "raw" as const,
+      from,
+      to,
+      points: points.slice(0, MAX_RAW_TELEMETRY_POINTS),
+      truncated: points.length > MAX_RAW_TELEMETRY_POINTS,
+    }, HttpStatusCodes.OK);
+  }
+
+  const bucketStart = telemetryBucketSql(deviceTelemetry.recordedAt, bucketSeconds);
+  const aggregates = await db.select({
+    metric: deviceTelemetry.metric,
+    bucketStart,
+    min: sql<number>`${min(deviceTelemetry.value)}`.mapWith(Number),
+    max: sql<number>`${max(deviceTelemetry.value)}`.mapWith(Number),
+    avg: sql<number>`avg(${deviceTelemetry.value})`.mapWith(Number),
+    count: sql<number>`count(*)`.mapWith(Number),
+  })
+    .from(deviceTelemetry)
+    .where(and(...conditions))
+    .groupBy(deviceTelemetry.metric, bucketStart)
+    .orderBy(asc(deviceTelemetry.metric), asc(bucketStart));
+
+  return c.json({
+    mode: "aggregate" as const,
+    from,
+    to,
+    bucket,
+    aggregates,
+  }, HttpStatusCodes.OK);
+};
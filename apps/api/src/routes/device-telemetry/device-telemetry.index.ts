@@ -0,0 +1,30 @@
+import type { Context, Next } from "hono";
+
+import createRouter from "../../lib/create-router";
+import { deviceOrUserAuth } from "../../middleware/device-auth";
+import { withPermify } from "../../middleware/permify-context";
+import { tenantMiddleware } from "../../middleware/tenant";
+import * as handlers from "./device-telemetry.handlers";
+import * as routes from "./device-telemetry.routes";
+
+// Devices authenticate with their enrollment credential, users through Keycloak
+function deviceAuthMiddleware(c: Context, next: Next) {
+  return deviceOrUserAuth()(c, next);
+}
+
+// Tenant middleware wrapper
+function tenantAuthMiddleware(c: Context, next: Next) {
+  return tenantMiddleware()(c, next);
+}
+
+// Reading and reporting telemetry both follow device.monitor
+const deviceMonitorMiddleware = withPermify(helpers => helpers.requireDeviceAccess("monitor"));
+
+const router = createRouter();
+router.use("/tenants/:tenantId/sites/:siteId/devices/:deviceId/telemetry", deviceAuthMiddleware);
+router.use("/tenants/:tenantId/sites/:siteId/devices/:deviceId/telemetry", tenantAuthMiddleware);
+router.use("/tenants/:tenantId/sites/:siteId/devices/:deviceId/telemetry", deviceMonitorMiddleware);
+router.openapi(routes.ingest, handlers.ingest);
+router.openapi(routes.query, handlers.query);
+
+export default router;
@@ -0,0 +1,115 @@
+import { createRoute, z } from "@hono/zod-openapi";
+import * as HttpStatusCodes from "stoker/http-status-codes";
+import { jsonContent, jsonContentRequired } from "stoker/openapi/helpers";
+import { createErrorSchema } from "stoker/openapi/schemas";
+
+import { insertTelemetryPointSchema, selectTelemetryAggregateSchema, selectTelemetryPointSchema } from "../../db/schema";
+import { notFoundSchema } from "../../lib/constants";
+import { MAX_TELEMETRY_BATCH, parseBucket } from "../../lib/telemetry";
+
+const tags = ["Device Telemetry"];
+
+const deviceParamsSchema = z.object({
+  tenantId: z.string(),
+  siteId: z.string().uuid(),
+  deviceId: z.string().uuid(),
+});
+
+const ingestTelemetryBodySchema = z.object({
+  points: z.array(insertTelemetryPointSchema)
+    .min(1)
+    .max(MAX_TELEMETRY_BATCH),
+});
+
+const queryTelemetryQuerySchema = z.object({
+  metric: z.string()
+    .max(100)
+    .optional()
+    .openapi({ description: "Only return this metric" }),
+  from: z.string()
+    .datetime({ offset: true })
+    .optional()
+    .openapi({ description: "Start of the range, inclusive. Defaults to 24 hours before to" }),
+  to: z.string()
+    .datetime({ offset: true })
+    .optional()
+    .openapi({ description: "End of the range, exclusive. Defaults to now" }),
+  bucket: z.string()
+    .refine(value => parseBucket(value) !== null, "Expected a width such as 30s, 5m, 1h or 1d")
+    .optional()
+    .openapi({ description: "Downsample into min/max/avg per bucket of this width", example: "5m" }),
+});
+
+const telemetryRangeSchema = z.object({
+  from: z.date(),
+  to: z.date(),
+});
+
+const telemetryResponseSchema = z.union([
+  telemetryRangeSchema.extend({
+    mode: z.literal("raw"),
+    points: z.array(selectTelemetryPointSchema),
+    truncated: z.boolean(),
+  }),
+  telemetryRangeSchema.extend({
+    mode: z.literal("aggregate"),
+    bucket: z.string(),
+    aggregates: z.array(selectTelemetryAggregateSchema),
+  }),
+]);
+
+export const ingest = createRoute({
+  path: "/tenants/{tenantId}/sites/{siteId}/devices/{deviceId}/telemetry",
+  method: "post",
+  request: {
+    params: deviceParamsSchema,
+    body: jsonContentRequired(
+      ingestTelemetryBodySchema,
+      "A batch of readings; recordedAt defaults to the time of the request",
+    ),
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.CREATED]: jsonContent(
+      z.object({ inserted: z.number() }),
+      "The number of readings stored",
+    ),
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      notFoundSchema,
+      "Device not found",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(ingestTelemetryBodySchema)
+        .or(createErrorSchema(deviceParamsSchema)),
+      "The validation error(s)",
+    ),
+  },
+});
+
+export const query = createRoute({
+  path: "/tenants/{tenantId}/sites/{siteId}/devices/{deviceId}/telemetry",
+  method: "get",
+  request: {
+    params: deviceParamsSchema,
+    query: queryTelemetryQuerySchema,
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(
+      telemetryResponseSchema,
+      "Raw readings oldest first, or per-bucket aggregates when bucket is given",
+    ),
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      notFoundSchema,
+      "Device not found",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(queryTelemetryQuerySchema)
+        .or(createErrorSchema(deviceParamsSchema)),
+      "Invalid query parameters",
+    ),
+  },
+});
+
+export type IngestRoute = typeof ingest;
+export type QueryRoute = typeof query;
@@ -0,0 +1,474 @@
+import type { SQL } from "drizzle-orm";
+
+import { and, asc, desc, eq } from "drizzle-orm";
+import { HTTPException } from "hono/http-exception";
+import * as HttpStatusCodes from "stoker/http-status-codes";
+import * as HttpStatusPhrases from "stoker/http-status-phrases";
+import { ZodIssueCode } from "zod";
+
+import type { AppRouteHandler } from "../../lib/types";
+import type {
+  CreateRoute,
+  GetOneRoute,
+  HeartbeatRoute,
+  ListRoute,
+  MovementsRoute,
+  MoveRoute,
+  PatchRoute,
+  RemoveRoute,
+  StatusHistoryRoute,
+} from "./devices.routes";
+
+import { db } from "../../db";
+import { auditLogs, devices, deviceSiteMovements, deviceStatusHistory, tasks } from "../../db/schema";
+import { getAuditContext } from "../../lib/audit";
+import { ZOD_ERROR_CODES, ZOD_ERROR_MESSAGES } from "../../lib/constants";
+import { findDeviceMetadataIssues, metadataValidationError } from "../../lib/device-metadata";
+import { statusAfterHeartbeat } from "../../lib/device-status";
+import { recordDeviceStatusChanges } from "../../lib/device-status-history";
+import { assertSerialNumberAvailable, withSerialNumberConflict } from "../../lib/devices";
+import { syncMaintenanceTasks } from "../../lib/maintenance-task-sync";
+import { findOpenTasks } from "../../lib/tasks";
+import { deviceInTenantSite, findTenantSite } from "../../lib/tenant-scope";
+import { checkPermissionInHandler } from "../../middleware/permify";
+import { getPermifyService, getPermifySync } from "../../middleware/permify-context";
+import { getTenant } from "../../middleware/tenant";
+
+export const list: AppRouteHandler<ListRoute> = async (c) => {
+  const { siteId } = c.req.valid("param");
+  const { type, status } = c.req.valid("query");
+  const tenant = getTenant(c);
+
+  const site = await findTenantSite(tenant.id, siteId);
+  if (!site) {
+    return c.json(
+      {
+        message: HttpStatusPhrases.NOT_FOUND,
+      },
+      HttpStatusCodes.NOT_FOUND,
+    );
+  }
+
+  const conditions: SQL[] = [eq(devices.siteId, site.id)];
+  if (type) {
+    conditions.push(eq(devices.type, type));
+  }
+  if (status) {
+    conditions.push(eq(devices.status, status));
+  }
+
+  const siteDevices = await db.select()
+    .from(devices)
+    .where(and(...conditions))
+    .orderBy(asc(devices.name));
+
+  return c.json(siteDevices, HttpStatusCodes.OK);
+};
+
+export const create: AppRouteHandler<CreateRoute> = async (c) => {
+  const { siteId } = c.req.valid("param");
+  const device = c.req.valid("json");
+  const tenant = getTenant(c);
+  const permifySync = getPermifySync(c);
+
+  const site = await findTenantSite(tenant.id, siteId);
+  if (!site) {
+    return c.json(
+      {
+        message: HttpStatusPhrases.NOT_FOUND,
+      },
+      HttpStatusCodes.NOT_FOUND,
+    );
+  }
+
+  const metadataIssues = await findDeviceMetadataIssues(tenant.id, device.type, device.metadata);
+  if (metadataIssues.length > 0) {
+    return c.json(metadataValidationError(metadataIssues), HttpStatusCodes.UNPROCESSABLE_ENTITY);
+  }
+
+  if (device.serialNumber) {
+    await assertSerialNumberAvailable(device.serialNumber);
+  }
+
+  // Roll back the insert if the device#site relation cannot be written
+  const inserted = await withSerialNumberConflict(() => db.transaction(async (tx) => {
+    const [created] = await tx.insert(devices).values({
+      ...device,
+      siteId: site.id,
+    }).returning();
+
+    await recordDeviceStatusChanges(
+      tx,
+      [{ deviceId: created.id, fromStatus: null, toStatus: created.status }],
+      "manual",
+      c.get("userId"),
+    );
+    await permifySync?.syncDeviceCreated(created.id, site.id);
+
+    return created;
+  }));
+
+  return c.json(inserted, HttpStatusCodes.CREATED);
+};
+
+export const getOne: AppRouteHandler<GetOneRoute> = async (c) => {
+  const { siteId, deviceId } = c.req.valid("param");
+  const tenant = getTenant(c);
+
+  const device = await db.query.devices.findFirst({
+    where: deviceInTenantSite(tenant.id, siteId, deviceId),
+  });
+
+  if (!device) {
+    return c.json(
+      {
+        message: HttpStatusPhrases.NOT_FOUND,
+      },
+      HttpStatusCodes.NOT_FOUND,
+    );
+  }
+
+  const openTasks = await findOpenTasks(eq(tasks.deviceId, device.id));
+
+  return c.json({ ...device, openTasks }, HttpStatusCodes.OK);
+};
+
+export const patch: AppRouteHandler<PatchRoute> = async (c) => {
+  const { siteId, deviceId } = c.req.valid("param");
+  const updates = c.req.valid("json");
+  const tenant = getTenant(c);
+
+  if (Object.keys(updates).length === 0) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          issues: [
+            {
+              code: ZOD_ERROR_CODES.INVALID_UPDATES,
+              path: [],
+              message: ZOD_ERROR_MESSAGES.NO_UPDATES,
+            },
+          ],
+          name: "ZodError",
+        },
+      },
+      HttpStatusCodes.UNPROCESSABLE_ENTITY,
+    );
+  }
+
+  // Changing the type re-checks the stored metadata against the new type's schema
+  if (updates.type || updates.metadata) {
+    const existing = await db.query.devices.findFirst({
+      columns: { type: true, metadata: true },
+      where: deviceInTenantSite(tenant.id, siteId, deviceId),
+    });
+
+    if (existing) {
+      const metadataIssues = await findDeviceMetadataIssues(
+        tenant.id,
+        updates.type ?? existing.type,
+        updates.metadata ?? existing.metadata,
+      );
+      if (metadataIssues.length > 0) {
+        return c.json(metadataValidationError(metadataIssues), HttpStatusCodes.UNPROCESSABLE_ENTITY);
+      }
+    }
+  }
+
+  if (updates.serialNumber) {
+    await assertSerialNumberAvailable(updates.serialNumber, deviceId);
+  }
+
+  const device = await withSerialNumberConflict(() => db.transaction(async (tx) => {
+    const [current] = await tx.select({ status: devices.status })
+      .from(devices)
+      .where(deviceInTenantSite(tenant.id, siteId, deviceId))
+      .for("update");
+
+    if (!current) {
+      return null;
+    }
+
+    const [updated] = await tx.update(devices)
+      .set({
+        ...updates,
+        updatedAt: new Date(),
+      })
+      .where(eq(devices.id, deviceId))
+      .returning();
+
+    await recordDeviceStatusChanges(
+      tx,
+      [{ deviceId, fromStatus: current.status, toStatus: updated.status }],
+      "manual",
+      c.get("userId"),
+    );
+    if (updated.status !== current.status) {
+      await syncMaintenanceTasks(tx, [deviceId], getPermifySync(c));
+    }
+
+    return updated;
+  }));
+
+  if (!device) {
+    return c.json(
+      {
+        message: HttpStatusPhrases.NOT_FOUND,
+      },
+      HttpStatusCodes.NOT_FOUND,
+    );
+  }
+
+  return c.json(device, HttpStatusCodes.OK);
+};
+
+export const remove: AppRouteHandler<RemoveRoute> = async (c) => {
+  const { siteId, deviceId } = c.req.valid("param");
+  const tenant = getTenant(c);
+
+  const [deleted] = await db.delete(devices)
+    .where(deviceInTenantSite(tenant.id, siteId, deviceId))
+    .returning();
+
+  if (!deleted) {
+    return c.json(
+      {
+        message: HttpStatusPhrases.NOT_FOUND,
+      },
+      HttpStatusCodes.NOT_FOUND,
+    );
+  }
+
+  return c.body(null, HttpStatusCodes.NO_CONTENT);
+};
+
+export const heartbeat: AppRouteHandler<HeartbeatRoute> = async (c) => {
+  const { siteId, deviceId } = c.req.valid("param");
+  const { status, firmwareVersion } = c.req.valid("json");
+  const tenant = getTenant(c);
+
+  const device = await db.transaction(async (tx) => {
+    const [current] = await tx.select({ status: devices.status })
+      .from(devices)
+      .where(deviceInTenantSite(tenant.id, siteId, deviceId))
+      .for("update");
+
+    if (!current) {
+      return null;
+    }
+
+    const now = new Date();
+    const [updated] = await tx.update(devices)
+      .set({
+        status: statusAfterHeartbeat(current.status, status),
+        lastSeenAt: now,
+        ...(firmwareVersion ? { firmwareVersion } : {}),
+        updatedAt: now,
+      })
+      .where(eq(devices.id, deviceId))
+      .returning();
+
+    await recordDeviceStatusChanges(
+      tx,
+      [{ deviceId, fromStatus: current.status, toStatus: updated.status }],
+      "heartbeat",
+    );
+    if (updated.status !== current.status) {
+      await syncMaintenanceTasks(tx, [deviceId], getPermifySync(c), now);
+    }
+
+    return updated;
+  });
+
+  if (!device) {
+    return c.json(
+      {
+        message: HttpStatusPhrases.NOT_FOUND,
+      },
+      HttpStatusCodes.NOT_FOUND,
+    );
+  }
+
+  return c.json(device, HttpStatusCodes.OK);
+};
+
+export const statusHistory: AppRouteHandler<StatusHistoryRoute> = async (c) => {
+  const { siteId, deviceId } = c.req.valid("param");
+  const { limit } = c.req.valid("query");
+  const tenant = getTenant(c);
+
+  const device = await db.query.devices.findFirst({
+    columns: { id: true },
+    where: deviceInTenantSite(tenant.id, siteId, deviceId),
+  });
+
+  if (!device) {
+    return c.json(
+      {
+        message: HttpStatusPhrases.NOT_FOUND,
+      },
+      HttpStatusCodes.NOT_FOUND,
+    );
+  }
+
+  const history = await db.select()
+    .from(deviceStatusHistory)
+    .where(eq(deviceStatusHistory.deviceId, device.id))
+    .orderBy(desc(deviceStatusHistory.changedAt))
+    .limit(limit);
+
+  return c.json(history, HttpStatusCodes.OK);
+};
+
+export const move: AppRouteHandler<MoveRoute> = async (c) => {
+  const { siteId, deviceId } = c.req.valid("param");
+  const { siteId: targetSiteId, reason } = c.req.valid("json");
+  const tenant = getTenant(c);
+  const permifyService = getPermifyService(c);
+  const permifySync = getPermifySync(c);
+
+  const targetSite = await findTenantSite(tenant.id, targetSiteId);
+  if (!targetSite || targetSite.id === siteId) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          issues: [
+            {
+              code: ZodIssueCode.custom,
+              path: ["siteId"],
+              message: targetSite ? "Device is already at this site" : "Target site not found",
+            },
+          ],
+          name: "ZodError",
+        },
+      },
+      HttpStatusCodes.UNPROCESSABLE_ENTITY,
+    );
+  }
+
+  if (targetSite.status === "decommissioned") {
+    throw new HTTPException(HttpStatusCodes.CONFLICT, {
+      message: "Cannot move a device to a decommissioned site",
+    });
+  }
+
+  // The source site is checked by the route middleware
+  if (permifyService) {
+    const allowed = await checkPermissionInHandler(
+      c,
+      permifyService,
+      { type: permifyService.EntityTypes.SITE, id: targetSite.id },
+      permifyService.Permissions.MANAGE,
+    );
+
+    if (!allowed) {
+      throw new HTTPException(HttpStatusCodes.FORBIDDEN, {
+        message: "Insufficient permissions to manage the target site",
+      });
+    }
+  }
+
+  // Permify writes made during the move, undone if it rolls back, since Permify is not part of the transaction
+  const revertPermify: (() => Promise<void>)[] = [];
+
+  const device = await db.transaction(async (tx) => {
+    const [current] = await tx.select({ id: devices.id })
+      .from(devices)
+      .where(deviceInTenantSite(tenant.id, siteId, deviceId))
+      .for("update");
+
+    if (!current) {
+      return null;
+    }
+
+    const [moved] = await tx.update(devices)
+      .set({ siteId: targetSite.id, updatedAt: new Date() })
+      .where(eq(devices.id, deviceId))
+      .returning();
+
+    await tx.insert(deviceSiteMovements).values({
+      deviceId,
+      fromSiteId: siteId,
+      toSiteId: targetSite.id,
+      reason,
+      movedBy: c.get("userId") ?? null,
+    });
+
+    await tx.insert(auditLogs).values({
+      ...getAuditContext(c),
+      action: "update",
+      resourceType: "device",
+      resourceId: deviceId,
+      details: { event: "moved", fromSiteId: siteId, toSiteId: targetSite.id, reason },
+    });
+
+    // Tasks on the device follow it, so the new site's managers take them over
+    const movedTasks = await tx.update(tasks)
+      .set({ siteId: targetSite.id, updatedAt: new Date() })
+      .where(eq(tasks.deviceId, deviceId))
+      .returning({ id: tasks.id });
+
+    if (permifySync) {
+      // Queued first, so a write that fails halfway is undone too
+      revertPermify.push(() => permifySync.syncDeviceMoved(deviceId, targetSite.id, siteId));
+      await permifySync.syncDeviceMoved(deviceId, siteId, targetSite.id);
+
+      for (const task of movedTasks) {
+        const previous = { siteId, deviceId };
+        const next = { siteId: targetSite.id, deviceId };
+        revertPermify.push(() => permifySync.syncTaskLinksChanged(String(task.id), next, previous));
+        await permifySync.syncTaskLinksChanged(String(task.id), previous, next);
+      }
+    }
+
+    return moved;
+  }).catch(async (error) => {
+    for (const revert of revertPermify.reverse()) {
+      await revert().catch((revertError) => {
+        c.get("logger").error({ deviceId, err: revertError }, "Failed to revert Permify after a failed device move");
+      });
+    }
+    throw error;
+  });
+
+  if (!device) {
+    return c.json(
+      {
+        message: HttpStatusPhrases.NOT_FOUND,
+      },
+      HttpStatusCodes.NOT_FOUND,
+    );
+  }
+
+  return c.json(device, HttpStatusCodes.OK);
+};
+
+export const movements: AppRouteHandler<MovementsRoute> = async (c) => {
+  const { siteId, deviceId } = c.req.valid("param");
+  const { limit } = c.req.valid("query");
+  const tenant = getTenant(c);
+
+  const device = await db.query.devices.findFirst({
+    columns: { id: true },
+    where: deviceInTenantSite(tenant.id, siteId, deviceId),
+  });
+
+  if (!device) {
+    return c.json(
+      {
+        message: HttpStatusPhrases.NOT_FOUND,
+      },
+      HttpStatusCodes.NOT_FOUND,
+    );
+  }
+
+  const history = await db.select()
+    .from(deviceSiteMovements)
+    .where(eq(deviceSiteMovements.deviceId, device.id))
+    .orderBy(desc(deviceSiteMovements.movedAt))
+    .limit(limit);
+
+  return c.json(history, HttpStatusCodes.OK);
+};
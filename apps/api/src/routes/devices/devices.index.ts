@@ -0,0 +1,69 @@
+import type { Context, Next } from "hono";
+
+import createRouter from "../../lib/create-router";
+import { deviceOrUserAuth } from "../../middleware/device-auth";
+import { keycloakAuth } from "../../middleware/keycloak";
+import { withPermify } from "../../middleware/permify-context";
+import { tenantMiddleware } from "../../middleware/tenant";
+import * as handlers from "./devices.handlers";
+import * as routes from "./devices.routes";
+
+// Auth middleware
+function authMiddleware(c: Context, next: Next) {
+  return keycloakAuth()(c, next);
+}
+
+// Devices authenticate with their enrollment credential, users through Keycloak
+function deviceAuthMiddleware(c: Context, next: Next) {
+  return deviceOrUserAuth()(c, next);
+}
+
+// Tenant middleware wrapper
+function tenantAuthMiddleware(c: Context, next: Next) {
+  return tenantMiddleware()(c, next);
+}
+
+// Listing and adding devices is checked on the site, everything else on the device
+const siteDeviceAccessMiddleware = withPermify(helpers => helpers.requireSiteAccess("device_access"));
+const siteDeviceAdminMiddleware = withPermify(helpers => helpers.requireSiteAccess("device_admin"));
+const deviceAccessMiddleware = withPermify(helpers => helpers.requireDeviceAccess());
+const deviceConfigMiddleware = withPermify(helpers => helpers.requireDeviceConfig());
+// Gateways report heartbeats with an account that can control the device
+const deviceControlMiddleware = withPermify(helpers => helpers.requireDeviceAccess("control"));
+const deviceLogsMiddleware = withPermify(helpers => helpers.requireDeviceAccess("view_logs"));
+// Moving needs site.manage on the source site here and on the target site in the handler
+const siteManageMiddleware = withPermify(helpers => helpers.requireSiteManage());
+
+const router = createRouter();
+router.use("/tenants/:tenantId/sites/:siteId/devices", authMiddleware);
+router.use("/tenants/:tenantId/sites/:siteId/devices", tenantAuthMiddleware);
+router.use("/tenants/:tenantId/sites/:siteId/devices/:deviceId", authMiddleware);
+router.use("/tenants/:tenantId/sites/:siteId/devices/:deviceId", tenantAuthMiddleware);
+router.use("/tenants/:tenantId/sites/:siteId/devices/:deviceId/heartbeat", deviceAuthMiddleware);
+router.use("/tenants/:tenantId/sites/:siteId/devices/:deviceId/heartbeat", tenantAuthMiddleware);
+router.use("/tenants/:tenantId/sites/:siteId/devices/:deviceId/status-history", authMiddleware);
+router.use("/tenants/:tenantId/sites/:siteId/devices/:deviceId/status-history", tenantAuthMiddleware);
+router.on("GET", "/tenants/:tenantId/sites/:siteId/devices", siteDeviceAccessMiddleware);
+router.on("POST", "/tenants/:tenantId/sites/:siteId/devices", siteDeviceAdminMiddleware);
+router.on("GET", "/tenants/:tenantId/sites/:siteId/devices/:deviceId", deviceAccessMiddleware);
+router.on("PATCH", "/tenants/:tenantId/sites/:siteId/devices/:deviceId", deviceConfigMiddleware);
+router.on("DELETE", "/tenants/:tenantId/sites/:siteId/devices/:deviceId", deviceConfigMiddleware);
+router.use("/tenants/:tenantId/sites/:siteId/devices/:deviceId/move", authMiddleware);
+router.use("/tenants/:tenantId/sites/:siteId/devices/:deviceId/move", tenantAuthMiddleware);
+router.use("/tenants/:tenantId/sites/:siteId/devices/:deviceId/movements", authMiddleware);
+router.use("/tenants/:tenantId/sites/:siteId/devices/:deviceId/movements", tenantAuthMiddleware);
+router.on("POST", "/tenants/:tenantId/sites/:siteId/devices/:deviceId/heartbeat", deviceControlMiddleware);
+router.on("GET", "/tenants/:tenantId/sites/:siteId/devices/:deviceId/status-history", deviceLogsMiddleware);
+router.on("POST", "/tenants/:tenantId/sites/:siteId/devices/:deviceId/move", siteManageMiddleware);
+router.on("GET", "/tenants/:tenantId/sites/:siteId/devices/:deviceId/movements", deviceLogsMiddleware);
+router.openapi(routes.list, handlers.list);
+router.openapi(routes.create, handlers.create);
+router.openapi(routes.getOne, handlers.getOne);
+router.openapi(routes.patch, handlers.patch);
+router.openapi(routes.remove, handlers.remove);
+router.openapi(routes.heartbeat, handlers.heartbeat);
+router.openapi(routes.statusHistory, handlers.statusHistory);
+router.openapi(routes.move, handlers.move);
+router.openapi(routes.movements, handlers.movements);
+
+export default router;
@@ -0,0 +1,295 @@
+import { createRoute, z } from "@hono/zod-openapi";
+import * as HttpStatusCodes from "stoker/http-status-codes";
+import { jsonContent, jsonContentRequired } from "stoker/openapi/helpers";
+import { createErrorSchema } from "stoker/openapi/schemas";
+
+import {
+  insertDeviceSchema,
+  moveDeviceSchema,
+  patchDeviceSchema,
+  selectDeviceSchema,
+  selectDeviceSiteMovementSchema,
+  selectDeviceStatusHistorySchema,
+  selectTasksSchema,
+} from "../../db/schema";
+import { notFoundSchema } from "../../lib/constants";
+import { HEARTBEAT_STATUSES } from "../../lib/device-status";
+
+const tags = ["Devices"];
+
+const siteParamsSchema = z.object({
+  tenantId: z.string(),
+  siteId: z.string().uuid(),
+});
+
+const deviceParamsSchema = z.object({
+  tenantId: z.string(),
+  siteId: z.string().uuid(),
+  deviceId: z.string().uuid(),
+});
+
+const listDevicesQuerySchema = z.object({
+  type: selectDeviceSchema.shape.type.optional(),
+  status: selectDeviceSchema.shape.status.optional(),
+});
+
+const deviceDetailSchema = selectDeviceSchema.extend({
+  openTasks: z.array(selectTasksSchema),
+});
+
+// The site comes from the path, so it is not part of the request body
+const createDeviceBodySchema = insertDeviceSchema.omit({ siteId: true });
+const patchDeviceBodySchema = patchDeviceSchema.omit({ siteId: true });
+
+const heartbeatBodySchema = z.object({
+  status: z.enum(HEARTBEAT_STATUSES)
+    .default("online")
+    .openapi({ description: "Health the device reports about itself" }),
+  firmwareVersion: z.string().max(100).optional(),
+});
+
+const historyQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+export const list = createRoute({
+  path: "/tenants/{tenantId}/sites/{siteId}/devices",
+  method: "get",
+  request: {
+    params: siteParamsSchema,
+    query: listDevicesQuerySchema,
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(
+      z.array(selectDeviceSchema),
+      "The devices at the site",
+    ),
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      notFoundSchema,
+      "Site not found",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(listDevicesQuerySchema)
+        .or(createErrorSchema(siteParamsSchema)),
+      "Invalid parameters",
+    ),
+  },
+});
+
+export const create = createRoute({
+  path: "/tenants/{tenantId}/sites/{siteId}/devices",
+  method: "post",
+  request: {
+    params: siteParamsSchema,
+    body: jsonContentRequired(
+      createDeviceBodySchema,
+      "The device to create",
+    ),
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.CREATED]: jsonContent(
+      selectDeviceSchema,
+      "The created device",
+    ),
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      notFoundSchema,
+      "Site not found",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(createDeviceBodySchema)
+        .or(createErrorSchema(siteParamsSchema)),
+      "The validation error(s)",
+    ),
+  },
+});
+
+export const getOne = createRoute({
+  path: "/tenants/{tenantId}/sites/{siteId}/devices/{deviceId}",
+  method: "get",
+  request: {
+    params: deviceParamsSchema,
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(
+      deviceDetailSchema,
+      "The requested device and its open tasks",
+    ),
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      notFoundSchema,
+      "Device not found",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(deviceParamsSchema),
+      "Invalid parameters",
+    ),
+  },
+});
+
+export const patch = createRoute({
+  path: "/tenants/{tenantId}/sites/{siteId}/devices/{deviceId}",
+  method: "patch",
+  request: {
+    params: deviceParamsSchema,
+    body: jsonContentRequired(
+      patchDeviceBodySchema,
+      "The device updates",
+    ),
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(
+      selectDeviceSchema,
+      "The updated device",
+    ),
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      notFoundSchema,
+      "Device not found",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(patchDeviceBodySchema)
+        .or(createErrorSchema(deviceParamsSchema)),
+      "The validation error(s)",
+    ),
+  },
+});
+
+export const remove = createRoute({
+  path: "/tenants/{tenantId}/sites/{siteId}/devices/{deviceId}",
+  method: "delete",
+  request: {
+    params: deviceParamsSchema,
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.NO_CONTENT]: {
+      description: "Device deleted",
+    },
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      notFoundSchema,
+      "Device not found",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(deviceParamsSchema),
+      "Invalid parameters",
+    ),
+  },
+});
+
+export const heartbeat = createRoute({
+  path: "/tenants/{tenantId}/sites/{siteId}/devices/{deviceId}/heartbeat",
+  method: "post",
+  request: {
+    params: deviceParamsSchema,
+    body: jsonContentRequired(
+      heartbeatBodySchema,
+      "The device's reported health and firmware",
+    ),
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(
+      selectDeviceSchema,
+      "The device after the heartbeat",
+    ),
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      notFoundSchema,
+      "Device not found",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(heartbeatBodySchema)
+        .or(createErrorSchema(deviceParamsSchema)),
+      "The validation error(s)",
+    ),
+  },
+});
+
+export const statusHistory = createRoute({
+  path: "/tenants/{tenantId}/sites/{siteId}/devices/{deviceId}/status-history",
+  method: "get",
+  request: {
+    params: deviceParamsSchema,
+    query: historyQuerySchema,
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(
+      z.array(selectDeviceStatusHistorySchema),
+      "The device's status changes, newest first",
+    ),
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      notFoundSchema,
+      "Device not found",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(historyQuerySchema)
+        .or(createErrorSchema(deviceParamsSchema)),
+      "Invalid parameters",
+    ),
+  },
+});
+
+export const move = createRoute({
+  path: "/tenants/{tenantId}/sites/{siteId}/devices/{deviceId}/move",
+  method: "post",
+  request: {
+    params: deviceParamsSchema,
+    body: jsonContentRequired(
+      moveDeviceSchema,
+      "The site to move the device to",
+    ),
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(
+      selectDeviceSchema,
+      "The device at its new site",
+    ),
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      notFoundSchema,
+      "Device not found",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(moveDeviceSchema)
+        .or(createErrorSchema(deviceParamsSchema)),
+      "The validation error(s)",
+    ),
+  },
+});
+
+export const movements = createRoute({
+  path: "/tenants/{tenantId}/sites/{siteId}/devices/{deviceId}/movements",
+  method: "get",
+  request: {
+    params: deviceParamsSchema,
+    query: historyQuerySchema,
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(
+      z.array(selectDeviceSiteMovementSchema),
+      "The sites the device has moved between, newest first",
+    ),
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      notFoundSchema,
+      "Device not found",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(historyQuerySchema)
+        .or(createErrorSchema(deviceParamsSchema)),
+      "Invalid parameters",
+    ),
+  },
+});
+
+export type ListRoute = typeof list;
+export type CreateRoute = typeof create;
+export type GetOneRoute = typeof getOne;
+export type PatchRoute = typeof patch;
+export type RemoveRoute = typeof remove;
+export type HeartbeatRoute = typeof heartbeat;
+export type StatusHistoryRoute = typeof statusHistory;
+export type MoveRoute = typeof move;
+export type MovementsRoute = typeof movements;
@@ -0,0 +1,257 @@
+import { and, desc, eq, gt, isNull, lt, sql } from "drizzle-orm";
+import { HTTPException } from "hono/http-exception";
+import * as HttpStatusCodes from "stoker/http-status-codes";
+import * as HttpStatusPhrases from "stoker/http-status-phrases";
+
+import type { AppRouteHandler } from "../../lib/types";
+import type { CreateRoute, EnrollRoute, ListRoute, RevokeRoute } from "./enrollment-tokens.routes";
+
+import { db } from "../../db";
+import { auditLogs, deviceCredentials, devices, enrollmentTokens, users, userTenantAssociations } from "../../db/schema";
+import { getAuditContext } from "../../lib/audit";
+import { DEVICE_SECRET_PREFIX, ENROLLMENT_TOKEN_PREFIX, enrollmentTokenRejection, generateSecret, hashSecret } from "../../lib/device-credentials";
+import { findDeviceMetadataIssues, metadataValidationError } from "../../lib/device-metadata";
+import { recordDeviceStatusChanges } from "../../lib/device-status-history";
+import { assertSerialNumberAvailable, withSerialNumberConflict } from "../../lib/devices";
+import { findTenantSite } from "../../lib/tenant-scope";
+import { getPermifySync } from "../../middleware/permify-context";
+import { getTenant } from "../../middleware/tenant";
+
+const TOKEN_PREFIX_LENGTH = 12;
+
+export const list: AppRouteHandler<ListRoute> = async (c) => {
+  const { siteId } = c.req.valid("param");
+  const tenant = getTenant(c);
+
+  const site = await findTenantSite(tenant.id, siteId);
+  if (!site) {
+    return c.json(
+      {
+        message: HttpStatusPhrases.NOT_FOUND,
+      },
+      HttpStatusCodes.NOT_FOUND,
+    );
+  }
+
+  const tokens = await db.select({
+    id: enrollmentTokens.id,
+    tenantId: enrollmentTokens.tenantId,
+    siteId: enrollmentTokens.siteId,
+    name: enrollmentTokens.name,
+    tokenPrefix: enrollmentTokens.tokenPrefix,
+    maxUses: enrollmentTokens.maxUses,
+    useCount: enrollmentTokens.useCount,
+    expiresAt: enrollmentTokens.expiresAt,
+    revokedAt: enrollmentTokens.revokedAt,
+    createdBy: enrollmentTokens.createdBy,
+    createdAt: enrollmentTokens.createdAt,
+  })
+    .from(enrollmentTokens)
+    .where(eq(enrollmentTokens.siteId, site.id))
+    .orderBy(desc(enrollmentTokens.createdAt));
+
+  return c.json(tokens, HttpStatusCodes.OK);
+};
+
+export const create: AppRouteHandler<CreateRoute> = async (c) => {
+  const { siteId } = c.req.valid("param");
+  const { name, maxUses, expiresInHours } = c.req.valid("json");
+  const tenant = getTenant(c);
+
+  const site = await findTenantSite(tenant.id, siteId);
+  if (!site) {
+    return c.json(
+      {
+        message: HttpStatusPhrases.NOT_FOUND,
+      },
+      HttpStatusCodes.NOT_FOUND,
+    );
+  }
+
+  const token = generateSecret(ENROLLMENT_TOKEN_PREFIX);
+
+  const created = await db.transaction(async (tx) => {
+    const [{ tokenHash: _tokenHash, ...saved }] = await tx.insert(enrollmentTokens)
+      .values({
+        tenantId: tenant.id,
+        siteId: site.id,
+        name,
+        tokenHash: hashSecret(token),
+        tokenPrefix: token.slice(0, TOKEN_PREFIX_LENGTH),
+        maxUses,
+        expiresAt: new Date(Date.now() + expiresInHours * 60 * 60 * 1000),
+        createdBy: c.get("userId") ?? null,
+      })
+      .returning();
+
+    await tx.insert(auditLogs).values({
+      ...getAuditContext(c),
+      action: "create",
+      resourceType: "configuration",
+      resourceId: saved.id,
+      details: { enrollmentToken: saved.name, siteId: site.id, maxUses, expiresAt: saved.expiresAt },
+    });
+
+    return saved;
+  });
+
+  return c.json({ ...created, token }, HttpStatusCodes.CREATED);
+};
+
+export const revoke: AppRouteHandler<RevokeRoute> = async (c) => {
+  const { siteId, tokenId } = c.req.valid("param");
+  const tenant = getTenant(c);
+
+  const revoked = await db.transaction(async (tx) => {
+    const [updated] = await tx.update(enrollmentTokens)
+      .set({ revokedAt: sql`coalesce(${enrollmentTokens.revokedAt}, now())` })
+      .where(and(
+        eq(enrollmentTokens.id, tokenId),
+        eq(enrollmentTokens.siteId, siteId),
+        eq(enrollmentTokens.tenantId, tenant.id),
+      ))
+      .returning();
+
+    if (!updated) {
+      return null;
+    }
+
+    await tx.insert(auditLogs).values({
+      ...getAuditContext(c),
+      action: "deactivate",
+      resourceType: "configuration",
+      resourceId: updated.id,
+      details: { enrollmentToken: updated.name, siteId },
+    });
+
+    return updated;
+  });
+
+  if (!revoked) {
+    return c.json(
+      {
+        message: HttpStatusPhrases.NOT_FOUND,
+      },
+      HttpStatusCodes.NOT_FOUND,
+    );
+  }
+
+  const { tokenHash: _tokenHash, ...token } = revoked;
+  return c.json(token, HttpStatusCodes.OK);
+};
+
+export const enroll: AppRouteHandler<EnrollRoute> = async (c) => {
+  const { token: presented, device } = c.req.valid("json");
+  const permifySync = getPermifySync(c);
+
+  const token = await db.query.enrollmentTokens.findFirst({
+    where: eq(enrollmentTokens.tokenHash, hashSecret(presented)),
+  });
+
+  if (!token) {
+    throw new HTTPException(HttpStatusCodes.UNAUTHORIZED, { message: "Invalid enrollment token" });
+  }
+
+  const rejection = enrollmentTokenRejection(token);
+  if (rejection) {
+    await db.insert(auditLogs).values({
+      ...getAuditContext(c),
+      tenantId: token.tenantId,
+      action: "create",
+      resourceType: "device",
+      details: { event: "enrolled", enrollmentTokenId: token.id, siteId: token.siteId },
+      success: false,
+      errorMessage: rejection,
+    });
+    throw new HTTPException(HttpStatusCodes.UNAUTHORIZED, { message: rejection });
+  }
+
+  // Issues are reported against the request body, where metadata sits under device
+  const metadataIssues = await findDeviceMetadataIssues(token.tenantId, device.type, device.metadata);
+  if (metadataIssues.length > 0) {
+    return c.json(
+      metadataValidationError(metadataIssues.map(issue => ({ ...issue, path: ["device", ...issue.path] }))),
+      HttpStatusCodes.UNPROCESSABLE_ENTITY,
+    );
+  }
+
+  if (device.serialNumber) {
+    await assertSerialNumberAvailable(device.serialNumber);
+  }
+
+  const secret = generateSecret(DEVICE_SECRET_PREFIX);
+
+  const enrolled = await withSerialNumberConflict(() => db.transaction(async (tx) => {
+    // Consuming the token in one statement keeps concurrent enrollments within maxUses
+    const [consumed] = await tx.update(enrollmentTokens)
+      .set({ useCount: sql`${enrollmentTokens.useCount} + 1` })
+      .where(and(
+        eq(enrollmentTokens.id, token.id),
+        isNull(enrollmentTokens.revokedAt),
+        gt(enrollmentTokens.expiresAt, new Date()),
+        lt(enrollmentTokens.useCount, enrollmentTokens.maxUses),
+      ))
+      .returning({ id: enrollmentTokens.id });
+
+    if (!consumed) {
+      throw new HTTPException(HttpStatusCodes.UNAUTHORIZED, { message: "Enrollment token is no longer valid" });
+    }
+
+    const [created] = await tx.insert(devices).values({
+      ...device,
+      siteId: token.siteId,
+    }).returning();
+
+    // The device reports as its own service account, a plain member of the tenant
+    const [account] = await tx.insert(users).values({
+      keycloakId: `device:${created.id}`,
+      email: `device-${created.id}@devices.invalid`,
+      name: created.name,
+      createdBy: token.createdBy,
+      userType: "service_account",
+      metadata: { deviceId: created.id },
+    }).returning();
+
+    await tx.insert(userTenantAssociations).values({
+      userId: account.id,
+      tenantId: token.tenantId,
+      role: "member",
+      status: "active",
+      invitedBy: token.createdBy,
+      acceptedAt: new Date(),
+    });
+
+    await tx.insert(deviceCredentials).values({
+      deviceId: created.id,
+      userId: account.id,
+      secretHash: hashSecret(secret),
+      enrollmentTokenId: token.id,
+    });
+
+    await recordDeviceStatusChanges(
+      tx,
+      [{ deviceId: created.id, fromStatus: null, toStatus: created.status }],
+      "enrollment",
+      account.id,
+    );
+
+    await tx.insert(auditLogs).values({
+      ...getAuditContext(c),
+      userId: account.id,
+      tenantId: token.tenantId,
+      action: "create",
+      resourceType: "device",
+      resourceId: created.id,
+      details: { event: "enrolled", enrollmentTokenId: token.id, siteId: token.siteId },
+    });
+
+    await permifySync?.syncDeviceEnrolled(created.id, token.siteId, account.id);
+
+    return { device: created, userId: account.id };
+  }));
+
+  return c.json({
+    device: enrolled.device,
+    credential: { userId: enrolled.userId, secret },
+  }, HttpStatusCodes.CREATED);
+};
@@ -0,0 +1,35 @@
+import type { Context, Next } from "hono";
+
+import createRouter from "../../lib/create-router";
+import { keycloakAuth } from "../../middleware/keycloak";
+import { withPermify } from "../../middleware/permify-context";
+import { tenantMiddleware } from "../../middleware/tenant";
+import * as handlers from "./enrollment-tokens.handlers";
+import * as routes from "./enrollment-tokens.routes";
+
+// Auth middleware
+function authMiddleware(c: Context, next: Next) {
+  return keycloakAuth()(c, next);
+}
+
+// Tenant middleware wrapper
+function tenantAuthMiddleware(c: Context, next: Next) {
+  return tenantMiddleware()(c, next);
+}
+
+// Tokens are managed by tenant admins; enrolling is authenticated by the token itself
+const tenantAdminMiddleware = withPermify(helpers => helpers.requireTenantAdmin());
+
+const router = createRouter();
+router.use("/tenants/:tenantId/sites/:siteId/enrollment-tokens", authMiddleware);
+router.use("/tenants/:tenantId/sites/:siteId/enrollment-tokens", tenantAuthMiddleware);
+router.use("/tenants/:tenantId/sites/:siteId/enrollment-tokens", tenantAdminMiddleware);
+router.use("/tenants/:tenantId/sites/:siteId/enrollment-tokens/:tokenId/revoke", authMiddleware);
+router.use("/tenants/:tenantId/sites/:siteId/enrollment-tokens/:tokenId/revoke", tenantAuthMiddleware);
+router.use("/tenants/:tenantId/sites/:siteId/enrollment-tokens/:tokenId/revoke", tenantAdminMiddleware);
+router.openapi(routes.list, handlers.list);
+router.openapi(routes.create, handlers.create);
+router.openapi(routes.revoke, handlers.revoke);
+router.openapi(routes.enroll, handlers.enroll);
+
+export default router;
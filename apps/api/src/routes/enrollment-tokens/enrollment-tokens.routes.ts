@@ -0,0 +1,134 @@
+import { createRoute, z } from "@hono/zod-openapi";
+import * as HttpStatusCodes from "stoker/http-status-codes";
+import { jsonContent, jsonContentRequired } from "stoker/openapi/helpers";
+import { createErrorSchema } from "stoker/openapi/schemas";
+
+import { enrollDeviceSchema, insertEnrollmentTokenSchema, selectDeviceSchema, selectEnrollmentTokenSchema } from "../../db/schema";
+import { notFoundSchema } from "../../lib/constants";
+
+const tags = ["Enrollment"];
+
+const siteParamsSchema = z.object({
+  tenantId: z.string(),
+  siteId: z.string().uuid(),
+});
+
+const tokenParamsSchema = z.object({
+  tenantId: z.string(),
+  siteId: z.string().uuid(),
+  tokenId: z.string().uuid(),
+});
+
+// The token itself is only returned here; afterwards only its prefix is known
+const createdEnrollmentTokenSchema = selectEnrollmentTokenSchema.extend({
+  token: z.string(),
+});
+
+const enrollmentSchema = z.object({
+  device: selectDeviceSchema,
+  credential: z.object({
+    userId: z.string(),
+    secret: z.string().openapi({ description: "Bearer token the device authenticates with. Shown once." }),
+  }),
+});
+
+export const list = createRoute({
+  path: "/tenants/{tenantId}/sites/{siteId}/enrollment-tokens",
+  method: "get",
+  request: {
+    params: siteParamsSchema,
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(
+      z.array(selectEnrollmentTokenSchema),
+      "The site's enrollment tokens",
+    ),
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      notFoundSchema,
+      "Site not found",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(siteParamsSchema),
+      "Invalid parameters",
+    ),
+  },
+});
+
+export const create = createRoute({
+  path: "/tenants/{tenantId}/sites/{siteId}/enrollment-tokens",
+  method: "post",
+  request: {
+    params: siteParamsSchema,
+    body: jsonContentRequired(
+      insertEnrollmentTokenSchema,
+      "The enrollment token to create",
+    ),
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.CREATED]: jsonContent(
+      createdEnrollmentTokenSchema,
+      "The created enrollment token",
+    ),
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      notFoundSchema,
+      "Site not found",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(insertEnrollmentTokenSchema)
+        .or(createErrorSchema(siteParamsSchema)),
+      "The validation error(s)",
+    ),
+  },
+});
+
+export const revoke = createRoute({
+  path: "/tenants/{tenantId}/sites/{siteId}/enrollment-tokens/{tokenId}/revoke",
+  method: "post",
+  request: {
+    params: tokenParamsSchema,
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(
+      selectEnrollmentTokenSchema,
+      "The revoked enrollment token",
+    ),
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      notFoundSchema,
+      "Enrollment token not found",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(tokenParamsSchema),
+      "Invalid parameters",
+    ),
+  },
+});
+
+export const enroll = createRoute({
+  path: "/enrollments",
+  method: "post",
+  request: {
+    body: jsonContentRequired(
+      enrollDeviceSchema,
+      "The enrollment token and the device it registers",
+    ),
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.CREATED]: jsonContent(
+      enrollmentSchema,
+      "The enrolled device and its credential",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(enrollDeviceSchema),
+      "The validation error(s)",
+    ),
+  },
+});
+
+export type ListRoute = typeof list;
+export type CreateRoute = typeof create;
+export type RevokeRoute = typeof revoke;
+export type EnrollRoute = typeof enroll;
@@ -0,0 +1,219 @@
+import type { SQL } from "drizzle-orm";
+
+import { and, asc, desc, eq, inArray, isNull, ne, or } from "drizzle-orm";
+import { HTTPException } from "hono/http-exception";
+import * as HttpStatusCodes from "stoker/http-status-codes";
+import * as HttpStatusPhrases from "stoker/http-status-phrases";
+import { ZodIssueCode } from "zod";
+
+import type { AppRouteHandler } from "../../lib/types";
+import type { CancelRoute, CreateRoute, GetOneRoute, ListRoute } from "./firmware-campaigns.routes";
+
+import { db } from "../../db";
+import { auditLogs, devices, firmwareCampaignDevices, firmwareCampaigns, sites } from "../../db/schema";
+import { getAuditContext } from "../../lib/audit";
+import { DEVICE_COMMAND_PERMISSIONS } from "../../lib/device-commands";
+import { advanceFirmwareCampaign, getCampaignProgress } from "../../lib/firmware-campaign-rollout";
+import { assignWaves } from "../../lib/firmware-campaigns";
+import { lookupPermittedIdsInHandler } from "../../middleware/permify";
+import { getPermifyService } from "../../middleware/permify-context";
+import { getTenant } from "../../middleware/tenant";
+
+export const list: AppRouteHandler<ListRoute> = async (c) => {
+  const { status } = c.req.valid("query");
+  const tenant = getTenant(c);
+
+  const conditions: SQL[] = [eq(firmwareCampaigns.tenantId, tenant.id)];
+  if (status) {
+    conditions.push(eq(firmwareCampaigns.status, status));
+  }
+
+  const campaigns = await db.select()
+    .from(firmwareCampaigns)
+    .where(and(...conditions))
+    .orderBy(desc(firmwareCampaigns.createdAt));
+
+  return c.json(campaigns, HttpStatusCodes.OK);
+};
+
+export const create: AppRouteHandler<CreateRoute> = async (c) => {
+  const campaign = c.req.valid("json");
+  const tenant = getTenant(c);
+  const permifyService = getPermifyService(c);
+  const { target } = campaign;
+
+  // Active devices in the tenant's sites that are not already on this firmware
+  const conditions: SQL[] = [
+    eq(sites.tenantId, tenant.id),
+    eq(devices.isActive, true),
+    ne(devices.status, "decommissioned"),
+    or(isNull(devices.firmwareVersion), ne(devices.firmwareVersion, campaign.firmwareVersion))!,
+  ];
+  if (target.model) {
+    conditions.push(eq(devices.model, target.model));
+  }
+  if (target.manufacturer) {
+    conditions.push(eq(devices.manufacturer, target.manufacturer));
+  }
+  if (target.type) {
+    conditions.push(eq(devices.type, target.type));
+  }
+  if (target.siteIds) {
+    conditions.push(inArray(devices.siteId, target.siteIds));
+  }
+
+  const targeted = await db.select({ id: devices.id })
+    .from(devices)
+    .innerJoin(sites, eq(devices.siteId, sites.id))
+    .where(and(...conditions))
+    .orderBy(asc(devices.id));
+
+  if (targeted.length === 0) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          issues: [
+            {
+              code: ZodIssueCode.custom,
+              path: ["target"],
+              message: "No devices need this firmware",
+            },
+          ],
+          name: "ZodError",
+        },
+      },
+      HttpStatusCodes.UNPROCESSABLE_ENTITY,
+    );
+  }
+
+  // A campaign may only touch devices the caller could update one by one
+  if (permifyService) {
+    // One lookup over the targeted devices rather than a check per device
+    const allowed = await lookupPermittedIdsInHandler(
+      c,
+      permifyService,
+      permifyService.EntityTypes.DEVICE,
+      DEVICE_COMMAND_PERMISSIONS.firmware_update,
+      targeted.map(device => device.id),
+    );
+
+    if (new Set(allowed).size < targeted.length) {
+      throw new HTTPException(HttpStatusCodes.FORBIDDEN, {
+        message: "Insufficient permissions to update firmware on every targeted device",
+      });
+    }
+  }
+
+  const started = await db.transaction(async (tx) => {
+    const [created] = await tx.insert(firmwareCampaigns).values({
+      ...campaign,
+      tenantId: tenant.id,
+      createdBy: c.get("userId") ?? null,
+    }).returning();
+
+    const waves = assignWaves(targeted.length, created.waves);
+    await tx.insert(firmwareCampaignDevices).values(targeted.map((device, index) => ({
+      campaignId: created.id,
+      deviceId: device.id,
+      wave: waves[index],
+    })));
+
+    await tx.insert(auditLogs).values({
+      ...getAuditContext(c),
+      action: "deploy",
+      resourceType: "configuration",
+      resourceId: created.id,
+      details: {
+        event: "started",
+        firmwareVersion: created.firmwareVersion,
+        target: created.target,
+        waves: created.waves,
+        deviceCount: targeted.length,
+      },
+    });
+
+    const advanced = (await advanceFirmwareCampaign(tx, created.id))!;
+    return { ...advanced, progress: await getCampaignProgress(tx, advanced) };
+  });
+
+  return c.json(started, HttpStatusCodes.CREATED);
+};
+
+export const getOne: AppRouteHandler<GetOneRoute> = async (c) => {
+  const { campaignId } = c.req.valid("param");
+  const tenant = getTenant(c);
+
+  const campaign = await db.query.firmwareCampaigns.findFirst({
+    where: and(
+      eq(firmwareCampaigns.id, campaignId),
+      eq(firmwareCampaigns.tenantId, tenant.id),
+    ),
+  });
+
+  if (!campaign) {
+    return c.json(
+      {
+        message: HttpStatusPhrases.NOT_FOUND,
+      },
+      HttpStatusCodes.NOT_FOUND,
+    );
+  }
+
+  const progress = await getCampaignProgress(db, campaign);
+
+  return c.json({ ...campaign, progress }, HttpStatusCodes.OK);
+};
+
+export const cancel: AppRouteHandler<CancelRoute> = async (c) => {
+  const { campaignId } = c.req.valid("param");
+  const tenant = getTenant(c);
+
+  const cancelled = await db.transaction(async (tx) => {
+    const [current] = await tx.select({ status: firmwareCampaigns.status })
+      .from(firmwareCampaigns)
+      .where(and(
+        eq(firmwareCampaigns.id, campaignId),
+        eq(firmwareCampaigns.tenantId, tenant.id),
+      ))
+      .for("update");
+
+    if (!current) {
+      return null;
+    }
+
+    if (current.status !== "running") {
+      throw new HTTPException(HttpStatusCodes.CONFLICT, {
+        message: `Cannot cancel a ${current.status} campaign`,
+      });
+    }
+
+    // Updates already sent to devices still run; no further waves are dispatched
+    const now = new Date();
+    const [updated] = await tx.update(firmwareCampaigns)
+      .set({ status: "cancelled", completedAt: now, updatedAt: now })
+      .where(eq(firmwareCampaigns.id, campaignId))
+      .returning();
+
+    await tx.insert(auditLogs).values({
+      ...getAuditContext(c),
+      action: "deploy",
+      resourceType: "configuration",
+      resourceId: updated.id,
+      details: { event: "cancelled", currentWave: updated.currentWave },
+    });
+
+    return updated;
+  });
+
+  if (!cancelled) {
+    return c.json(
+      {
+        message: HttpStatusPhrases.NOT_FOUND,
+      },
+      HttpStatusCodes.NOT_FOUND,
+    );
+  }
+
+  return c.json(cancelled, HttpStatusCodes.OK);
+};
@@ -0,0 +1,39 @@
+import type { Context, Next } from "hono";
+
+import createRouter from "../../lib/create-router";
+import { keycloakAuth } from "../../middleware/keycloak";
+import { withPermify } from "../../middleware/permify-context";
+import { tenantMiddleware } from "../../middleware/tenant";
+import * as handlers from "./firmware-campaigns.handlers";
+import * as routes from "./firmware-campaigns.routes";
+
+// Auth middleware
+function authMiddleware(c: Context, next: Next) {
+  return keycloakAuth()(c, next);
+}
+
+// Tenant middleware wrapper
+function tenantAuthMiddleware(c: Context, next: Next) {
+  return tenantMiddleware()(c, next);
+}
+
+// Starting a campaign is checked in the handler against every targeted device
+const tenantAccessMiddleware = withPermify(helpers => helpers.requireTenantAccess());
+const tenantManageMiddleware = withPermify(helpers => helpers.requireTenantManage());
+
+const router = createRouter();
+router.use("/tenants/:tenantId/firmware-campaigns", authMiddleware);
+router.use("/tenants/:tenantId/firmware-campaigns", tenantAuthMiddleware);
+router.use("/tenants/:tenantId/firmware-campaigns/:campaignId", authMiddleware);
+router.use("/tenants/:tenantId/firmware-campaigns/:campaignId", tenantAuthMiddleware);
+router.use("/tenants/:tenantId/firmware-campaigns/:campaignId/cancel", authMiddleware);
+router.use("/tenants/:tenantId/firmware-campaigns/:campaignId/cancel", tenantAuthMiddleware);
+router.on("GET", "/tenants/:tenantId/firmware-campaigns", tenantAccessMiddleware);
+router.on("GET", "/tenants/:tenantId/firmware-campaigns/:campaignId", tenantAccessMiddleware);
+router.on("POST", "/tenants/:tenantId/firmware-campaigns/:campaignId/cancel", tenantManageMiddleware);
+router.openapi(routes.list, handlers.list);
+router.openapi(routes.create, handlers.create);
+router.openapi(routes.getOne, handlers.getOne);
+router.openapi(routes.cancel, handlers.cancel);
+
+export default router;
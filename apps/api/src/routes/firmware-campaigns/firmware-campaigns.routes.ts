@@ -0,0 +1,121 @@
+import { createRoute, z } from "@hono/zod-openapi";
+import * as HttpStatusCodes from "stoker/http-status-codes";
+import { jsonContent, jsonContentRequired } from "stoker/openapi/helpers";
+import { createErrorSchema } from "stoker/openapi/schemas";
+
+import { insertFirmwareCampaignSchema, selectFirmwareCampaignSchema, selectFirmwareCampaignWaveSchema } from "../../db/schema";
+import { notFoundSchema } from "../../lib/constants";
+
+const tags = ["Firmware Campaigns"];
+
+const tenantParamsSchema = z.object({
+  tenantId: z.string(),
+});
+
+const campaignParamsSchema = z.object({
+  tenantId: z.string(),
+  campaignId: z.string().uuid(),
+});
+
+const listCampaignsQuerySchema = z.object({
+  status: selectFirmwareCampaignSchema.shape.status.optional(),
+});
+
+const campaignWithProgressSchema = selectFirmwareCampaignSchema.extend({
+  progress: z.array(selectFirmwareCampaignWaveSchema),
+});
+
+export const list = createRoute({
+  path: "/tenants/{tenantId}/firmware-campaigns",
+  method: "get",
+  request: {
+    params: tenantParamsSchema,
+    query: listCampaignsQuerySchema,
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(
+      z.array(selectFirmwareCampaignSchema),
+      "The tenant's firmware campaigns, newest first",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(listCampaignsQuerySchema),
+      "Invalid query parameters",
+    ),
+  },
+});
+
+export const create = createRoute({
+  path: "/tenants/{tenantId}/firmware-campaigns",
+  method: "post",
+  request: {
+    params: tenantParamsSchema,
+    body: jsonContentRequired(
+      insertFirmwareCampaignSchema,
+      "The firmware to roll out, the devices to target and the rollout waves",
+    ),
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.CREATED]: jsonContent(
+      campaignWithProgressSchema,
+      "The started campaign, with its first wave dispatched",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(insertFirmwareCampaignSchema)
+        .or(createErrorSchema(tenantParamsSchema)),
+      "The validation error(s)",
+    ),
+  },
+});
+
+export const getOne = createRoute({
+  path: "/tenants/{tenantId}/firmware-campaigns/{campaignId}",
+  method: "get",
+  request: {
+    params: campaignParamsSchema,
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(
+      campaignWithProgressSchema,
+      "The campaign with per-wave progress",
+    ),
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      notFoundSchema,
+      "Campaign not found",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(campaignParamsSchema),
+      "Invalid parameters",
+    ),
+  },
+});
+
+export const cancel = createRoute({
+  path: "/tenants/{tenantId}/firmware-campaigns/{campaignId}/cancel",
+  method: "post",
+  request: {
+    params: campaignParamsSchema,
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(
+      selectFirmwareCampaignSchema,
+      "The cancelled campaign",
+    ),
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      notFoundSchema,
+      "Campaign not found",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(campaignParamsSchema),
+      "Invalid parameters",
+    ),
+  },
+});
+
+export type ListRoute = typeof list;
+export type CreateRoute = typeof create;
+export type GetOneRoute = typeof getOne;
+export type CancelRoute = typeof cancel;
@@ -4,14 +4,40 @@ import createRouter from "@/api/lib/create-router";
 import type { AppOpenAPI } from "../lib/types";
 
 import { BASE_PATH } from "../lib/constants";
+import deviceCommandsRouter from "./device-commands/device-commands.index";
+import deviceInventoryRouter from "./device-inventory/device-inventory.index";
+import deviceMetadataSchemasRouter from "./device-metadata-schemas/device-metadata-schemas.index";
+import deviceTelemetryRouter from "./device-telemetry/device-telemetry.index";
+import devicesRouter from "./devices/devices.index";
+import enrollmentTokensRouter from "./enrollment-tokens/enrollment-tokens.index";
+import firmwareCampaignsRouter from "./firmware-campaigns/firmware-campaigns.index";
 import indexRoute from "./index.route";
+import labelsRouter from "./labels/labels.index";
+import siteAssignmentsRouter from "./site-assignments/site-assignments.index";
+import sitesRouter from "./sites/sites.index";
+import taskAttachmentsRouter from "./task-attachments/task-attachments.index";
+import taskCommentsRouter from "./task-comments/task-comments.index";
+import taskDependenciesRouter from "./task-dependencies/task-dependencies.index";
 import tasksRouter from "./tasks/tasks.index";
 import tenantsRouter from "./tenants/tenants.index";
 
 export function registerRoutes(app: AppOpenAPI) {
   return app
     .route("/", indexRoute)
+    .route("/", sitesRouter)
+    .route("/", siteAssignmentsRouter)
+    .route("/", deviceMetadataSchemasRouter)
+    .route("/", devicesRouter)
+    .route("/", deviceTelemetryRouter)
+    .route("/", deviceCommandsRouter)
+    .route("/", deviceInventoryRouter)
+    .route("/", enrollmentTokensRouter)
+    .route("/", firmwareCampaignsRouter)
     .route("/", tasksRouter)
+    .route("/", taskCommentsRouter)
+    .route("/", taskAttachmentsRouter)
+    .route("/", taskDependenciesRouter)
+    .route("/", labelsRouter)
     .route("/", tenantsRouter);
 }
 
@@ -0,0 +1,311 @@
+import type { Context } from "hono";
+
+import { and, asc, count, eq, getTableColumns, inArray, ne, sql } from "drizzle-orm";
+import { HTTPException } from "hono/http-exception";
+import * as HttpStatusCodes from "stoker/http-status-codes";
+import * as HttpStatusPhrases from "stoker/http-status-phrases";
+import { ZodIssueCode } from "zod";
+
+import type { AppRouteHandler } from "../../lib/types";
+import type { CreateRoute, ListRoute, MergeRoute, PatchRoute, RemoveRoute, SetTaskLabelsRoute } from "./labels.routes";
+
+import { db } from "../../db";
+import { auditLogs, labels, taskLabels } from "../../db/schema";
+import { getAuditContext } from "../../lib/audit";
+import { isUniqueViolation } from "../../lib/db-errors";
+import { canAccessTask, findTaskLabels, findTenantTask } from "../../lib/tasks";
+import { getTenant, getUserRole } from "../../middleware/tenant";
+
+// Checked on the membership as well, so the restriction holds when Permify is disabled
+function requireLabelAdmin(c: Context) {
+  if (!["owner", "admin"].includes(getUserRole(c))) {
+    throw new HTTPException(HttpStatusCodes.FORBIDDEN, {
+      message: "Only tenant owners and admins can manage labels",
+    });
+  }
+}
+
+function findTenantLabel(tenantId: string, labelId: string) {
+  return db.query.labels.findFirst({
+    where: and(eq(labels.id, labelId), eq(labels.tenantId, tenantId)),
+  });
+}
+
+// Labels with the number of tasks carrying each
+function findLabelsWithCounts(tenantId: string, labelId?: string) {
+  return db.select({ ...getTableColumns(labels), taskCount: count(taskLabels.taskId) })
+    .from(labels)
+    .leftJoin(taskLabels, eq(taskLabels.labelId, labels.id))
+    .where(and(eq(labels.tenantId, tenantId), labelId ? eq(labels.id, labelId) : undefined))
+    .groupBy(labels.id)
+    .orderBy(asc(labels.name));
+}
+
+async function assertLabelNameAvailable(tenantId: string, name: string, exceptLabelId?: string) {
+  const existing = await db.query.labels.findFirst({
+    columns: { id: true },
+    where: and(
+      eq(labels.tenantId, tenantId),
+      eq(sql`lower(${labels.name})`, name.toLowerCase()),
+      exceptLabelId ? ne(labels.id, exceptLabelId) : undefined,
+    ),
+  });
+
+  if (existing) {
+    throw labelNameConflict(exceptLabelId);
+  }
+}
+
+const LABEL_NAME_INDEX = "labels_tenant_id_name_idx";
+
+function labelNameConflict(exceptLabelId?: string) {
+  return new HTTPException(HttpStatusCodes.CONFLICT, {
+    message: exceptLabelId
+      ? "Another label has this name; merge the labels instead"
+      : "Label with this name already exists",
+  });
+}
+
+// Runs a label write, turning a name taken by a concurrent write since assertLabelNameAvailable into the same conflict
+async function withLabelNameConflict<T>(write: () => Promise<T>, exceptLabelId?: string): Promise<T> {
+  try {
+    return await write();
+  }
+  catch (error) {
+    if (isUniqueViolation(error, LABEL_NAME_INDEX)) {
+      throw labelNameConflict(exceptLabelId);
+    }
+    throw error;
+  }
+}
+
+export const list: AppRouteHandler<ListRoute> = async (c) => {
+  const tenant = getTenant(c);
+
+  const tenantLabels = await findLabelsWithCounts(tenant.id);
+
+  return c.json(tenantLabels, HttpStatusCodes.OK);
+};
+
+export const create: AppRouteHandler<CreateRoute> = async (c) => {
+  requireLabelAdmin(c);
+  const values = c.req.valid("json");
+  const tenant = getTenant(c);
+
+  await assertLabelNameAvailable(tenant.id, values.name);
+
+  const created = await withLabelNameConflict(() => db.transaction(async (tx) => {
+    const [label] = await tx.insert(labels)
+      .values({ ...values, tenantId: tenant.id })
+      .returning();
+
+    await tx.insert(auditLogs).values({
+      ...getAuditContext(c),
+      action: "create",
+      resourceType: "configuration",
+      resourceId: label.id,
+      details: { label: label.name, color: label.color },
+    });
+
+    return label;
+  }));
+
+  return c.json(created, HttpStatusCodes.CREATED);
+};
+
+export const patch: AppRouteHandler<PatchRoute> = async (c) => {
+  requireLabelAdmin(c);
+  const { labelId } = c.req.valid("param");
+  const updates = c.req.valid("json");
+  const tenant = getTenant(c);
+
+  const current = await findTenantLabel(tenant.id, labelId);
+  if (!current) {
+    return c.json(
+      {
+        message: HttpStatusPhrases.NOT_FOUND,
+      },
+      HttpStatusCodes.NOT_FOUND,
+    );
+  }
+
+  if (updates.name) {
+    await assertLabelNameAvailable(tenant.id, updates.name, current.id);
+  }
+
+  const updated = await withLabelNameConflict(() => db.transaction(async (tx) => {
+    const [label] = await tx.update(labels)
+      .set(updates)
+      .where(eq(labels.id, current.id))
+      .returning();
+
+    await tx.insert(auditLogs).values({
+      ...getAuditContext(c),
+      action: "update",
+      resourceType: "configuration",
+      resourceId: label.id,
+      details: { label: label.name, previousName: current.name, color: label.color },
+    });
+
+    return label;
+  }), current.id);
+
+  return c.json(updated, HttpStatusCodes.OK);
+};
+
+export const remove: AppRouteHandler<RemoveRoute> = async (c) => {
+  requireLabelAdmin(c);
+  const { labelId } = c.req.valid("param");
+  const tenant = getTenant(c);
+
+  const label = await findTenantLabel(tenant.id, labelId);
+  if (!label) {
+    return c.json(
+      {
+        message: HttpStatusPhrases.NOT_FOUND,
+      },
+      HttpStatusCodes.NOT_FOUND,
+    );
+  }
+
+  await db.transaction(async (tx) => {
+    await tx.delete(labels).where(eq(labels.id, label.id));
+
+    await tx.insert(auditLogs).values({
+      ...getAuditContext(c),
+      action: "delete",
+      resourceType: "configuration",
+      resourceId: label.id,
+      details: { label: label.name },
+    });
+  });
+
+  return c.body(null, HttpStatusCodes.NO_CONTENT);
+};
+
+export const merge: AppRouteHandler<MergeRoute> = async (c) => {
+  requireLabelAdmin(c);
+  const { labelId } = c.req.valid("param");
+  const { targetId } = c.req.valid("json");
+  const tenant = getTenant(c);
+
+  if (targetId === labelId) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          issues: [
+            {
+              code: ZodIssueCode.custom,
+              path: ["targetId"],
+              message: "A label cannot be merged into itself",
+            },
+          ],
+          name: "ZodError",
+        },
+      },
+      HttpStatusCodes.UNPROCESSABLE_ENTITY,
+    );
+  }
+
+  const [source, target] = await Promise.all([
+    findTenantLabel(tenant.id, labelId),
+    findTenantLabel(tenant.id, targetId),
+  ]);
+  if (!source || !target) {
+    return c.json(
+      {
+        message: HttpStatusPhrases.NOT_FOUND,
+      },
+      HttpStatusCodes.NOT_FOUND,
+    );
+  }
+
+  await db.transaction(async (tx) => {
+    // Tasks that already carry the target keep a single link
+    await tx.insert(taskLabels)
+      .select(qb => qb.select({
+        taskId: taskLabels.taskId,
+        labelId: sql<string>`${target.id}::uuid`.as("label_id"),
+        createdAt: taskLabels.createdAt,
+      })
+        .from(taskLabels)
+        .where(eq(taskLabels.labelId, source.id)))
+      .onConflictDoNothing();
+
+    await tx.delete(labels).where(eq(labels.id, source.id));
+
+    await tx.insert(auditLogs).values({
+      ...getAuditContext(c),
+      action: "delete",
+      resourceType: "configuration",
+      resourceId: source.id,
+      details: { label: source.name, mergedInto: target.id, mergedIntoLabel: target.name },
+    });
+  });
+
+  const [merged] = await findLabelsWithCounts(tenant.id, target.id);
+
+  return c.json(merged, HttpStatusCodes.OK);
+};
+
+export const setTaskLabels: AppRouteHandler<SetTaskLabelsRoute> = async (c) => {
+  const { id } = c.req.valid("param");
+  const { labelIds } = c.req.valid("json");
+  const tenant = getTenant(c);
+
+  const task = await findTenantTask(tenant.id, id);
+  if (!task || !(await canAccessTask(c, task, "edit"))) {
+    return c.json(
+      {
+        message: HttpStatusPhrases.NOT_FOUND,
+      },
+      HttpStatusCodes.NOT_FOUND,
+    );
+  }
+
+  const requested = [...new Set(labelIds)];
+  const found = requested.length === 0
+    ? []
+    : await db.select({ id: labels.id })
+      .from(labels)
+      .where(and(eq(labels.tenantId, tenant.id), inArray(labels.id, requested)));
+
+  if (found.length !== requested.length) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          issues: [
+            {
+              code: ZodIssueCode.custom,
+              path: ["labelIds"],
+              message: "Unknown label for this tenant",
+            },
+          ],
+          name: "ZodError",
+        },
+      },
+      HttpStatusCodes.UNPROCESSABLE_ENTITY,
+    );
+  }
+
+  await db.transaction(async (tx) => {
+    await tx.delete(taskLabels).where(eq(taskLabels.taskId, task.id));
+    if (requested.length > 0) {
+      await tx.insert(taskLabels).values(requested.map(labelId => ({ taskId: task.id, labelId })));
+    }
+
+    await tx.insert(auditLogs).values({
+      ...getAuditContext(c),
+      action: "update",
+      resourceType: "task",
+      resourceId: String(task.id),
+      details: { event: "labels_set", labelIds: requested },
+    });
+  });
+
+  const taskLabelsById = await findTaskLabels([task.id]);
+
+  return c.json(taskLabelsById.get(task.id) ?? [], HttpStatusCodes.OK);
+};
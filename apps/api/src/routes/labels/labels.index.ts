@@ -0,0 +1,46 @@
+import type { Context, Next } from "hono";
+
+import createRouter from "../../lib/create-router";
+import { keycloakAuth } from "../../middleware/keycloak";
+import { withPermify } from "../../middleware/permify-context";
+import { tenantMiddleware } from "../../middleware/tenant";
+import * as handlers from "./labels.handlers";
+import * as routes from "./labels.routes";
+
+// Auth middleware
+function authMiddleware(c: Context, next: Next) {
+  return keycloakAuth()(c, next);
+}
+
+// Tenant middleware wrapper
+function tenantAuthMiddleware(c: Context, next: Next) {
+  return tenantMiddleware()(c, next);
+}
+
+// Any member can read the labels and put them on tasks they can edit; defining them is a tenant setting
+const tenantAdminMiddleware = withPermify(helpers => helpers.requireTenantAdmin());
+
+function labelAdminMiddleware(c: Context, next: Next) {
+  return c.req.method === "GET" ? next() : tenantAdminMiddleware(c, next);
+}
+
+const router = createRouter();
+router.use("/tenants/:tenantId/labels", authMiddleware);
+router.use("/tenants/:tenantId/labels", tenantAuthMiddleware);
+router.use("/tenants/:tenantId/labels", labelAdminMiddleware);
+router.use("/tenants/:tenantId/labels/:labelId", authMiddleware);
+router.use("/tenants/:tenantId/labels/:labelId", tenantAuthMiddleware);
+router.use("/tenants/:tenantId/labels/:labelId", labelAdminMiddleware);
+router.use("/tenants/:tenantId/labels/:labelId/merge", authMiddleware);
+router.use("/tenants/:tenantId/labels/:labelId/merge", tenantAuthMiddleware);
+router.use("/tenants/:tenantId/labels/:labelId/merge", labelAdminMiddleware);
+router.use("/tenants/:tenantId/tasks/:id/labels", authMiddleware);
+router.use("/tenants/:tenantId/tasks/:id/labels", tenantAuthMiddleware);
+router.openapi(routes.list, handlers.list);
+router.openapi(routes.create, handlers.create);
+router.openapi(routes.patch, handlers.patch);
+router.openapi(routes.remove, handlers.remove);
+router.openapi(routes.merge, handlers.merge);
+router.openapi(routes.setTaskLabels, handlers.setTaskLabels);
+
+export default router;
@@ -0,0 +1,200 @@
+import { createRoute, z } from "@hono/zod-openapi";
+import * as HttpStatusCodes from "stoker/http-status-codes";
+import { jsonContent, jsonContentRequired } from "stoker/openapi/helpers";
+import { createErrorSchema } from "stoker/openapi/schemas";
+
+import {
+  insertLabelSchema,
+  mergeLabelSchema,
+  patchLabelSchema,
+  selectLabelSchema,
+  setTaskLabelsSchema,
+  taskLabelSchema,
+} from "../../db/schema";
+import { notFoundSchema } from "../../lib/constants";
+
+const tags = ["Labels"];
+
+const tenantParamsSchema = z.object({
+  tenantId: z.string(),
+});
+
+const labelParamsSchema = tenantParamsSchema.extend({
+  labelId: z.string().uuid(),
+});
+
+const taskParamsSchema = tenantParamsSchema.extend({
+  id: z.coerce.number(),
+});
+
+const conflictSchema = z.object({
+  message: z.string(),
+});
+
+const labelSchema = selectLabelSchema.extend({
+  taskCount: z.number(),
+});
+
+export const list = createRoute({
+  path: "/tenants/{tenantId}/labels",
+  method: "get",
+  request: {
+    params: tenantParamsSchema,
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(
+      z.array(labelSchema),
+      "The tenant's labels, by name",
+    ),
+  },
+});
+
+// Label names are unique within the tenant, ignoring case
+export const create = createRoute({
+  path: "/tenants/{tenantId}/labels",
+  method: "post",
+  request: {
+    params: tenantParamsSchema,
+    body: jsonContentRequired(
+      insertLabelSchema,
+      "The label to create",
+    ),
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.CREATED]: jsonContent(
+      selectLabelSchema,
+      "The created label",
+    ),
+    [HttpStatusCodes.CONFLICT]: jsonContent(
+      conflictSchema,
+      "A label with this name already exists",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(insertLabelSchema),
+      "The validation error(s)",
+    ),
+  },
+});
+
+// Tasks refer to labels by id, so a rename shows on every task at once
+export const patch = createRoute({
+  path: "/tenants/{tenantId}/labels/{labelId}",
+  method: "patch",
+  request: {
+    params: labelParamsSchema,
+    body: jsonContentRequired(
+      patchLabelSchema,
+      "The label updates",
+    ),
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(
+      selectLabelSchema,
+      "The updated label",
+    ),
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      notFoundSchema,
+      "Label not found",
+    ),
+    [HttpStatusCodes.CONFLICT]: jsonContent(
+      conflictSchema,
+      "Another label has this name; merge the labels instead",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(patchLabelSchema)
+        .or(createErrorSchema(labelParamsSchema)),
+      "The validation error(s)",
+    ),
+  },
+});
+
+// Removes the label from every task
+export const remove = createRoute({
+  path: "/tenants/{tenantId}/labels/{labelId}",
+  method: "delete",
+  request: {
+    params: labelParamsSchema,
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.NO_CONTENT]: {
+      description: "Label deleted",
+    },
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      notFoundSchema,
+      "Label not found",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(labelParamsSchema),
+      "Invalid parameters",
+    ),
+  },
+});
+
+// Moves the label's tasks to the target label, then deletes it
+export const merge = createRoute({
+  path: "/tenants/{tenantId}/labels/{labelId}/merge",
+  method: "post",
+  request: {
+    params: labelParamsSchema,
+    body: jsonContentRequired(
+      mergeLabelSchema,
+      "The label to merge into",
+    ),
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(
+      labelSchema,
+      "The target label",
+    ),
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      notFoundSchema,
+      "Label not found",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(mergeLabelSchema)
+        .or(createErrorSchema(labelParamsSchema)),
+      "The validation error(s)",
+    ),
+  },
+});
+
+// Needs edit access to the task; the labels must belong to the tenant
+export const setTaskLabels = createRoute({
+  path: "/tenants/{tenantId}/tasks/{id}/labels",
+  method: "put",
+  request: {
+    params: taskParamsSchema,
+    body: jsonContentRequired(
+      setTaskLabelsSchema,
+      "The task's labels",
+    ),
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(
+      z.array(taskLabelSchema),
+      "The task's labels, by name",
+    ),
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      notFoundSchema,
+      "Task not found",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(setTaskLabelsSchema)
+        .or(createErrorSchema(taskParamsSchema)),
+      "The validation error(s)",
+    ),
+  },
+});
+
+export type ListRoute = typeof list;
+export type CreateRoute = typeof create;
+export type PatchRoute = typeof patch;
+export type RemoveRoute = typeof remove;
+export type MergeRoute = typeof merge;
+export type SetTaskLabelsRoute = typeof setTaskLabels;
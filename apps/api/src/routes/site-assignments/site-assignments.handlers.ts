@@ -0,0 +1,195 @@
+import { and, asc, eq, getTableColumns } from "drizzle-orm";
+import { HTTPException } from "hono/http-exception";
+import * as HttpStatusCodes from "stoker/http-status-codes";
+import * as HttpStatusPhrases from "stoker/http-status-phrases";
+
+import type { AppRouteHandler } from "../../lib/types";
+import type { AssignRoute, ListRoute, ListUserSitesRoute, UnassignRoute } from "./site-assignments.routes";
+
+import { db } from "../../db";
+import { sites, users, userSiteAssignments } from "../../db/schema";
+import { findTenantSite } from "../../lib/tenant-scope";
+import { requireUser } from "../../middleware/keycloak";
+import { getPermifySync } from "../../middleware/permify-context";
+import { getTenant, getUserRole } from "../../middleware/tenant";
+
+// GET /tenants/{tenantId}/sites/{siteId}/assignments - List site staff
+export const list: AppRouteHandler<ListRoute> = async (c) => {
+  const { siteId } = c.req.valid("param");
+  const tenant = getTenant(c);
+
+  const site = await findTenantSite(tenant.id, siteId);
+  if (!site) {
+    return c.json(
+      {
+        message: HttpStatusPhrases.NOT_FOUND,
+      },
+      HttpStatusCodes.NOT_FOUND,
+    );
+  }
+
+  const staff = await db
+    .select({
+      ...getTableColumns(userSiteAssignments),
+      userName: users.name,
+      userEmail: users.email,
+    })
+    .from(userSiteAssignments)
+    .innerJoin(users, eq(userSiteAssignments.userId, users.id))
+    .where(eq(userSiteAssignments.siteId, site.id))
+    .orderBy(asc(userSiteAssignments.role), asc(users.name));
+
+  return c.json(staff, HttpStatusCodes.OK);
+};
+
+// POST /tenants/{tenantId}/sites/{siteId}/assignments - Assign a tenant member to a site
+export const assign: AppRouteHandler<AssignRoute> = async (c) => {
+  const { siteId } = c.req.valid("param");
+  const { userId, role } = c.req.valid("json");
+  const user = requireUser(c);
+  const tenant = getTenant(c);
+  const permifySync = getPermifySync(c);
+
+  const site = await findTenantSite(tenant.id, siteId);
+  if (!site) {
+    return c.json(
+      {
+        message: HttpStatusPhrases.NOT_FOUND,
+      },
+      HttpStatusCodes.NOT_FOUND,
+    );
+  }
+
+  const membership = await db.query.userTenantAssociations.findFirst({
+    where(fields, operators) {
+      return operators.and(
+        operators.eq(fields.userId, userId),
+        operators.eq(fields.tenantId, tenant.id),
+        operators.eq(fields.status, "active"),
+      );
+    },
+  });
+
+  if (!membership) {
+    throw new HTTPException(HttpStatusCodes.BAD_REQUEST, {
+      message: "User is not an active member of this tenant",
+    });
+  }
+
+  const existing = await db.query.userSiteAssignments.findFirst({
+    where(fields, operators) {
+      return operators.and(
+        operators.eq(fields.userId, userId),
+        operators.eq(fields.siteId, site.id),
+      );
+    },
+  });
+
+  if (existing) {
+    if (existing.role === role) {
+      return c.json(existing, HttpStatusCodes.OK);
+    }
+
+    // Swap the Permify relation along with the stored role
+    const updated = await db.transaction(async (tx) => {
+      const [assignment] = await tx.update(userSiteAssignments)
+        .set({
+          role,
+          assignedBy: user.sub,
+          assignedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(userSiteAssignments.id, existing.id))
+        .returning();
+
+      // Grant the new relation before revoking the old one, so a failed write never leaves the user with neither
+      await permifySync?.syncUserAssignedToSite(userId, site.id, role);
+      await permifySync?.syncUserUnassignedFromSite(userId, site.id, existing.role);
+
+      return assignment;
+    });
+
+    return c.json(updated, HttpStatusCodes.OK);
+  }
+
+  const created = await db.transaction(async (tx) => {
+    const [assignment] = await tx.insert(userSiteAssignments).values({
+      userId,
+      siteId: site.id,
+      tenantId: tenant.id,
+      role,
+      assignedBy: user.sub,
+    }).returning();
+
+    await permifySync?.syncUserAssignedToSite(userId, site.id, role);
+
+    return assignment;
+  });
+
+  return c.json(created, HttpStatusCodes.CREATED);
+};
+
+// DELETE /tenants/{tenantId}/sites/{siteId}/assignments/{userId} - Unassign a user from a site
+export const unassign: AppRouteHandler<UnassignRoute> = async (c) => {
+  const { siteId, userId } = c.req.valid("param");
+  const tenant = getTenant(c);
+  const permifySync = getPermifySync(c);
+
+  const deleted = await db.transaction(async (tx) => {
+    const [assignment] = await tx.delete(userSiteAssignments)
+      .where(and(
+        eq(userSiteAssignments.siteId, siteId),
+        eq(userSiteAssignments.userId, userId),
+        eq(userSiteAssignments.tenantId, tenant.id),
+      ))
+      .returning();
+
+    if (assignment) {
+      await permifySync?.syncUserUnassignedFromSite(userId, siteId, assignment.role);
+    }
+
+    return assignment;
+  });
+
+  if (!deleted) {
+    return c.json(
+      {
+        message: HttpStatusPhrases.NOT_FOUND,
+      },
+      HttpStatusCodes.NOT_FOUND,
+    );
+  }
+
+  return c.body(null, HttpStatusCodes.NO_CONTENT);
+};
+
+// GET /tenants/{tenantId}/users/{userId}/sites - List a user's sites
+export const listUserSites: AppRouteHandler<ListUserSitesRoute> = async (c) => {
+  const { userId } = c.req.valid("param");
+  const user = requireUser(c);
+  const tenant = getTenant(c);
+  const userRole = getUserRole(c);
+
+  // Members can list their own sites, owners and admins anyone's
+  if (userId !== user.sub && !["owner", "admin"].includes(userRole)) {
+    throw new HTTPException(HttpStatusCodes.FORBIDDEN, {
+      message: "Insufficient permissions to list this user's sites",
+    });
+  }
+
+  const userSites = await db
+    .select({
+      ...getTableColumns(sites),
+      role: userSiteAssignments.role,
+      assignedAt: userSiteAssignments.assignedAt,
+    })
+    .from(userSiteAssignments)
+    .innerJoin(sites, eq(userSiteAssignments.siteId, sites.id))
+    .where(and(
+      eq(userSiteAssignments.userId, userId),
+      eq(userSiteAssignments.tenantId, tenant.id),
+    ))
+    .orderBy(asc(sites.name));
+
+  return c.json(userSites, HttpStatusCodes.OK);
+};
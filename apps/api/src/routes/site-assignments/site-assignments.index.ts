@@ -0,0 +1,39 @@
+import type { Context, Next } from "hono";
+
+import createRouter from "../../lib/create-router";
+import { keycloakAuth } from "../../middleware/keycloak";
+import { withPermify } from "../../middleware/permify-context";
+import { tenantMiddleware } from "../../middleware/tenant";
+import * as handlers from "./site-assignments.handlers";
+import * as routes from "./site-assignments.routes";
+
+// Auth middleware
+function authMiddleware(c: Context, next: Next) {
+  return keycloakAuth()(c, next);
+}
+
+// Tenant middleware wrapper
+function tenantAuthMiddleware(c: Context, next: Next) {
+  return tenantMiddleware()(c, next);
+}
+
+// Viewing staff needs site access, changing it needs site.manage
+const siteAccessMiddleware = withPermify(helpers => helpers.requireSiteAccess());
+const siteManageMiddleware = withPermify(helpers => helpers.requireSiteManage());
+
+const router = createRouter();
+router.use("/tenants/:tenantId/sites/:siteId/assignments", authMiddleware);
+router.use("/tenants/:tenantId/sites/:siteId/assignments", tenantAuthMiddleware);
+router.use("/tenants/:tenantId/sites/:siteId/assignments/:userId", authMiddleware);
+router.use("/tenants/:tenantId/sites/:siteId/assignments/:userId", tenantAuthMiddleware);
+router.use("/tenants/:tenantId/users/:userId/sites", authMiddleware);
+router.use("/tenants/:tenantId/users/:userId/sites", tenantAuthMiddleware);
+router.on("GET", "/tenants/:tenantId/sites/:siteId/assignments", siteAccessMiddleware);
+router.on("POST", "/tenants/:tenantId/sites/:siteId/assignments", siteManageMiddleware);
+router.on("DELETE", "/tenants/:tenantId/sites/:siteId/assignments/:userId", siteManageMiddleware);
+router.openapi(routes.list, handlers.list);
+router.openapi(routes.assign, handlers.assign);
+router.openapi(routes.unassign, handlers.unassign);
+router.openapi(routes.listUserSites, handlers.listUserSites);
+
+export default router;
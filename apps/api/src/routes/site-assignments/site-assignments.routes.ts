@@ -0,0 +1,141 @@
+import { createRoute, z } from "@hono/zod-openapi";
+import * as HttpStatusCodes from "stoker/http-status-codes";
+import { jsonContent, jsonContentRequired } from "stoker/openapi/helpers";
+import { createErrorSchema } from "stoker/openapi/schemas";
+
+import { selectSiteSchema, selectUserSiteAssignmentSchema } from "../../db/schema";
+import { notFoundSchema } from "../../lib/constants";
+
+const tags = ["Site Assignments"];
+
+const siteParamsSchema = z.object({
+  tenantId: z.string(),
+  siteId: z.string().uuid(),
+});
+
+const assignmentParamsSchema = z.object({
+  tenantId: z.string(),
+  siteId: z.string().uuid(),
+  userId: z.string().uuid(),
+});
+
+const userParamsSchema = z.object({
+  tenantId: z.string(),
+  userId: z.string().uuid(),
+});
+
+const assignUserBodySchema = z.object({
+  userId: z.string().uuid(),
+  role: z.enum(["manager", "operator"]),
+});
+
+const siteStaffSchema = selectUserSiteAssignmentSchema.extend({
+  userName: z.string(),
+  userEmail: z.string(),
+});
+
+const userSiteSchema = selectSiteSchema.extend({
+  role: z.enum(["manager", "operator"]),
+  assignedAt: z.date(),
+});
+
+export const list = createRoute({
+  path: "/tenants/{tenantId}/sites/{siteId}/assignments",
+  method: "get",
+  request: {
+    params: siteParamsSchema,
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(
+      z.array(siteStaffSchema),
+      "The staff assigned to the site",
+    ),
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      notFoundSchema,
+      "Site not found",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(siteParamsSchema),
+      "Invalid parameters",
+    ),
+  },
+});
+
+export const assign = createRoute({
+  path: "/tenants/{tenantId}/sites/{siteId}/assignments",
+  method: "post",
+  request: {
+    params: siteParamsSchema,
+    body: jsonContentRequired(
+      assignUserBodySchema,
+      "The user and the role to assign",
+    ),
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.CREATED]: jsonContent(
+      selectUserSiteAssignmentSchema,
+      "The created assignment",
+    ),
+    [HttpStatusCodes.OK]: jsonContent(
+      selectUserSiteAssignmentSchema,
+      "The existing assignment, with its role updated",
+    ),
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      notFoundSchema,
+      "Site not found",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(assignUserBodySchema)
+        .or(createErrorSchema(siteParamsSchema)),
+      "The validation error(s)",
+    ),
+  },
+});
+
+export const unassign = createRoute({
+  path: "/tenants/{tenantId}/sites/{siteId}/assignments/{userId}",
+  method: "delete",
+  request: {
+    params: assignmentParamsSchema,
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.NO_CONTENT]: {
+      description: "Assignment removed",
+    },
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      notFoundSchema,
+      "Assignment not found",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(assignmentParamsSchema),
+      "Invalid parameters",
+    ),
+  },
+});
+
+export const listUserSites = createRoute({
+  path: "/tenants/{tenantId}/users/{userId}/sites",
+  method: "get",
+  request: {
+    params: userParamsSchema,
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(
+      z.array(userSiteSchema),
+      "The sites the user is assigned to",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(userParamsSchema),
+      "Invalid parameters",
+    ),
+  },
+});
+
+export type ListRoute = typeof list;
+export type AssignRoute = typeof assign;
+export type UnassignRoute = typeof unassign;
+export type ListUserSitesRoute = typeof listUserSites;
@@ -0,0 +1,412 @@
+import type { SQL } from "drizzle-orm";
+
+import { and, asc, between, eq, getTableColumns, gte, inArray, isNotNull, lte, ne, or, sql } from "drizzle-orm";
+import * as HttpStatusCodes from "stoker/http-status-codes";
+import * as HttpStatusPhrases from "stoker/http-status-phrases";
+import { ZodIssueCode } from "zod";
+
+import type { AppRouteHandler } from "../../lib/types";
+import type { CreateRoute, GetOneRoute, ImportSitesRoute, ListRoute, PatchRoute, RemoveRoute, TransitionRoute } from "./sites.routes";
+
+import { db } from "../../db";
+import { auditLogs, devices, sites, tasks } from "../../db/schema";
+import { getAuditContext } from "../../lib/audit";
+import { ZOD_ERROR_CODES, ZOD_ERROR_MESSAGES } from "../../lib/constants";
+import { parseCsvRecords } from "../../lib/csv";
+import { recordDeviceStatusChanges } from "../../lib/device-status-history";
+import { haversineDistanceSql, KM_PER_DEGREE_LATITUDE, parseBoundingBox, parseCoordinates } from "../../lib/geo";
+import { csvRecordToSiteRow, MAX_SITE_IMPORT_ROWS, validateSiteImportRows } from "../../lib/site-import";
+import { canTransitionSite, cascadedDeviceStatus, closesSiteTasks } from "../../lib/site-lifecycle";
+import { findOpenTasks } from "../../lib/tasks";
+import { lookupPermittedIdsInHandler } from "../../middleware/permify";
+import { getPermifyService, getPermifySync } from "../../middleware/permify-context";
+import { getTenant } from "../../middleware/tenant";
+
+export const list: AppRouteHandler<ListRoute> = async (c) => {
+  const tenant = getTenant(c);
+  const permifyService = getPermifyService(c);
+  const query = c.req.valid("query");
+
+  const near = query.near ? parseCoordinates(query.near) : null;
+  const bbox = query.bbox ? parseBoundingBox(query.bbox) : null;
+
+  if (query.radiusKm !== undefined && !near) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          issues: [
+            {
+              code: ZodIssueCode.custom,
+              path: ["near"],
+              message: "near is required when radiusKm is given",
+            },
+          ],
+          name: "ZodError",
+        },
+      },
+      HttpStatusCodes.UNPROCESSABLE_ENTITY,
+    );
+  }
+
+  const conditions: SQL[] = [eq(sites.tenantId, tenant.id)];
+
+  if (permifyService) {
+    // One lookup for every site the user can view, instead of a check per site
+    const viewableIds = await lookupPermittedIdsInHandler(
+      c,
+      permifyService,
+      permifyService.EntityTypes.SITE,
+      permifyService.Permissions.VIEW,
+    );
+    if (viewableIds.length === 0) {
+      return c.json([], HttpStatusCodes.OK);
+    }
+    conditions.push(inArray(sites.id, viewableIds));
+  }
+
+  const distance = near ? haversineDistanceSql(sites.latitude, sites.longitude, near) : null;
+
+  if (near || bbox) {
+    conditions.push(isNotNull(sites.latitude), isNotNull(sites.longitude));
+  }
+
+  if (bbox) {
+    conditions.push(between(sites.latitude, bbox.minLat, bbox.maxLat));
+    // A box crossing the antimeridian wraps around from minLng to maxLng
+    conditions.push(bbox.minLng <= bbox.maxLng
+      ? between(sites.longitude, bbox.minLng, bbox.maxLng)
+      : or(gte(sites.longitude, bbox.minLng), lte(sites.longitude, bbox.maxLng))!);
+  }
+
+  if (near && distance && query.radiusKm !== undefined) {
+    // Latitude pre-filter lets the location index narrow the scan
+    const latitudeDelta = query.radiusKm / KM_PER_DEGREE_LATITUDE;
+    conditions.push(between(sites.latitude, near.lat - latitudeDelta, near.lat + latitudeDelta));
+    conditions.push(lte(distance, query.radiusKm));
+  }
+
+  const tenantSites = await db
+    .select({
+      ...getTableColumns(sites),
+      distanceKm: distance ?? sql<number | null>`null`,
+    })
+    .from(sites)
+    .where(and(...conditions))
+    .orderBy(...(distance ? [asc(distance)] : []), asc(sites.name));
+
+  return c.json(tenantSites, HttpStatusCodes.OK);
+};
+
+export const create: AppRouteHandler<CreateRoute> = async (c) => {
+  const tenant = getTenant(c);
+  const permifySync = getPermifySync(c);
+  const site = c.req.valid("json");
+
+  // Roll back the insert if the site#tenant relation cannot be written
+  const inserted = await db.transaction(async (tx) => {
+    const [created] = await tx.insert(sites).values({
+      ...site,
+      tenantId: tenant.id,
+    }).returning();
+
+    await permifySync?.syncSiteCreated(created.id, tenant.id);
+
+    return created;
+  });
+
+  return c.json(inserted, HttpStatusCodes.CREATED);
+};
+
+export const importSites: AppRouteHandler<ImportSitesRoute> = async (c) => {
+  const tenant = getTenant(c);
+  const permifySync = getPermifySync(c);
+  const dryRun = c.req.valid("query").dryRun === "true";
+
+  // The JSON body is only validated when sent as JSON, so CSV is read raw
+  const isCsv = c.req.header("content-type")?.startsWith("text/csv") ?? false;
+  const body = isCsv ? null : c.req.valid("json");
+  const rows: unknown[] = isCsv
+    ? parseCsvRecords(await c.req.text()).map(csvRecordToSiteRow)
+    : (typeof body === "object" && body?.rows) || [];
+
+  if (rows.length === 0 || rows.length > MAX_SITE_IMPORT_ROWS) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          issues: [
+            {
+              code: ZodIssueCode.custom,
+              path: ["rows"],
+              message: `Expected between 1 and ${MAX_SITE_IMPORT_ROWS} rows`,
+            },
+          ],
+          name: "ZodError",
+        },
+      },
+      HttpStatusCodes.UNPROCESSABLE_ENTITY,
+    );
+  }
+
+  const { valid, errors } = validateSiteImportRows(rows);
+  const report = {
+    dryRun,
+    total: rows.length,
+    valid: valid.length,
+    errors,
+  };
+
+  if (dryRun) {
+    return c.json({ ...report, created: [] }, HttpStatusCodes.OK);
+  }
+
+  // All or nothing: any invalid row rejects the whole import
+  if (errors.length > 0) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          issues: errors.flatMap(({ row, issues }) => issues.map(issue => ({
+            code: ZodIssueCode.custom,
+            path: ["rows", row - 1, ...issue.path],
+            message: issue.message,
+          }))),
+          name: "ZodError",
+        },
+      },
+      HttpStatusCodes.UNPROCESSABLE_ENTITY,
+    );
+  }
+
+  const created = await db.transaction(async (tx) => {
+    const inserted = await tx.insert(sites)
+      .values(valid.map(site => ({ ...site, tenantId: tenant.id })))
+      .returning();
+
+    await tx.insert(auditLogs).values({
+      ...getAuditContext(c),
+      action: "import",
+      resourceType: "site",
+      details: {
+        format: isCsv ? "csv" : "json",
+        count: inserted.length,
+        siteIds: inserted.map(site => site.id),
+      },
+    });
+
+    await permifySync?.syncSitesImported(inserted.map(site => site.id), tenant.id);
+
+    return inserted;
+  });
+
+  return c.json({ ...report, created }, HttpStatusCodes.CREATED);
+};
+
+export const getOne: AppRouteHandler<GetOneRoute> = async (c) => {
+  const { siteId } = c.req.valid("param");
+  const tenant = getTenant(c);
+
+  const site = await db.query.sites.findFirst({
+    where(fields, operators) {
+      return operators.and(
+        operators.eq(fields.id, siteId),
+        operators.eq(fields.tenantId, tenant.id),
+      );
+    },
+  });
+
+  if (!site) {
+    return c.json(
+      {
+        message: HttpStatusPhrases.NOT_FOUND,
+      },
+      HttpStatusCodes.NOT_FOUND,
+    );
+  }
+
+  const openTasks = await findOpenTasks(eq(tasks.siteId, site.id));
+
+  return c.json({ ...site, openTasks }, HttpStatusCodes.OK);
+};
+
+export const patch: AppRouteHandler<PatchRoute> = async (c) => {
+  const { siteId } = c.req.valid("param");
+  const tenant = getTenant(c);
+  const updates = c.req.valid("json");
+
+  if (Object.keys(updates).length === 0) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          issues: [
+            {
+              code: ZOD_ERROR_CODES.INVALID_UPDATES,
+              path: [],
+              message: ZOD_ERROR_MESSAGES.NO_UPDATES,
+            },
+          ],
+          name: "ZodError",
+        },
+      },
+      HttpStatusCodes.UNPROCESSABLE_ENTITY,
+    );
+  }
+
+  const [site] = await db.update(sites)
+    .set({
+      ...updates,
+      updatedAt: new Date(),
+    })
+    .where(and(
+      eq(sites.id, siteId),
+      eq(sites.tenantId, tenant.id),
+    ))
+    .returning();
+
+  if (!site) {
+    return c.json(
+      {
+        message: HttpStatusPhrases.NOT_FOUND,
+      },
+      HttpStatusCodes.NOT_FOUND,
+    );
+  }
+
+  return c.json(site, HttpStatusCodes.OK);
+};
+
+export const remove: AppRouteHandler<RemoveRoute> = async (c) => {
+  const { siteId } = c.req.valid("param");
+  const tenant = getTenant(c);
+
+  const [deleted] = await db.delete(sites)
+    .where(and(
+      eq(sites.id, siteId),
+      eq(sites.tenantId, tenant.id),
+    ))
+    .returning();
+
+  if (!deleted) {
+    return c.json(
+      {
+        message: HttpStatusPhrases.NOT_FOUND,
+      },
+      HttpStatusCodes.NOT_FOUND,
+    );
+  }
+
+  return c.body(null, HttpStatusCodes.NO_CONTENT);
+};
+
+export const transition: AppRouteHandler<TransitionRoute> = async (c) => {
+  const { siteId } = c.req.valid("param");
+  const { status, reason } = c.req.valid("json");
+  const tenant = getTenant(c);
+
+  const site = await db.query.sites.findFirst({
+    where(fields, operators) {
+      return operators.and(
+        operators.eq(fields.id, siteId),
+        operators.eq(fields.tenantId, tenant.id),
+      );
+    },
+  });
+
+  if (!site) {
+    return c.json(
+      {
+        message: HttpStatusPhrases.NOT_FOUND,
+      },
+      HttpStatusCodes.NOT_FOUND,
+    );
+  }
+
+  if (!canTransitionSite(site.status, status)) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          issues: [
+            {
+              code: ZodIssueCode.custom,
+              path: ["status"],
+              message: `Cannot transition site from ${site.status} to ${status}`,
+            },
+          ],
+          name: "ZodError",
+        },
+      },
+      HttpStatusCodes.UNPROCESSABLE_ENTITY,
+    );
+  }
+
+  const deviceStatus = cascadedDeviceStatus(status);
+
+  const updated = await db.transaction(async (tx) => {
+    const [transitioned] = await tx.update(sites)
+      .set({
+        status,
+        isActive: status !== "decommissioned",
+        updatedAt: new Date(),
+      })
+      .where(eq(sites.id, site.id))
+      .returning();
+
+    const cascadedDevices = deviceStatus
+      ? await tx.select({ id: devices.id, status: devices.status })
+        .from(devices)
+        .where(and(
+          eq(devices.siteId, site.id),
+          ne(devices.status, "decommissioned"),
+        ))
+        .for("update")
+      : [];
+
+    if (deviceStatus && cascadedDevices.length > 0) {
+      await tx.update(devices)
+        .set({
+          status: deviceStatus,
+          ...(deviceStatus === "decommissioned" ? { isActive: false } : {}),
+          updatedAt: new Date(),
+        })
+        .where(inArray(devices.id, cascadedDevices.map(device => device.id)));
+
+      await recordDeviceStatusChanges(
+        tx,
+        cascadedDevices.map(device => ({ deviceId: device.id, fromStatus: device.status, toStatus: deviceStatus })),
+        "site_transition",
+        c.get("userId"),
+      );
+    }
+
+    // A decommissioned site has no work left to do
+    const closedTasks = closesSiteTasks(status)
+      ? await tx.update(tasks)
+        .set({ done: true, updatedAt: new Date() })
+        .where(and(
+          eq(tasks.siteId, site.id),
+          eq(tasks.done, false),
+        ))
+        .returning({ id: tasks.id })
+      : [];
+
+    await tx.insert(auditLogs).values({
+      ...getAuditContext(c),
+      action: "update",
+      resourceType: "site",
+      resourceId: site.id,
+      details: {
+        transition: { from: site.status, to: status },
+        reason,
+        cascadedDeviceIds: cascadedDevices.map(device => device.id),
+        closedTaskIds: closedTasks.map(task => task.id),
+      },
+    });
+
+    return transitioned;
+  });
+
+  return c.json(updated, HttpStatusCodes.OK);
+};
@@ -0,0 +1,49 @@
+import type { Context, Next } from "hono";
+
+import createRouter from "../../lib/create-router";
+import { keycloakAuth } from "../../middleware/keycloak";
+import { withPermify } from "../../middleware/permify-context";
+import { tenantMiddleware } from "../../middleware/tenant";
+import * as handlers from "./sites.handlers";
+import * as routes from "./sites.routes";
+
+// Auth middleware
+function authMiddleware(c: Context, next: Next) {
+  return keycloakAuth()(c, next);
+}
+
+// Tenant middleware wrapper
+function tenantAuthMiddleware(c: Context, next: Next) {
+  return tenantMiddleware()(c, next);
+}
+
+// Permission checks per operation
+const tenantManageMiddleware = withPermify(helpers => helpers.requireTenantManage());
+const siteAccessMiddleware = withPermify(helpers => helpers.requireSiteAccess());
+const siteManageMiddleware = withPermify(helpers => helpers.requireSiteManage());
+const siteDeleteMiddleware = withPermify(helpers => helpers.requireSiteAccess("delete"));
+
+// All site routes require authentication and tenant context
+const router = createRouter();
+router.use("/tenants/:tenantId/sites", authMiddleware);
+router.use("/tenants/:tenantId/sites", tenantAuthMiddleware);
+router.use("/tenants/:tenantId/sites/:siteId", authMiddleware);
+router.use("/tenants/:tenantId/sites/:siteId", tenantAuthMiddleware);
+router.on("POST", "/tenants/:tenantId/sites", tenantManageMiddleware);
+// Auth and tenant context already apply here through the :siteId paths above
+router.on("POST", "/tenants/:tenantId/sites/import", tenantManageMiddleware);
+router.on("GET", "/tenants/:tenantId/sites/:siteId", siteAccessMiddleware);
+router.on("PATCH", "/tenants/:tenantId/sites/:siteId", siteManageMiddleware);
+router.on("DELETE", "/tenants/:tenantId/sites/:siteId", siteDeleteMiddleware);
+router.use("/tenants/:tenantId/sites/:siteId/transition", authMiddleware);
+router.use("/tenants/:tenantId/sites/:siteId/transition", tenantAuthMiddleware);
+router.use("/tenants/:tenantId/sites/:siteId/transition", siteManageMiddleware);
+router.openapi(routes.list, handlers.list);
+router.openapi(routes.create, handlers.create);
+router.openapi(routes.importSites, handlers.importSites);
+router.openapi(routes.getOne, handlers.getOne);
+router.openapi(routes.patch, handlers.patch);
+router.openapi(routes.remove, handlers.remove);
+router.openapi(routes.transition, handlers.transition);
+
+export default router;
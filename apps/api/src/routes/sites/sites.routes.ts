@@ -0,0 +1,268 @@
+import { createRoute, z } from "@hono/zod-openapi";
+import * as HttpStatusCodes from "stoker/http-status-codes";
+import { jsonContent, jsonContentRequired } from "stoker/openapi/helpers";
+import { createErrorSchema } from "stoker/openapi/schemas";
+
+import { insertSiteSchema, patchSiteSchema, selectSiteSchema, selectTasksSchema } from "../../db/schema";
+import { notFoundSchema } from "../../lib/constants";
+import { parseBoundingBox, parseCoordinates } from "../../lib/geo";
+import { MAX_SITE_IMPORT_ROWS } from "../../lib/site-import";
+
+const tags = ["Sites"];
+
+const tenantParamsSchema = z.object({
+  tenantId: z.string(),
+});
+
+const siteParamsSchema = z.object({
+  tenantId: z.string(),
+  siteId: z.string().uuid(),
+});
+
+const listSitesQuerySchema = z.object({
+  near: z.string()
+    .refine(value => parseCoordinates(value) !== null, "Expected lat,lng")
+    .optional()
+    .openapi({ description: "Order by distance from this point, as lat,lng", example: "40.7128,-74.0060" }),
+  radiusKm: z.coerce.number()
+    .positive()
+    .optional()
+    .openapi({ description: "Only return sites within this distance of near" }),
+  bbox: z.string()
+    .refine(value => parseBoundingBox(value) !== null, "Expected minLng,minLat,maxLng,maxLat")
+    .optional()
+    .openapi({ description: "Only return sites inside this box, as minLng,minLat,maxLng,maxLat", example: "-74.3,40.5,-73.7,40.9" }),
+});
+
+const siteWithDistanceSchema = selectSiteSchema.extend({
+  distanceKm: z.number().nullable(),
+});
+
+const siteDetailSchema = selectSiteSchema.extend({
+  openTasks: z.array(selectTasksSchema),
+});
+
+// The tenant comes from the path, so it is not part of the request body
+const createSiteBodySchema = insertSiteSchema.omit({ tenantId: true });
+// Status only changes through the transition route
+const patchSiteBodySchema = patchSiteSchema.omit({ tenantId: true, status: true });
+
+const transitionSiteBodySchema = z.object({
+  status: z.enum(["active", "inactive", "maintenance", "decommissioned"]),
+  reason: z.string().trim().min(1).max(1000),
+});
+
+const importSitesQuerySchema = z.object({
+  dryRun: z.enum(["true", "false"])
+    .optional()
+    .openapi({ description: "Validate the rows without creating any sites" }),
+});
+
+const importSitesJsonBodySchema = z.object({
+  rows: z.array(z.record(z.unknown()))
+    .min(1)
+    .max(MAX_SITE_IMPORT_ROWS),
+});
+
+const siteImportReportSchema = z.object({
+  dryRun: z.boolean(),
+  total: z.number(),
+  valid: z.number(),
+  errors: z.array(z.object({
+    row: z.number().openapi({ description: "1-based position of the row, not counting the CSV header" }),
+    issues: z.array(z.object({
+      path: z.array(z.union([z.string(), z.number()])),
+      message: z.string(),
+    })),
+  })),
+  created: z.array(selectSiteSchema),
+});
+
+// Tenant-aware site routes
+export const list = createRoute({
+  path: "/tenants/{tenantId}/sites",
+  method: "get",
+  request: {
+    params: tenantParamsSchema,
+    query: listSitesQuerySchema,
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(
+      z.array(siteWithDistanceSchema),
+      "The sites the user can view, nearest first when near is given",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(listSitesQuerySchema),
+      "Invalid query parameters",
+    ),
+  },
+});
+
+export const create = createRoute({
+  path: "/tenants/{tenantId}/sites",
+  method: "post",
+  request: {
+    params: tenantParamsSchema,
+    body: jsonContentRequired(
+      createSiteBodySchema,
+      "The site to create",
+    ),
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.CREATED]: jsonContent(
+      selectSiteSchema,
+      "The created site",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(createSiteBodySchema),
+      "The validation error(s)",
+    ),
+  },
+});
+
+export const importSites = createRoute({
+  path: "/tenants/{tenantId}/sites/import",
+  method: "post",
+  request: {
+    params: tenantParamsSchema,
+    query: importSitesQuerySchema,
+    body: {
+      content: {
+        "application/json": {
+          schema: importSitesJsonBodySchema,
+        },
+        "text/csv": {
+          schema: z.string().openapi({ description: "CSV with a header row of site field names" }),
+        },
+      },
+      description: "The sites to import, as JSON rows or CSV",
+    },
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(
+      siteImportReportSchema,
+      "The validation report for a dry run",
+    ),
+    [HttpStatusCodes.CREATED]: jsonContent(
+      siteImportReportSchema,
+      "The validation report and the created sites",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(importSitesJsonBodySchema),
+      "The validation error(s); nothing is created when any row is invalid",
+    ),
+  },
+});
+
+export const getOne = createRoute({
+  path: "/tenants/{tenantId}/sites/{siteId}",
+  method: "get",
+  request: {
+    params: siteParamsSchema,
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(
+      siteDetailSchema,
+      "The requested site and its open tasks",
+    ),
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      notFoundSchema,
+      "Site not found",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(siteParamsSchema),
+      "Invalid parameters",
+    ),
+  },
+});
+
+export const patch = createRoute({
+  path: "/tenants/{tenantId}/sites/{siteId}",
+  method: "patch",
+  request: {
+    params: siteParamsSchema,
+    body: jsonContentRequired(
+      patchSiteBodySchema,
+      "The site updates",
+    ),
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(
+      selectSiteSchema,
+      "The updated site",
+    ),
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      notFoundSchema,
+      "Site not found",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(patchSiteBodySchema)
+        .or(createErrorSchema(siteParamsSchema)),
+      "The validation error(s)",
+    ),
+  },
+});
+
+export const remove = createRoute({
+  path: "/tenants/{tenantId}/sites/{siteId}",
+  method: "delete",
+  request: {
+    params: siteParamsSchema,
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.NO_CONTENT]: {
+      description: "Site deleted",
+    },
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      notFoundSchema,
+      "Site not found",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(siteParamsSchema),
+      "Invalid parameters",
+    ),
+  },
+});
+
+// Maintenance cascades to the site's devices; decommissioning also decommissions them and closes its open tasks
+export const transition = createRoute({
+  path: "/tenants/{tenantId}/sites/{siteId}/transition",
+  method: "post",
+  request: {
+    params: siteParamsSchema,
+    body: jsonContentRequired(
+      transitionSiteBodySchema,
+      "The target status and the reason for the change",
+    ),
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(
+      selectSiteSchema,
+      "The site in its new status",
+    ),
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      notFoundSchema,
+      "Site not found",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(transitionSiteBodySchema)
+        .or(createErrorSchema(siteParamsSchema)),
+      "The validation error(s), including illegal transitions",
+    ),
+  },
+});
+
+export type ListRoute = typeof list;
+export type CreateRoute = typeof create;
+export type ImportSitesRoute = typeof importSites;
+export type GetOneRoute = typeof getOne;
+export type PatchRoute = typeof patch;
+export type RemoveRoute = typeof remove;
+export type TransitionRoute = typeof transition;
@@ -0,0 +1,83 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { db } from "../../db";
+import { sites } from "../../db/schema";
+import { createTestApp } from "../../lib/create-app";
+import { createTestTenant, createTestUser, testPermify, TestPermifyService } from "../../test/route-test-utils";
+import router from "./sites.index";
+
+vi.mock("../../env", async () => {
+  const { testEnv } = await import("../../test/route-test-utils");
+  return { default: testEnv, env: testEnv };
+});
+vi.mock("../../db", async () => (await import("../../test/route-test-utils")).createTestDatabase());
+vi.mock("../../middleware/keycloak", async (importOriginal) => {
+  const { testKeycloakAuth } = await import("../../test/route-test-utils");
+  return {
+    ...await importOriginal<typeof import("../../middleware/keycloak")>(),
+    keycloakAuth: () => testKeycloakAuth(),
+    optionalKeycloakAuth: () => testKeycloakAuth(true),
+  };
+});
+vi.mock("../../middleware/permify-context", async (importOriginal) => {
+  const { testPermifyContext } = await import("../../test/route-test-utils");
+  return {
+    ...await importOriginal<typeof import("../../middleware/permify-context")>(),
+    permifyContext: testPermifyContext,
+  };
+});
+
+const app = createTestApp(router);
+
+describe("sites routes", () => {
+  let userId: string;
+  let tenantId: string;
+  let siteIds: string[];
+
+  beforeEach(async () => {
+    testPermify.service = null;
+    const user = await createTestUser(db, "Operator");
+    const tenant = await createTestTenant(db, [{ userId: user.id, role: "member" }]);
+    const otherTenant = await createTestTenant(db, []);
+    userId = user.id;
+    tenantId = tenant.id;
+
+    const created = await db.insert(sites).values([
+      { tenantId, name: "North plant", address: "1 North Road" },
+      { tenantId, name: "South plant", address: "2 South Road" },
+      { tenantId, name: "West plant", address: "3 West Road" },
+      { tenantId: otherTenant.id, name: "Other plant", address: "4 East Road" },
+    ]).returning({ id: sites.id });
+    siteIds = created.map(site => site.id);
+  });
+
+  async function listSiteNames() {
+    const response = await app.request(`/api/tenants/${tenantId}/sites`, {
+      headers: { Authorization: `Bearer ${userId}` },
+    });
+    expect(response.status).toBe(200);
+    const json = await response.json() as { name: string }[];
+    return json.map(site => site.name).sort();
+  }
+
+  it("get /sites lists the tenant's sites when Permify is disabled", async () => {
+    expect(await listSiteNames()).toEqual(["North plant", "South plant", "West plant"]);
+  });
+
+  it("get /sites lists only the sites the user can view", async () => {
+    const permify = new TestPermifyService();
+    permify.permit("site", siteIds[0]);
+    permify.permit("site", siteIds[2]);
+    // A site of another tenant stays hidden even when Permify allows it
+    permify.permit("site", siteIds[3]);
+    testPermify.service = permify;
+
+    expect(await listSiteNames()).toEqual(["North plant", "West plant"]);
+  });
+
+  it("get /sites is empty when the user can view no sites", async () => {
+    testPermify.service = new TestPermifyService();
+
+    expect(await listSiteNames()).toEqual([]);
+  });
+});
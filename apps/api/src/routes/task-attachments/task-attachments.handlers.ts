@@ -0,0 +1,209 @@
+import { and, desc, eq } from "drizzle-orm";
+import { randomUUID } from "node:crypto";
+import * as HttpStatusCodes from "stoker/http-status-codes";
+import * as HttpStatusPhrases from "stoker/http-status-phrases";
+
+import type { AppRouteHandler } from "../../lib/types";
+import type { DownloadRoute, GetDownloadUrlRoute, ListRoute, RemoveRoute, UploadRoute } from "./task-attachments.routes";
+
+import { db } from "../../db";
+import { auditLogs, taskAttachmentColumns, taskAttachments } from "../../db/schema";
+import {
+  ATTACHMENT_LIMITS,
+  attachmentChecksum,
+  attachmentFileName,
+  attachmentRejection,
+  attachmentStorageKey,
+  detectMimeType,
+} from "../../lib/attachments";
+import { getAuditContext } from "../../lib/audit";
+import { attachmentDownloadUrl, attachmentStorage, isValidAttachmentDownload } from "../../lib/task-attachments";
+import { canAccessTask, findTenantTask } from "../../lib/tasks";
+import { requireUser } from "../../middleware/keycloak";
+import { getTenant } from "../../middleware/tenant";
+
+async function findTaskAttachment(taskId: number, attachmentId: string) {
+  return db.query.taskAttachments.findFirst({
+    where: and(eq(taskAttachments.id, attachmentId), eq(taskAttachments.taskId, taskId)),
+  });
+}
+
+export const list: AppRouteHandler<ListRoute> = async (c) => {
+  const { id } = c.req.valid("param");
+  const tenant = getTenant(c);
+
+  const task = await findTenantTask(tenant.id, id);
+  if (!task || !(await canAccessTask(c, task, "view"))) {
+    return c.json(
+      {
+        message: HttpStatusPhrases.NOT_FOUND,
+      },
+      HttpStatusCodes.NOT_FOUND,
+    );
+  }
+
+  const attachments = await db.select(taskAttachmentColumns)
+    .from(taskAttachments)
+    .where(eq(taskAttachments.taskId, task.id))
+    .orderBy(desc(taskAttachments.createdAt));
+
+  return c.json(attachments, HttpStatusCodes.OK);
+};
+
+export const upload: AppRouteHandler<UploadRoute> = async (c) => {
+  const { id } = c.req.valid("param");
+  const user = requireUser(c);
+  const tenant = getTenant(c);
+  const limits = ATTACHMENT_LIMITS[tenant.type];
+
+  const task = await findTenantTask(tenant.id, id);
+  if (!task || !(await canAccessTask(c, task, "edit"))) {
+    return c.json(
+      {
+        message: HttpStatusPhrases.NOT_FOUND,
+      },
+      HttpStatusCodes.NOT_FOUND,
+    );
+  }
+
+  const { file } = c.req.valid("form");
+  const data = new Uint8Array(await file.arrayBuffer());
+  const mimeType = detectMimeType(data);
+
+  const rejection = attachmentRejection(limits, { size: data.byteLength, mimeType });
+  if (rejection || !mimeType) {
+    return rejection?.reason === "size"
+      ? c.json({ message: rejection.message }, HttpStatusCodes.REQUEST_TOO_LONG)
+      : c.json({ message: rejection?.message ?? "Unrecognized file type" }, HttpStatusCodes.UNSUPPORTED_MEDIA_TYPE);
+  }
+
+  const attachmentId = randomUUID();
+  const storageKey = attachmentStorageKey(tenant.id, task.id, attachmentId);
+  await attachmentStorage.put(storageKey, data);
+
+  try {
+    const created = await db.transaction(async (tx) => {
+      const [attachment] = await tx.insert(taskAttachments).values({
+        id: attachmentId,
+        tenantId: tenant.id,
+        taskId: task.id,
+        uploadedBy: user.sub,
+        fileName: attachmentFileName(file.name),
+        mimeType,
+        size: data.byteLength,
+        checksum: attachmentChecksum(data),
+        storageKey,
+      }).returning(taskAttachmentColumns);
+
+      await tx.insert(auditLogs).values({
+        ...getAuditContext(c),
+        action: "create",
+        resourceType: "task",
+        resourceId: String(task.id),
+        details: { event: "attachment_added", attachmentId, fileName: attachment.fileName, checksum: attachment.checksum },
+      });
+
+      return attachment;
+    });
+
+    return c.json(created, HttpStatusCodes.CREATED);
+  }
+  catch (error) {
+    // Without its row, the stored file could never be reached or cleaned up
+    await attachmentStorage.remove(storageKey);
+    throw error;
+  }
+};
+
+export const getDownloadUrl: AppRouteHandler<GetDownloadUrlRoute> = async (c) => {
+  const { id, attachmentId } = c.req.valid("param");
+  const tenant = getTenant(c);
+
+  const task = await findTenantTask(tenant.id, id);
+  const attachment = task && (await canAccessTask(c, task, "view"))
+    ? await findTaskAttachment(task.id, attachmentId)
+    : undefined;
+
+  if (!attachment) {
+    return c.json(
+      {
+        message: HttpStatusPhrases.NOT_FOUND,
+      },
+      HttpStatusCodes.NOT_FOUND,
+    );
+  }
+
+  return c.json(attachmentDownloadUrl(attachment.id), HttpStatusCodes.OK);
+};
+
+export const remove: AppRouteHandler<RemoveRoute> = async (c) => {
+  const { id, attachmentId } = c.req.valid("param");
+  const tenant = getTenant(c);
+
+  const task = await findTenantTask(tenant.id, id);
+  const attachment = task && (await canAccessTask(c, task, "edit"))
+    ? await findTaskAttachment(task.id, attachmentId)
+    : undefined;
+
+  if (!attachment) {
+    return c.json(
+      {
+        message: HttpStatusPhrases.NOT_FOUND,
+      },
+      HttpStatusCodes.NOT_FOUND,
+    );
+  }
+
+  await db.transaction(async (tx) => {
+    await tx.delete(taskAttachments).where(eq(taskAttachments.id, attachment.id));
+
+    await tx.insert(auditLogs).values({
+      ...getAuditContext(c),
+      action: "delete",
+      resourceType: "task",
+      resourceId: String(attachment.taskId),
+      details: { event: "attachment_removed", attachmentId: attachment.id, fileName: attachment.fileName },
+    });
+  });
+
+  try {
+    await attachmentStorage.remove(attachment.storageKey);
+  }
+  catch (error) {
+    c.get("logger").error({ attachmentId: attachment.id, err: error }, "Failed to delete attachment file");
+  }
+
+  return c.body(null, HttpStatusCodes.NO_CONTENT);
+};
+
+export const download: AppRouteHandler<DownloadRoute> = async (c) => {
+  const { attachmentId } = c.req.valid("param");
+  const { expires, signature } = c.req.valid("query");
+
+  if (!isValidAttachmentDownload(attachmentId, expires, signature)) {
+    return c.json({ message: "Invalid or expired download URL" }, HttpStatusCodes.FORBIDDEN);
+  }
+
+  const attachment = await db.query.taskAttachments.findFirst({
+    where: eq(taskAttachments.id, attachmentId),
+  });
+  const data = attachment && (await attachmentStorage.get(attachment.storageKey));
+
+  if (!attachment || !data) {
+    return c.json(
+      {
+        message: HttpStatusPhrases.NOT_FOUND,
+      },
+      HttpStatusCodes.NOT_FOUND,
+    );
+  }
+
+  return c.body(data, HttpStatusCodes.OK, {
+    "Content-Type": attachment.mimeType,
+    "Content-Length": String(data.byteLength),
+    "Content-Disposition": `inline; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`,
+    "X-Content-Type-Options": "nosniff",
+    "Cache-Control": "private, no-store",
+    "ETag": `"${attachment.checksum}"`,
+  });
+};
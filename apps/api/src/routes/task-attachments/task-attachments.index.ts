@@ -0,0 +1,44 @@
+import type { Context, Next } from "hono";
+
+import { bodyLimit } from "hono/body-limit";
+import * as HttpStatusCodes from "stoker/http-status-codes";
+
+import { MAX_ATTACHMENT_REQUEST_BYTES } from "../../lib/attachments";
+import createRouter from "../../lib/create-router";
+import { keycloakAuth } from "../../middleware/keycloak";
+import { tenantMiddleware } from "../../middleware/tenant";
+import * as handlers from "./task-attachments.handlers";
+import * as routes from "./task-attachments.routes";
+
+// Auth middleware
+function authMiddleware(c: Context, next: Next) {
+  return keycloakAuth()(c, next);
+}
+
+// Tenant middleware wrapper
+function tenantAuthMiddleware(c: Context, next: Next) {
+  return tenantMiddleware()(c, next);
+}
+
+// Stops reading an upload past the largest plan's limit, before the form is parsed into memory
+const uploadBodyLimit = bodyLimit({
+  maxSize: MAX_ATTACHMENT_REQUEST_BYTES,
+  onError: c => c.json({ message: "Attachment is too large" }, HttpStatusCodes.REQUEST_TOO_LONG),
+});
+
+// Task access is checked in the handlers. Downloads carry a signature instead of a login.
+const router = createRouter();
+router.use("/tenants/:tenantId/tasks/:id/attachments", authMiddleware);
+router.use("/tenants/:tenantId/tasks/:id/attachments", tenantAuthMiddleware);
+router.use("/tenants/:tenantId/tasks/:id/attachments", uploadBodyLimit);
+router.use("/tenants/:tenantId/tasks/:id/attachments/:attachmentId", authMiddleware);
+router.use("/tenants/:tenantId/tasks/:id/attachments/:attachmentId", tenantAuthMiddleware);
+router.use("/tenants/:tenantId/tasks/:id/attachments/:attachmentId/url", authMiddleware);
+router.use("/tenants/:tenantId/tasks/:id/attachments/:attachmentId/url", tenantAuthMiddleware);
+router.openapi(routes.list, handlers.list);
+router.openapi(routes.upload, handlers.upload);
+router.openapi(routes.getDownloadUrl, handlers.getDownloadUrl);
+router.openapi(routes.remove, handlers.remove);
+router.openapi(routes.download, handlers.download);
+
+export default router;
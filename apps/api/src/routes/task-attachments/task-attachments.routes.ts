@@ -0,0 +1,185 @@
+import { createRoute, z } from "@hono/zod-openapi";
+import * as HttpStatusCodes from "stoker/http-status-codes";
+import { jsonContent } from "stoker/openapi/helpers";
+import { createErrorSchema } from "stoker/openapi/schemas";
+
+import { selectTaskAttachmentSchema } from "../../db/schema";
+import { notFoundSchema } from "../../lib/constants";
+
+const tags = ["Task Attachments"];
+
+const taskParamsSchema = z.object({
+  tenantId: z.string(),
+  id: z.coerce.number(),
+});
+
+const attachmentParamsSchema = taskParamsSchema.extend({
+  attachmentId: z.string().uuid(),
+});
+
+const uploadAttachmentSchema = z.object({
+  file: z.instanceof(File).openapi({ type: "string", format: "binary" }),
+});
+
+const downloadQuerySchema = z.object({
+  expires: z.coerce.number().int(),
+  signature: z.string(),
+});
+
+const messageSchema = z.object({
+  message: z.string(),
+});
+
+export const list = createRoute({
+  path: "/tenants/{tenantId}/tasks/{id}/attachments",
+  method: "get",
+  request: {
+    params: taskParamsSchema,
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(
+      z.array(selectTaskAttachmentSchema),
+      "The task's attachments, newest first",
+    ),
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      notFoundSchema,
+      "Task not found",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(taskParamsSchema),
+      "Invalid parameters",
+    ),
+  },
+});
+
+// Size and file type limits depend on the tenant's plan. The type is detected from the contents.
+export const upload = createRoute({
+  path: "/tenants/{tenantId}/tasks/{id}/attachments",
+  method: "post",
+  request: {
+    params: taskParamsSchema,
+    body: {
+      content: {
+        "multipart/form-data": {
+          schema: uploadAttachmentSchema,
+        },
+      },
+      description: "The file to attach",
+      required: true,
+    },
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.CREATED]: jsonContent(
+      selectTaskAttachmentSchema,
+      "The stored attachment, with its SHA-256 checksum",
+    ),
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      notFoundSchema,
+      "Task not found",
+    ),
+    [HttpStatusCodes.REQUEST_TOO_LONG]: jsonContent(
+      messageSchema,
+      "File larger than the tenant's plan allows",
+    ),
+    [HttpStatusCodes.UNSUPPORTED_MEDIA_TYPE]: jsonContent(
+      messageSchema,
+      "File type not allowed on the tenant's plan",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(uploadAttachmentSchema)
+        .or(createErrorSchema(taskParamsSchema)),
+      "The validation error(s)",
+    ),
+  },
+});
+
+export const getDownloadUrl = createRoute({
+  path: "/tenants/{tenantId}/tasks/{id}/attachments/{attachmentId}/url",
+  method: "get",
+  request: {
+    params: attachmentParamsSchema,
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(
+      z.object({
+        url: z.string().openapi({ description: "Downloads the file without further authentication until it expires" }),
+        expiresAt: z.date(),
+      }),
+      "A short-lived signed download URL",
+    ),
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      notFoundSchema,
+      "Task or attachment not found",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(attachmentParamsSchema),
+      "Invalid parameters",
+    ),
+  },
+});
+
+export const remove = createRoute({
+  path: "/tenants/{tenantId}/tasks/{id}/attachments/{attachmentId}",
+  method: "delete",
+  request: {
+    params: attachmentParamsSchema,
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.NO_CONTENT]: {
+      description: "Attachment deleted",
+    },
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      notFoundSchema,
+      "Task or attachment not found",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(attachmentParamsSchema),
+      "Invalid parameters",
+    ),
+  },
+});
+
+// Authorized by the URL's signature rather than a login, so it works in links and <img> tags
+export const download = createRoute({
+  path: "/attachments/{attachmentId}/content",
+  method: "get",
+  request: {
+    params: z.object({
+      attachmentId: z.string().uuid(),
+    }),
+    query: downloadQuerySchema,
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.OK]: {
+      content: {
+        "application/octet-stream": {
+          schema: z.string().openapi({ format: "binary" }),
+        },
+      },
+      description: "The file, with its detected content type",
+    },
+    [HttpStatusCodes.FORBIDDEN]: jsonContent(
+      messageSchema,
+      "Invalid or expired download URL",
+    ),
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      notFoundSchema,
+      "Attachment not found",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(downloadQuerySchema),
+      "Invalid parameters",
+    ),
+  },
+});
+
+export type ListRoute = typeof list;
+export type UploadRoute = typeof upload;
+export type GetDownloadUrlRoute = typeof getDownloadUrl;
+export type RemoveRoute = typeof remove;
+export type DownloadRoute = typeof download;
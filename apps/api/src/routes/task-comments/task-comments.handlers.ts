@@ -0,0 +1,231 @@
+import type { SQL } from "drizzle-orm";
+
+import { and, asc, eq, getTableColumns } from "drizzle-orm";
+import { HTTPException } from "hono/http-exception";
+import * as HttpStatusCodes from "stoker/http-status-codes";
+import * as HttpStatusPhrases from "stoker/http-status-phrases";
+
+import type { Executor } from "../../db";
+import type { AppRouteHandler } from "../../lib/types";
+import type { CreateRoute, ListRoute, PatchRoute, RemoveRoute } from "./task-comments.routes";
+
+import { db } from "../../db";
+import { auditLogs, notifications, taskComments, users, userTenantAssociations } from "../../db/schema";
+import { getAuditContext } from "../../lib/audit";
+import {
+  isWithinEditWindow,
+  parseMentions,
+  resolveMentions,
+  TASK_COMMENT_EDIT_WINDOW_MINUTES,
+} from "../../lib/task-comments";
+import { canAccessTask, findTenantTask } from "../../lib/tasks";
+import { requireUser } from "../../middleware/keycloak";
+import { getTenant } from "../../middleware/tenant";
+
+const commentColumns = {
+  ...getTableColumns(taskComments),
+  author: {
+    id: users.id,
+    name: users.name,
+  },
+};
+
+function findComments(where: SQL) {
+  return db.select(commentColumns)
+    .from(taskComments)
+    .leftJoin(users, eq(taskComments.authorId, users.id))
+    .where(where)
+    .orderBy(asc(taskComments.createdAt), asc(taskComments.id));
+}
+
+// Active tenant members the comment mentions, other than its author
+async function findMentionedMembers(tenantId: string, body: string, authorId: string) {
+  const handles = parseMentions(body);
+  if (handles.length === 0) {
+    return [];
+  }
+
+  const members = await db.select({ userId: users.id, email: users.email })
+    .from(userTenantAssociations)
+    .innerJoin(users, eq(userTenantAssociations.userId, users.id))
+    .where(and(
+      eq(userTenantAssociations.tenantId, tenantId),
+      eq(userTenantAssociations.status, "active"),
+    ));
+
+  return resolveMentions(handles, members).filter(userId => userId !== authorId);
+}
+
+async function notifyMentioned(
+  executor: Executor,
+  comment: { id: string; taskId: number; authorId: string | null },
+  tenantId: string,
+  userIds: string[],
+) {
+  if (userIds.length === 0) {
+    return;
+  }
+
+  await executor.insert(notifications).values(userIds.map(userId => ({
+    tenantId,
+    userId,
+    actorId: comment.authorId,
+    type: "task_comment_mention" as const,
+    taskId: comment.taskId,
+    commentId: comment.id,
+  })));
+}
+
+export const list: AppRouteHandler<ListRoute> = async (c) => {
+  const { id } = c.req.valid("param");
+  const tenant = getTenant(c);
+
+  const task = await findTenantTask(tenant.id, id);
+  if (!task || !(await canAccessTask(c, task, "view"))) {
+    return c.json(
+      {
+        message: HttpStatusPhrases.NOT_FOUND,
+      },
+      HttpStatusCodes.NOT_FOUND,
+    );
+  }
+
+  const comments = await findComments(eq(taskComments.taskId, task.id));
+
+  return c.json(comments, HttpStatusCodes.OK);
+};
+
+export const create: AppRouteHandler<CreateRoute> = async (c) => {
+  const { id } = c.req.valid("param");
+  const { body } = c.req.valid("json");
+  const user = requireUser(c);
+  const tenant = getTenant(c);
+
+  const task = await findTenantTask(tenant.id, id);
+  if (!task || !(await canAccessTask(c, task, "view"))) {
+    return c.json(
+      {
+        message: HttpStatusPhrases.NOT_FOUND,
+      },
+      HttpStatusCodes.NOT_FOUND,
+    );
+  }
+
+  const mentioned = await findMentionedMembers(tenant.id, body, user.sub);
+
+  const created = await db.transaction(async (tx) => {
+    const [comment] = await tx.insert(taskComments).values({
+      taskId: task.id,
+      authorId: user.sub,
+      body,
+    }).returning();
+
+    await notifyMentioned(tx, comment, tenant.id, mentioned);
+
+    return comment;
+  });
+
+  const [comment] = await findComments(eq(taskComments.id, created.id));
+
+  return c.json(comment, HttpStatusCodes.CREATED);
+};
+
+export const patch: AppRouteHandler<PatchRoute> = async (c) => {
+  const { id, commentId } = c.req.valid("param");
+  const { body } = c.req.valid("json");
+  const user = requireUser(c);
+  const tenant = getTenant(c);
+
+  const task = await findTenantTask(tenant.id, id);
+  const current = task && (await canAccessTask(c, task, "view"))
+    ? await db.query.taskComments.findFirst({
+      where: and(eq(taskComments.id, commentId), eq(taskComments.taskId, task.id)),
+    })
+    : undefined;
+
+  if (!current) {
+    return c.json(
+      {
+        message: HttpStatusPhrases.NOT_FOUND,
+      },
+      HttpStatusCodes.NOT_FOUND,
+    );
+  }
+
+  if (current.authorId !== user.sub) {
+    throw new HTTPException(HttpStatusCodes.FORBIDDEN, {
+      message: "Only the author can edit a comment",
+    });
+  }
+
+  if (!isWithinEditWindow(current.createdAt)) {
+    throw new HTTPException(HttpStatusCodes.FORBIDDEN, {
+      message: `Comments can only be edited within ${TASK_COMMENT_EDIT_WINDOW_MINUTES} minutes of posting`,
+    });
+  }
+
+  // Members mentioned before the edit were already notified
+  const [mentioned, previouslyMentioned] = await Promise.all([
+    findMentionedMembers(tenant.id, body, user.sub),
+    findMentionedMembers(tenant.id, current.body, user.sub),
+  ]);
+
+  await db.transaction(async (tx) => {
+    await tx.update(taskComments)
+      .set({ body, editedAt: new Date(), updatedAt: new Date() })
+      .where(eq(taskComments.id, current.id));
+
+    await notifyMentioned(
+      tx,
+      current,
+      tenant.id,
+      mentioned.filter(userId => !previouslyMentioned.includes(userId)),
+    );
+  });
+
+  const [comment] = await findComments(eq(taskComments.id, current.id));
+
+  return c.json(comment, HttpStatusCodes.OK);
+};
+
+export const remove: AppRouteHandler<RemoveRoute> = async (c) => {
+  const { id, commentId } = c.req.valid("param");
+  const user = requireUser(c);
+  const tenant = getTenant(c);
+
+  const task = await findTenantTask(tenant.id, id);
+  const comment = task && (await canAccessTask(c, task, "view"))
+    ? await db.query.taskComments.findFirst({
+      where: and(eq(taskComments.id, commentId), eq(taskComments.taskId, task.id)),
+    })
+    : undefined;
+
+  if (!task || !comment) {
+    return c.json(
+      {
+        message: HttpStatusPhrases.NOT_FOUND,
+      },
+      HttpStatusCodes.NOT_FOUND,
+    );
+  }
+
+  if (comment.authorId !== user.sub && !(await canAccessTask(c, task, "edit"))) {
+    throw new HTTPException(HttpStatusCodes.FORBIDDEN, {
+      message: "Only the author, or someone who can edit the task, can delete a comment",
+    });
+  }
+
+  await db.transaction(async (tx) => {
+    await tx.delete(taskComments).where(eq(taskComments.id, comment.id));
+
+    await tx.insert(auditLogs).values({
+      ...getAuditContext(c),
+      action: "delete",
+      resourceType: "task",
+      resourceId: String(task.id),
+      details: { event: "comment_deleted", commentId: comment.id, authorId: comment.authorId },
+    });
+  });
+
+  return c.body(null, HttpStatusCodes.NO_CONTENT);
+};
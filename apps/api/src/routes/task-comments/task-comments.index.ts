@@ -0,0 +1,30 @@
+import type { Context, Next } from "hono";
+
+import createRouter from "../../lib/create-router";
+import { keycloakAuth } from "../../middleware/keycloak";
+import { tenantMiddleware } from "../../middleware/tenant";
+import * as handlers from "./task-comments.handlers";
+import * as routes from "./task-comments.routes";
+
+// Auth middleware
+function authMiddleware(c: Context, next: Next) {
+  return keycloakAuth()(c, next);
+}
+
+// Tenant middleware wrapper
+function tenantAuthMiddleware(c: Context, next: Next) {
+  return tenantMiddleware()(c, next);
+}
+
+// Task access is checked in the handlers, since creators and assignees need no Permify relation
+const router = createRouter();
+router.use("/tenants/:tenantId/tasks/:id/comments", authMiddleware);
+router.use("/tenants/:tenantId/tasks/:id/comments", tenantAuthMiddleware);
+router.use("/tenants/:tenantId/tasks/:id/comments/:commentId", authMiddleware);
+router.use("/tenants/:tenantId/tasks/:id/comments/:commentId", tenantAuthMiddleware);
+router.openapi(routes.list, handlers.list);
+router.openapi(routes.create, handlers.create);
+router.openapi(routes.patch, handlers.patch);
+router.openapi(routes.remove, handlers.remove);
+
+export default router;
@@ -0,0 +1,134 @@
+import { createRoute, z } from "@hono/zod-openapi";
+import * as HttpStatusCodes from "stoker/http-status-codes";
+import { jsonContent, jsonContentRequired } from "stoker/openapi/helpers";
+import { createErrorSchema } from "stoker/openapi/schemas";
+
+import { insertTaskCommentSchema, patchTaskCommentSchema, selectTaskCommentSchema } from "../../db/schema";
+import { notFoundSchema } from "../../lib/constants";
+
+const tags = ["Task Comments"];
+
+const taskParamsSchema = z.object({
+  tenantId: z.string(),
+  id: z.coerce.number(),
+});
+
+const commentParamsSchema = taskParamsSchema.extend({
+  commentId: z.string().uuid(),
+});
+
+const taskCommentSchema = selectTaskCommentSchema.extend({
+  author: z.object({
+    id: z.string(),
+    name: z.string(),
+  }).nullable().openapi({ description: "Null once the author's account is deleted" }),
+});
+
+export const list = createRoute({
+  path: "/tenants/{tenantId}/tasks/{id}/comments",
+  method: "get",
+  request: {
+    params: taskParamsSchema,
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(
+      z.array(taskCommentSchema),
+      "The task's comments, oldest first",
+    ),
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      notFoundSchema,
+      "Task not found",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(taskParamsSchema),
+      "Invalid parameters",
+    ),
+  },
+});
+
+// Mentioned tenant members are notified
+export const create = createRoute({
+  path: "/tenants/{tenantId}/tasks/{id}/comments",
+  method: "post",
+  request: {
+    params: taskParamsSchema,
+    body: jsonContentRequired(
+      insertTaskCommentSchema,
+      "The comment to post",
+    ),
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.CREATED]: jsonContent(
+      taskCommentSchema,
+      "The posted comment",
+    ),
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      notFoundSchema,
+      "Task not found",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(insertTaskCommentSchema)
+        .or(createErrorSchema(taskParamsSchema)),
+      "The validation error(s)",
+    ),
+  },
+});
+
+// Only the author can edit, within a few minutes of posting. Members newly mentioned by the edit are notified.
+export const patch = createRoute({
+  path: "/tenants/{tenantId}/tasks/{id}/comments/{commentId}",
+  method: "patch",
+  request: {
+    params: commentParamsSchema,
+    body: jsonContentRequired(
+      patchTaskCommentSchema,
+      "The new comment text",
+    ),
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(
+      taskCommentSchema,
+      "The edited comment",
+    ),
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      notFoundSchema,
+      "Task or comment not found",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(patchTaskCommentSchema)
+        .or(createErrorSchema(commentParamsSchema)),
+      "The validation error(s)",
+    ),
+  },
+});
+
+// Authors can delete their own comments; anyone who can edit the task can delete any comment on it
+export const remove = createRoute({
+  path: "/tenants/{tenantId}/tasks/{id}/comments/{commentId}",
+  method: "delete",
+  request: {
+    params: commentParamsSchema,
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.NO_CONTENT]: {
+      description: "Comment deleted",
+    },
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      notFoundSchema,
+      "Task or comment not found",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(commentParamsSchema),
+      "Invalid parameters",
+    ),
+  },
+});
+
+export type ListRoute = typeof list;
+export type CreateRoute = typeof create;
+export type PatchRoute = typeof patch;
+export type RemoveRoute = typeof remove;
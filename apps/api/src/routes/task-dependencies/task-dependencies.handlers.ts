@@ -0,0 +1,183 @@
+import { and, asc, eq, inArray } from "drizzle-orm";
+import { HTTPException } from "hono/http-exception";
+import * as HttpStatusCodes from "stoker/http-status-codes";
+import * as HttpStatusPhrases from "stoker/http-status-phrases";
+import { ZodIssueCode } from "zod";
+
+import type { AppRouteHandler } from "../../lib/types";
+import type { CreateRoute, GraphRoute, RemoveRoute } from "./task-dependencies.routes";
+
+import { db } from "../../db";
+import { auditLogs, taskDependencies, tasks, tenants } from "../../db/schema";
+import { getAuditContext } from "../../lib/audit";
+import { describeDependencyCycle, findDependencyCycle } from "../../lib/task-dependencies";
+import { canAccessTask, findDependencyEdges, findOpenBlockers, findTenantTask } from "../../lib/tasks";
+import { requireUser } from "../../middleware/keycloak";
+import { getTenant } from "../../middleware/tenant";
+
+function blockerValidationError(message: string) {
+  return {
+    success: false as const,
+    error: {
+      issues: [
+        {
+          code: ZodIssueCode.custom,
+          path: ["blockedById"],
+          message,
+        },
+      ],
+      name: "ZodError",
+    },
+  };
+}
+
+export const graph: AppRouteHandler<GraphRoute> = async (c) => {
+  const { id } = c.req.valid("param");
+  const tenant = getTenant(c);
+
+  const task = await findTenantTask(tenant.id, id);
+  if (!task || !(await canAccessTask(c, task, "view"))) {
+    return c.json(
+      {
+        message: HttpStatusPhrases.NOT_FOUND,
+      },
+      HttpStatusCodes.NOT_FOUND,
+    );
+  }
+
+  const [blockerEdges, dependentEdges, openBlockers] = await Promise.all([
+    findDependencyEdges(db, task.id, "blockers"),
+    findDependencyEdges(db, task.id, "dependents"),
+    findOpenBlockers(db, task.id),
+  ]);
+  const edges = [...blockerEdges, ...dependentEdges];
+  const nodeIds = [...new Set([task.id, ...edges.flatMap(edge => [edge.taskId, edge.blockedById])])];
+
+  const rows = await db.select({
+    id: tasks.id,
+    name: tasks.name,
+    done: tasks.done,
+    userId: tasks.userId,
+    assigneeId: tasks.assigneeId,
+  })
+    .from(tasks)
+    .where(and(inArray(tasks.id, nodeIds), eq(tasks.tenantId, tenant.id)))
+    .orderBy(asc(tasks.id));
+
+  // Tasks the caller cannot view stay in the graph so the blocked state adds up, but without their names
+  const nodes = await Promise.all(rows.map(async ({ userId, assigneeId, ...node }) => {
+    const visible = node.id === task.id || await canAccessTask(c, { id: node.id, userId, assigneeId }, "view");
+    return visible ? node : { ...node, name: null };
+  }));
+
+  return c.json({
+    taskId: task.id,
+    blocked: openBlockers.length > 0,
+    nodes,
+    edges,
+  }, HttpStatusCodes.OK);
+};
+
+export const create: AppRouteHandler<CreateRoute> = async (c) => {
+  const { id } = c.req.valid("param");
+  const { blockedById } = c.req.valid("json");
+  const user = requireUser(c);
+  const tenant = getTenant(c);
+
+  const task = await findTenantTask(tenant.id, id);
+  if (!task || !(await canAccessTask(c, task, "edit"))) {
+    return c.json(
+      {
+        message: HttpStatusPhrases.NOT_FOUND,
+      },
+      HttpStatusCodes.NOT_FOUND,
+    );
+  }
+
+  if (blockedById === task.id) {
+    return c.json(blockerValidationError("A task cannot block itself"), HttpStatusCodes.UNPROCESSABLE_ENTITY);
+  }
+
+  const blocker = await findTenantTask(tenant.id, blockedById);
+  if (!blocker || !(await canAccessTask(c, blocker, "view"))) {
+    return c.json(blockerValidationError("Task not found in this tenant"), HttpStatusCodes.UNPROCESSABLE_ENTITY);
+  }
+
+  const created = await db.transaction(async (tx) => {
+    // One dependency change at a time per tenant, so two edges added together cannot close a cycle
+    await tx.select({ id: tenants.id })
+      .from(tenants)
+      .where(eq(tenants.id, tenant.id))
+      .for("no key update");
+
+    const existing = await tx.query.taskDependencies.findFirst({
+      where: and(eq(taskDependencies.taskId, task.id), eq(taskDependencies.blockedById, blocker.id)),
+    });
+    if (existing) {
+      throw new HTTPException(HttpStatusCodes.CONFLICT, {
+        message: `Task #${task.id} is already blocked by task #${blocker.id}`,
+      });
+    }
+
+    const edge = { taskId: task.id, blockedById: blocker.id };
+    const cycle = findDependencyCycle(await findDependencyEdges(tx, blocker.id, "blockers"), edge);
+    if (cycle) {
+      throw new HTTPException(HttpStatusCodes.CONFLICT, {
+        message: describeDependencyCycle(cycle),
+      });
+    }
+
+    const [dependency] = await tx.insert(taskDependencies)
+      .values({ ...edge, createdBy: user.sub })
+      .returning();
+
+    await tx.insert(auditLogs).values({
+      ...getAuditContext(c),
+      action: "update",
+      resourceType: "task",
+      resourceId: String(task.id),
+      details: { event: "dependency_added", blockedById: blocker.id },
+    });
+
+    return dependency;
+  });
+
+  return c.json(created, HttpStatusCodes.CREATED);
+};
+
+export const remove: AppRouteHandler<RemoveRoute> = async (c) => {
+  const { id, blockedById } = c.req.valid("param");
+  const tenant = getTenant(c);
+
+  const task = await findTenantTask(tenant.id, id);
+  const removed = task && (await canAccessTask(c, task, "edit"))
+    ? await db.transaction(async (tx) => {
+      const [dependency] = await tx.delete(taskDependencies)
+        .where(and(eq(taskDependencies.taskId, task.id), eq(taskDependencies.blockedById, blockedById)))
+        .returning();
+
+      if (dependency) {
+        await tx.insert(auditLogs).values({
+          ...getAuditContext(c),
+          action: "update",
+          resourceType: "task",
+          resourceId: String(task.id),
+          details: { event: "dependency_removed", blockedById },
+        });
+      }
+
+      return dependency;
+    })
+    : undefined;
+
+  if (!removed) {
+    return c.json(
+      {
+        message: HttpStatusPhrases.NOT_FOUND,
+      },
+      HttpStatusCodes.NOT_FOUND,
+    );
+  }
+
+  return c.body(null, HttpStatusCodes.NO_CONTENT);
+};
@@ -0,0 +1,29 @@
+import type { Context, Next } from "hono";
+
+import createRouter from "../../lib/create-router";
+import { keycloakAuth } from "../../middleware/keycloak";
+import { tenantMiddleware } from "../../middleware/tenant";
+import * as handlers from "./task-dependencies.handlers";
+import * as routes from "./task-dependencies.routes";
+
+// Auth middleware
+function authMiddleware(c: Context, next: Next) {
+  return keycloakAuth()(c, next);
+}
+
+// Tenant middleware wrapper
+function tenantAuthMiddleware(c: Context, next: Next) {
+  return tenantMiddleware()(c, next);
+}
+
+// Task access is checked in the handlers, since creators and assignees need no Permify relation
+const router = createRouter();
+router.use("/tenants/:tenantId/tasks/:id/dependencies", authMiddleware);
+router.use("/tenants/:tenantId/tasks/:id/dependencies", tenantAuthMiddleware);
+router.use("/tenants/:tenantId/tasks/:id/dependencies/:blockedById", authMiddleware);
+router.use("/tenants/:tenantId/tasks/:id/dependencies/:blockedById", tenantAuthMiddleware);
+router.openapi(routes.graph, handlers.graph);
+router.openapi(routes.create, handlers.create);
+router.openapi(routes.remove, handlers.remove);
+
+export default router;
@@ -0,0 +1,119 @@
+import { createRoute, z } from "@hono/zod-openapi";
+import * as HttpStatusCodes from "stoker/http-status-codes";
+import { jsonContent, jsonContentRequired } from "stoker/openapi/helpers";
+import { createErrorSchema } from "stoker/openapi/schemas";
+
+import { insertTaskDependencySchema, selectTaskDependencySchema } from "../../db/schema";
+import { notFoundSchema } from "../../lib/constants";
+
+const tags = ["Task Dependencies"];
+
+const taskParamsSchema = z.object({
+  tenantId: z.string(),
+  id: z.coerce.number(),
+});
+
+const dependencyParamsSchema = taskParamsSchema.extend({
+  blockedById: z.coerce.number(),
+});
+
+const conflictSchema = z.object({
+  message: z.string(),
+});
+
+const dependencyGraphSchema = z.object({
+  taskId: z.number(),
+  blocked: z.boolean().openapi({ description: "Whether any of the task's own blockers is still open" }),
+  nodes: z.array(z.object({
+    id: z.number(),
+    name: z.string().nullable().openapi({ description: "Null when the caller cannot view the task" }),
+    done: z.boolean(),
+  })),
+  edges: z.array(z.object({
+    taskId: z.number(),
+    blockedById: z.number(),
+  })).openapi({ description: "Each task is blocked by blockedById" }),
+});
+
+// The task with everything blocking it and everything it blocks, directly or not
+export const graph = createRoute({
+  path: "/tenants/{tenantId}/tasks/{id}/dependencies",
+  method: "get",
+  request: {
+    params: taskParamsSchema,
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(
+      dependencyGraphSchema,
+      "The task's dependency graph",
+    ),
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      notFoundSchema,
+      "Task not found",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(taskParamsSchema),
+      "Invalid parameters",
+    ),
+  },
+});
+
+// The blocker must be in the same tenant, and the edge must not close a cycle
+export const create = createRoute({
+  path: "/tenants/{tenantId}/tasks/{id}/dependencies",
+  method: "post",
+  request: {
+    params: taskParamsSchema,
+    body: jsonContentRequired(
+      insertTaskDependencySchema,
+      "The task that blocks this one",
+    ),
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.CREATED]: jsonContent(
+      selectTaskDependencySchema,
+      "The added dependency",
+    ),
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      notFoundSchema,
+      "Task not found",
+    ),
+    [HttpStatusCodes.CONFLICT]: jsonContent(
+      conflictSchema,
+      "The dependency exists already or would create a cycle",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(insertTaskDependencySchema)
+        .or(createErrorSchema(taskParamsSchema)),
+      "The validation error(s)",
+    ),
+  },
+});
+
+export const remove = createRoute({
+  path: "/tenants/{tenantId}/tasks/{id}/dependencies/{blockedById}",
+  method: "delete",
+  request: {
+    params: dependencyParamsSchema,
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.NO_CONTENT]: {
+      description: "Dependency removed",
+    },
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      notFoundSchema,
+      "Task or dependency not found",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(dependencyParamsSchema),
+      "Invalid parameters",
+    ),
+  },
+});
+
+export type GraphRoute = typeof graph;
+export type CreateRoute = typeof create;
+export type RemoveRoute = typeof remove;
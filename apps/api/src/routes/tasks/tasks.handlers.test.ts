@@ -0,0 +1,108 @@
+import { eq } from "drizzle-orm";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { db } from "../../db";
+import { tasks } from "../../db/schema";
+import { createTestApp } from "../../lib/create-app";
+import { createTestTenant, createTestUser, testPermify, TestPermifyService } from "../../test/route-test-utils";
+import router from "./tasks.index";
+
+vi.mock("../../env", async () => {
+  const { testEnv } = await import("../../test/route-test-utils");
+  return { default: testEnv, env: testEnv };
+});
+vi.mock("../../db", async () => (await import("../../test/route-test-utils")).createTestDatabase());
+vi.mock("../../middleware/keycloak", async (importOriginal) => {
+  const { testKeycloakAuth } = await import("../../test/route-test-utils");
+  return {
+    ...await importOriginal<typeof import("../../middleware/keycloak")>(),
+    keycloakAuth: () => testKeycloakAuth(),
+    optionalKeycloakAuth: () => testKeycloakAuth(true),
+  };
+});
+vi.mock("../../middleware/permify-context", async (importOriginal) => {
+  const { testPermifyContext } = await import("../../test/route-test-utils");
+  return {
+    ...await importOriginal<typeof import("../../middleware/permify-context")>(),
+    permifyContext: testPermifyContext,
+  };
+});
+
+const app = createTestApp(router);
+
+describe("tasks routes", () => {
+  let creator: Awaited<ReturnType<typeof createTestUser>>;
+  let assignee: Awaited<ReturnType<typeof createTestUser>>;
+  let member: Awaited<ReturnType<typeof createTestUser>>;
+  let tenant: Awaited<ReturnType<typeof createTestTenant>>;
+  let taskId: number;
+
+  beforeEach(async () => {
+    testPermify.service = null;
+    creator = await createTestUser(db, "Creator");
+    assignee = await createTestUser(db, "Assignee");
+    member = await createTestUser(db, "Member");
+    tenant = await createTestTenant(db, [
+      { userId: creator.id, role: "admin" },
+      { userId: assignee.id, role: "member" },
+      { userId: member.id, role: "member" },
+    ]);
+    const [task] = await db.insert(tasks).values({
+      tenantId: tenant.id,
+      userId: creator.id,
+      assigneeId: assignee.id,
+      name: "Replace filter",
+    }).returning();
+    taskId = task.id;
+  });
+
+  function request(userId: string, method: string, path: string, body: unknown) {
+    return app.request(`/api/tenants/${tenant.id}/tasks/${taskId}${path}`, {
+      method,
+      headers: { "Authorization": `Bearer ${userId}`, "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+  }
+
+  it("patch /tasks/{id} ignores a tenant or creator in the body", async () => {
+    const otherTenant = await createTestTenant(db, [{ userId: assignee.id, role: "owner" }]);
+
+    const response = await request(assignee.id, "PATCH", "", {
+      name: "Replace both filters",
+      tenantId: otherTenant.id,
+      userId: assignee.id,
+    });
+
+    expect(response.status).toBe(200);
+    const [task] = await db.select().from(tasks).where(eq(tasks.id, taskId));
+    expect(task.name).toBe("Replace both filters");
+    expect(task.tenantId).toBe(tenant.id);
+    expect(task.userId).toBe(creator.id);
+  });
+
+  it("post /tasks/{id}/assign grants the new assignee before revoking the old one", async () => {
+    const permify = new TestPermifyService();
+    testPermify.service = permify;
+
+    const response = await request(creator.id, "POST", "/assign", { assigneeId: member.id });
+
+    expect(response.status).toBe(200);
+    const assignments = permify.calls
+      .filter(call => call.relationship.relation === "assignee")
+      .map(call => [call.action, call.relationship.subject.id]);
+    expect(assignments).toEqual([["write", member.id], ["delete", assignee.id]]);
+  });
+
+  it("post /tasks/{id}/assign keeps the old assignee when Permify rejects the new one", async () => {
+    const permify = new TestPermifyService();
+    permify.failWrites = true;
+    testPermify.service = permify;
+
+    const response = await request(creator.id, "POST", "/assign", { assigneeId: member.id });
+
+    expect(response.status).toBe(500);
+    expect(permify.calls).toEqual([]);
+    const [task] = await db.select().from(tasks).where(eq(tasks.id, taskId));
+    expect(task.assigneeId).toBe(assignee.id);
+  });
+});
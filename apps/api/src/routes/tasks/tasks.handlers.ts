@@ -1,65 +1,289 @@
-import { and, eq } from "drizzle-orm";
+import type { SQL } from "drizzle-orm";
+import type { Context } from "hono";
+
+import { and, asc, count, desc, eq, gte, inArray, lt, or, sql } from "drizzle-orm";
+import { HTTPException } from "hono/http-exception";
 import * as HttpStatusCodes from "stoker/http-status-codes";
 import * as HttpStatusPhrases from "stoker/http-status-phrases";
+import { ZodIssueCode } from "zod";
 
+import type { Executor } from "../../db";
+import type { PermifyDataSync } from "../../lib/permify-setup";
+import type { TaskLinkIssue, TaskLinks } from "../../lib/task-links";
+import type { CompletedOccurrence } from "../../lib/task-recurrence";
 import type { AppRouteHandler } from "../../lib/types";
-import type { CreateRoute, GetOneRoute, ListRoute, PatchRoute, RemoveRoute } from "./tasks.routes";
+import type {
+  AssignRoute,
+  CreateChecklistItemRoute,
+  CreateRoute,
+  GetOneRoute,
+  GetSeriesRoute,
+  ListRoute,
+  PatchChecklistItemRoute,
+  PatchRoute,
+  PatchSeriesRoute,
+  RemoveChecklistItemRoute,
+  RemoveRoute,
+  SearchRoute,
+  StopSeriesRoute,
+  UnassignRoute,
+} from "./tasks.routes";
 
 import { db } from "../../db";
-import { tasks } from "../../db/schema";
+import { auditLogs, taskChecklistItems, taskColumns, taskLabels, tasks, taskSeries, userTenantAssociations } from "../../db/schema";
+import { getAuditContext } from "../../lib/audit";
 import { ZOD_ERROR_CODES, ZOD_ERROR_MESSAGES } from "../../lib/constants";
+import { deleteTaskAttachmentFiles } from "../../lib/task-attachments";
+import { checkTaskParent, taskHierarchySettings, taskProgress } from "../../lib/task-hierarchy";
+import { requestedTaskLinks } from "../../lib/task-links";
+import {
+  afterTaskCursor,
+  decodeTaskCursor,
+  encodeTaskCursor,
+  matchesTaskSearch,
+  taskSearchRank,
+  taskSearchSnippet,
+  taskSortKey,
+} from "../../lib/task-list";
+import { createNextOccurrence } from "../../lib/task-recurrence";
+import {
+  canAccessTask,
+  findOpenBlockers,
+  findTaskAncestry,
+  findTaskDescendants,
+  findTaskLabels,
+  findTaskLinks,
+  findTenantTask,
+} from "../../lib/tasks";
 import { requireUser } from "../../middleware/keycloak";
+import { getPermifySync } from "../../middleware/permify-context";
 import { getTenant } from "../../middleware/tenant";
 
+// Tasks are visible to the user who created them and the user they are assigned to
+function visibleTo(userId: string): SQL {
+  return or(eq(tasks.userId, userId), eq(tasks.assigneeId, userId))!;
+}
+
+function taskValidationError(issue: TaskLinkIssue) {
+  return {
+    success: false as const,
+    error: {
+      issues: [
+        {
+          code: ZodIssueCode.custom,
+          path: issue.path,
+          message: issue.message,
+        },
+      ],
+      name: "ZodError",
+    },
+  };
+}
+
+function findChecklist(taskId: number) {
+  return db.select()
+    .from(taskChecklistItems)
+    .where(eq(taskChecklistItems.taskId, taskId))
+    .orderBy(asc(taskChecklistItems.position), asc(taskChecklistItems.createdAt));
+}
+
+// Null when the task can go under the parent. Parents the caller cannot edit count as missing.
+async function findTaskParentIssue(c: Context, tenantId: string, taskId: number | null, parentId: number): Promise<TaskLinkIssue | null> {
+  const parent = await findTenantTask(tenantId, parentId);
+  if (!parent || !(await canAccessTask(c, parent, "edit"))) {
+    return { path: ["parentId"], message: "Parent task not found in this tenant" };
+  }
+
+  const [ancestry, descendants] = await Promise.all([
+    findTaskAncestry(db, parentId),
+    taskId === null ? [] : findTaskDescendants(db, taskId),
+  ]);
+  return checkTaskParent({
+    taskId,
+    ancestry,
+    subtreeHeight: Math.max(0, ...descendants.map(descendant => descendant.depth)),
+  });
+}
+
+// Creates the next occurrence when the completed task is recurring
+async function advanceTaskSeries(c: Context, tx: Executor, completed: CompletedOccurrence, permifySync: PermifyDataSync | null) {
+  const next = await createNextOccurrence(tx, completed, permifySync);
+  if (next) {
+    await tx.insert(auditLogs).values({
+      ...getAuditContext(c),
+      action: "create",
+      resourceType: "task",
+      resourceId: String(next.id),
+      details: { event: "recurrence", seriesId: next.seriesId, occurrence: next.occurrence, completedTaskId: completed.id },
+    });
+  }
+}
+
 export const list: AppRouteHandler<ListRoute> = async (c) => {
   const user = requireUser(c);
   const tenant = getTenant(c);
+  const query = c.req.valid("query");
 
-  const userTasks = await db.query.tasks.findMany({
-    where(fields, operators) {
-      return operators.and(
-        operators.eq(fields.tenantId, tenant.id),
-        operators.eq(fields.userId, user.sub),
-      );
-    },
-    orderBy(fields, operators) {
-      return operators.desc(fields.createdAt);
-    },
-  });
-  return c.json(userTasks);
+  const cursor = query.cursor ? decodeTaskCursor(query.cursor, query.sort) : null;
+  if (query.cursor && !cursor) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          issues: [
+            {
+              code: ZodIssueCode.custom,
+              path: ["cursor"],
+              message: "Invalid cursor for this sort",
+            },
+          ],
+          name: "ZodError",
+        },
+      },
+      HttpStatusCodes.UNPROCESSABLE_ENTITY,
+    );
+  }
+
+  const conditions: SQL[] = [
+    eq(tasks.tenantId, tenant.id),
+    query.assignedToMe === "true" ? eq(tasks.assigneeId, user.sub) : visibleTo(user.sub),
+  ];
+  if (query.done) {
+    conditions.push(eq(tasks.done, query.done === "true"));
+  }
+  if (query.priority) {
+    conditions.push(eq(tasks.priority, query.priority));
+  }
+  if (query.dueFrom) {
+    conditions.push(gte(tasks.dueDate, new Date(query.dueFrom)));
+  }
+  if (query.dueTo) {
+    conditions.push(lt(tasks.dueDate, new Date(query.dueTo)));
+  }
+  if (query.assigneeId) {
+    conditions.push(eq(tasks.assigneeId, query.assigneeId));
+  }
+  if (query.q) {
+    conditions.push(matchesTaskSearch(query.q));
+  }
+  // Tasks carrying every requested label
+  for (const labelId of query.labels ?? []) {
+    conditions.push(sql`exists (select 1 from ${taskLabels} where ${taskLabels.taskId} = ${tasks.id} and ${taskLabels.labelId} = ${labelId})`);
+  }
+
+  const sortKey = taskSortKey(query.sort);
+  const direction = query.order === "asc" ? asc : desc;
+
+  const [rows, [{ total }]] = await Promise.all([
+    db.select({ task: taskColumns, sortKey: sql<string>`${sortKey}::text` })
+      .from(tasks)
+      .where(and(...conditions, cursor ? afterTaskCursor(cursor, query.order) : undefined))
+      .orderBy(direction(sortKey), direction(tasks.id))
+      .limit(query.limit + 1),
+    db.select({ total: count() })
+      .from(tasks)
+      .where(and(...conditions)),
+  ]);
+
+  const page = rows.slice(0, query.limit);
+  const last = page.at(-1);
+  const pageLabels = await findTaskLabels(page.map(row => row.task.id));
+
+  return c.json({
+    items: page.map(row => ({ ...row.task, labels: pageLabels.get(row.task.id) ?? [] })),
+    total,
+    nextCursor: rows.length > query.limit && last
+      ? encodeTaskCursor({ sort: query.sort, key: last.sortKey, id: last.task.id })
+      : null,
+  }, HttpStatusCodes.OK);
+};
+
+export const search: AppRouteHandler<SearchRoute> = async (c) => {
+  const user = requireUser(c);
+  const tenant = getTenant(c);
+  const { q, limit } = c.req.valid("query");
+
+  const rank = taskSearchRank(q);
+  const results = await db.select({
+    ...taskColumns,
+    rank,
+    snippet: taskSearchSnippet(q),
+  })
+    .from(tasks)
+    .where(and(
+      eq(tasks.tenantId, tenant.id),
+      visibleTo(user.sub),
+      matchesTaskSearch(q),
+    ))
+    .orderBy(desc(rank), desc(tasks.id))
+    .limit(limit);
+
+  return c.json(results, HttpStatusCodes.OK);
 };
 
 export const create: AppRouteHandler<CreateRoute> = async (c) => {
   const user = requireUser(c);
   const tenant = getTenant(c);
-  const task = c.req.valid("json");
+  const permifySync = getPermifySync(c);
+  const { recurrence, ...task } = c.req.valid("json");
 
-  const [inserted] = await db.insert(tasks).values({
-    ...task,
-    tenantId: tenant.id,
-    userId: user.sub,
-    done: task.done ?? false,
-  }).returning();
+  if (recurrence && !task.dueDate) {
+    return c.json(
+      taskValidationError({ path: ["dueDate"], message: "A recurring task needs a due date to repeat from" }),
+      HttpStatusCodes.UNPROCESSABLE_ENTITY,
+    );
+  }
+
+  const { links, issue } = await findTaskLinks(tenant.id, task);
+  if (issue) {
+    return c.json(taskValidationError(issue), HttpStatusCodes.UNPROCESSABLE_ENTITY);
+  }
+
+  const parentIssue = task.parentId ? await findTaskParentIssue(c, tenant.id, null, task.parentId) : null;
+  if (parentIssue) {
+    return c.json(taskValidationError(parentIssue), HttpStatusCodes.UNPROCESSABLE_ENTITY);
+  }
+
+  // Roll back the insert if the task's relations cannot be written
+  const inserted = await db.transaction(async (tx) => {
+    const [series] = recurrence && task.dueDate
+      ? await tx.insert(taskSeries).values({
+        tenantId: tenant.id,
+        rrule: recurrence,
+        startsAt: task.dueDate,
+        createdBy: user.sub,
+      }).returning()
+      : [];
+
+    const [created] = await tx.insert(tasks).values({
+      ...task,
+      ...links,
+      tenantId: tenant.id,
+      userId: user.sub,
+      done: task.done ?? false,
+      seriesId: series?.id,
+      occurrence: series ? 1 : undefined,
+    }).returning(taskColumns);
+
+    await permifySync?.syncTaskCreated(String(created.id), user.sub, {
+      tenantId: tenant.id,
+      siteId: created.siteId ?? undefined,
+      deviceId: created.deviceId ?? undefined,
+    });
+
+    return created;
+  });
 
   return c.json(inserted, HttpStatusCodes.CREATED);
 };
 
 export const getOne: AppRouteHandler<GetOneRoute> = async (c) => {
   const { id } = c.req.valid("param");
-  const user = requireUser(c);
   const tenant = getTenant(c);
 
-  const task = await db.query.tasks.findFirst({
-    where(fields, operators) {
-      return operators.and(
-        operators.eq(fields.id, id),
-        operators.eq(fields.tenantId, tenant.id),
-        operators.eq(fields.userId, user.sub),
-      );
-    },
-  });
+  const task = await findTenantTask(tenant.id, id);
 
-  if (!task) {
+  if (!task || !(await canAccessTask(c, task, "view"))) {
     return c.json(
       {
         message: HttpStatusPhrases.NOT_FOUND,
@@ -68,14 +292,30 @@ export const getOne: AppRouteHandler<GetOneRoute> = async (c) => {
     );
   }
 
-  return c.json(task, HttpStatusCodes.OK);
+  const [subtasks, checklist, taskLabelsById] = await Promise.all([
+    db.select(taskColumns)
+      .from(tasks)
+      .where(eq(tasks.parentId, task.id))
+      .orderBy(asc(tasks.createdAt), asc(tasks.id)),
+    findChecklist(task.id),
+    findTaskLabels([task.id]),
+  ]);
+
+  return c.json({
+    ...task,
+    labels: taskLabelsById.get(task.id) ?? [],
+    subtasks,
+    checklist,
+    progress: taskProgress([...subtasks, ...checklist]),
+  }, HttpStatusCodes.OK);
 };
 
 export const patch: AppRouteHandler<PatchRoute> = async (c) => {
   const { id } = c.req.valid("param");
-  const user = requireUser(c);
   const tenant = getTenant(c);
+  const permifySync = getPermifySync(c);
   const updates = c.req.valid("json");
+  const { force } = c.req.valid("query");
 
   if (Object.keys(updates).length === 0) {
     return c.json(
@@ -96,17 +336,104 @@ export const patch: AppRouteHandler<PatchRoute> = async (c) => {
     );
   }
 
-  const [task] = await db.update(tasks)
-    .set({
-      ...updates,
-      updatedAt: new Date(),
-    })
-    .where(and(
-      eq(tasks.id, id),
-      eq(tasks.tenantId, tenant.id),
-      eq(tasks.userId, user.sub),
-    ))
-    .returning();
+  const current = await findTenantTask(tenant.id, id);
+  if (!current || !(await canAccessTask(c, current, "edit"))) {
+    return c.json(
+      {
+        message: HttpStatusPhrases.NOT_FOUND,
+      },
+      HttpStatusCodes.NOT_FOUND,
+    );
+  }
+
+  let links: TaskLinks | undefined;
+  if (updates.siteId !== undefined || updates.deviceId !== undefined) {
+    const resolved = await findTaskLinks(tenant.id, requestedTaskLinks(current, updates));
+    if (resolved.issue) {
+      return c.json(taskValidationError(resolved.issue), HttpStatusCodes.UNPROCESSABLE_ENTITY);
+    }
+    links = resolved.links;
+  }
+
+  const parentIssue = updates.parentId ? await findTaskParentIssue(c, tenant.id, id, updates.parentId) : null;
+  if (parentIssue) {
+    return c.json(taskValidationError(parentIssue), HttpStatusCodes.UNPROCESSABLE_ENTITY);
+  }
+
+  const completing = updates.done === true && !current.done;
+  const openSubtaskIds = completing
+    ? (await findTaskDescendants(db, id)).filter(subtask => !subtask.done).map(subtask => subtask.id)
+    : [];
+  if (openSubtaskIds.length > 0 && taskHierarchySettings(tenant.settings).openSubtasks === "block") {
+    throw new HTTPException(HttpStatusCodes.CONFLICT, {
+      message: "Complete the task's open subtasks first",
+    });
+  }
+
+  const openBlockers = completing ? await findOpenBlockers(db, id) : [];
+  if (openBlockers.length > 0 && force !== "true") {
+    throw new HTTPException(HttpStatusCodes.CONFLICT, {
+      message: `Blocked by open tasks ${openBlockers.map(blocker => `#${blocker.id}`).join(", ")}; complete them first or force completion`,
+    });
+  }
+
+  // Roll back the update if the task's relations cannot be written
+  const task = await db.transaction(async (tx) => {
+    const [updated] = await tx.update(tasks)
+      .set({
+        ...updates,
+        ...links,
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(tasks.id, id),
+        eq(tasks.tenantId, tenant.id),
+      ))
+      .returning(taskColumns);
+
+    if (updated && links) {
+      await permifySync?.syncTaskLinksChanged(
+        String(id),
+        { siteId: current.siteId ?? undefined, deviceId: current.deviceId ?? undefined },
+        { siteId: updated.siteId ?? undefined, deviceId: updated.deviceId ?? undefined },
+      );
+    }
+
+    if (updated?.done && completing) {
+      if (openBlockers.length > 0) {
+        await tx.insert(auditLogs).values({
+          ...getAuditContext(c),
+          action: "update",
+          resourceType: "task",
+          resourceId: String(id),
+          details: { event: "completed_while_blocked", blockedByIds: openBlockers.map(blocker => blocker.id) },
+        });
+      }
+
+      const subtasks = openSubtaskIds.length > 0
+        ? await tx.update(tasks)
+          .set({ done: true, updatedAt: new Date() })
+          .where(and(inArray(tasks.id, openSubtaskIds), eq(tasks.done, false)))
+          .returning(taskColumns)
+        : [];
+
+      if (subtasks.length > 0) {
+        await tx.insert(auditLogs).values({
+          ...getAuditContext(c),
+          action: "update",
+          resourceType: "task",
+          resourceId: String(id),
+          details: { event: "subtasks_completed", taskIds: subtasks.map(subtask => subtask.id) },
+        });
+      }
+
+      for (const completed of [updated, ...subtasks]) {
+        await advanceTaskSeries(c, tx, completed, permifySync);
+      }
+    }
+
+    return updated;
+  });
 
   if (!task) {
     return c.json(
@@ -122,18 +449,358 @@ export const patch: AppRouteHandler<PatchRoute> = async (c) => {
 
 export const remove: AppRouteHandler<RemoveRoute> = async (c) => {
   const { id } = c.req.valid("param");
-  const user = requireUser(c);
   const tenant = getTenant(c);
 
-  const [deleted] = await db.delete(tasks)
-    .where(and(
-      eq(tasks.id, id),
-      eq(tasks.tenantId, tenant.id),
-      eq(tasks.userId, user.sub),
-    ))
-    .returning();
+  const task = await findTenantTask(tenant.id, id);
+  if (!task || !(await canAccessTask(c, task, "delete"))) {
+    return c.json(
+      {
+        message: HttpStatusPhrases.NOT_FOUND,
+      },
+      HttpStatusCodes.NOT_FOUND,
+    );
+  }
+
+  // Subtasks go with the task, and so do the files attached to any of them
+  const subtasks = await findTaskDescendants(db, task.id);
+  await db.delete(tasks).where(eq(tasks.id, task.id));
+  await deleteTaskAttachmentFiles(tenant.id, [task.id, ...subtasks.map(subtask => subtask.id)], c.get("logger"));
+
+  return c.body(null, HttpStatusCodes.NO_CONTENT);
+};
+
+export const assign: AppRouteHandler<AssignRoute> = async (c) => {
+  const { id } = c.req.valid("param");
+  const { assigneeId } = c.req.valid("json");
+  const tenant = getTenant(c);
+  const permifySync = getPermifySync(c);
+
+  const membership = await db.query.userTenantAssociations.findFirst({
+    columns: { id: true },
+    where: and(
+      eq(userTenantAssociations.tenantId, tenant.id),
+      eq(userTenantAssociations.userId, assigneeId),
+      eq(userTenantAssociations.status, "active"),
+    ),
+  });
+
+  if (!membership) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          issues: [
+            {
+              code: ZodIssueCode.custom,
+              path: ["assigneeId"],
+              message: "Assignee must be an active member of the tenant",
+            },
+          ],
+          name: "ZodError",
+        },
+      },
+      HttpStatusCodes.UNPROCESSABLE_ENTITY,
+    );
+  }
+
+  const assigned = await db.transaction(async (tx) => {
+    const [current] = await tx.select({ assigneeId: tasks.assigneeId })
+      .from(tasks)
+      .where(and(eq(tasks.id, id), eq(tasks.tenantId, tenant.id)))
+      .for("update");
+
+    if (!current) {
+      return null;
+    }
+
+    const [updated] = await tx.update(tasks)
+      .set({ assigneeId, updatedAt: new Date() })
+      .where(eq(tasks.id, id))
+      .returning(taskColumns);
+
+    await tx.insert(auditLogs).values({
+      ...getAuditContext(c),
+      action: "assign",
+      resourceType: "task",
+      resourceId: String(id),
+      details: { assigneeId, previousAssigneeId: current.assigneeId },
+    });
+
+    // Grant the new assignee before revoking the old one, so a failed write never leaves the task with neither
+    await permifySync?.syncTaskAssigned(String(id), assigneeId, updated.userId, {
+      tenantId: tenant.id,
+      siteId: updated.siteId ?? undefined,
+      deviceId: updated.deviceId ?? undefined,
+    });
+    if (current.assigneeId && current.assigneeId !== assigneeId) {
+      await permifySync?.syncTaskUnassigned(String(id), current.assigneeId);
+    }
+
+    return updated;
+  });
+
+  if (!assigned) {
+    return c.json(
+      {
+        message: HttpStatusPhrases.NOT_FOUND,
+      },
+      HttpStatusCodes.NOT_FOUND,
+    );
+  }
+
+  return c.json(assigned, HttpStatusCodes.OK);
+};
+
+export const unassign: AppRouteHandler<UnassignRoute> = async (c) => {
+  const { id } = c.req.valid("param");
+  const tenant = getTenant(c);
+  const permifySync = getPermifySync(c);
+
+  const unassigned = await db.transaction(async (tx) => {
+    const [current] = await tx.select(taskColumns)
+      .from(tasks)
+      .where(and(eq(tasks.id, id), eq(tasks.tenantId, tenant.id)))
+      .for("update");
+
+    if (!current?.assigneeId) {
+      return current ?? null;
+    }
+
+    const [updated] = await tx.update(tasks)
+      .set({ assigneeId: null, updatedAt: new Date() })
+      .where(eq(tasks.id, id))
+      .returning(taskColumns);
+
+    await tx.insert(auditLogs).values({
+      ...getAuditContext(c),
+      action: "unassign",
+      resourceType: "task",
+      resourceId: String(id),
+      details: { previousAssigneeId: current.assigneeId },
+    });
+
+    await permifySync?.syncTaskUnassigned(String(id), current.assigneeId);
+
+    return updated;
+  });
+
+  if (!unassigned) {
+    return c.json(
+      {
+        message: HttpStatusPhrases.NOT_FOUND,
+      },
+      HttpStatusCodes.NOT_FOUND,
+    );
+  }
+
+  return c.json(unassigned, HttpStatusCodes.OK);
+};
+
+// The series of a task the caller can reach with the permission, or null
+async function findTaskSeries(c: Context, tenantId: string, id: number, permission: "view" | "edit") {
+  const task = await findTenantTask(tenantId, id);
+  if (!task?.seriesId || !(await canAccessTask(c, task, permission))) {
+    return null;
+  }
+
+  const series = await db.query.taskSeries.findFirst({
+    where: and(eq(taskSeries.id, task.seriesId), eq(taskSeries.tenantId, tenantId)),
+  });
+  return series ?? null;
+}
+
+export const getSeries: AppRouteHandler<GetSeriesRoute> = async (c) => {
+  const { id } = c.req.valid("param");
+  const tenant = getTenant(c);
+
+  const series = await findTaskSeries(c, tenant.id, id, "view");
+  if (!series) {
+    return c.json(
+      {
+        message: HttpStatusPhrases.NOT_FOUND,
+      },
+      HttpStatusCodes.NOT_FOUND,
+    );
+  }
+
+  const occurrences = await db.select(taskColumns)
+    .from(tasks)
+    .where(eq(tasks.seriesId, series.id))
+    .orderBy(asc(tasks.occurrence));
+
+  return c.json({ ...series, occurrences }, HttpStatusCodes.OK);
+};
+
+export const patchSeries: AppRouteHandler<PatchSeriesRoute> = async (c) => {
+  const { id } = c.req.valid("param");
+  const { rrule } = c.req.valid("json");
+  const tenant = getTenant(c);
+
+  const series = await findTaskSeries(c, tenant.id, id, "edit");
+  if (!series) {
+    return c.json(
+      {
+        message: HttpStatusPhrases.NOT_FOUND,
+      },
+      HttpStatusCodes.NOT_FOUND,
+    );
+  }
+
+  if (series.endedAt) {
+    throw new HTTPException(HttpStatusCodes.CONFLICT, {
+      message: "Cannot change the rule of a series that has ended",
+    });
+  }
+
+  const updated = await db.transaction(async (tx) => {
+    const [latest] = await tx.select({ dueDate: tasks.dueDate })
+      .from(tasks)
+      .where(eq(tasks.seriesId, series.id))
+      .orderBy(desc(tasks.occurrence))
+      .limit(1);
+
+    const [saved] = await tx.update(taskSeries)
+      .set({
+        rrule,
+        startsAt: latest?.dueDate ?? series.startsAt,
+        updatedAt: new Date(),
+      })
+      .where(eq(taskSeries.id, series.id))
+      .returning();
+
+    await tx.insert(auditLogs).values({
+      ...getAuditContext(c),
+      action: "update",
+      resourceType: "task",
+      resourceId: String(id),
+      details: { seriesId: series.id, rrule, previousRrule: series.rrule },
+    });
+
+    return saved;
+  });
+
+  return c.json(updated, HttpStatusCodes.OK);
+};
+
+export const stopSeries: AppRouteHandler<StopSeriesRoute> = async (c) => {
+  const { id } = c.req.valid("param");
+  const tenant = getTenant(c);
+
+  const series = await findTaskSeries(c, tenant.id, id, "edit");
+  if (!series) {
+    return c.json(
+      {
+        message: HttpStatusPhrases.NOT_FOUND,
+      },
+      HttpStatusCodes.NOT_FOUND,
+    );
+  }
+
+  const stopped = await db.transaction(async (tx) => {
+    const [saved] = await tx.update(taskSeries)
+      .set({ endedAt: sql`coalesce(${taskSeries.endedAt}, now())`, updatedAt: new Date() })
+      .where(eq(taskSeries.id, series.id))
+      .returning();
+
+    await tx.insert(auditLogs).values({
+      ...getAuditContext(c),
+      action: "deactivate",
+      resourceType: "task",
+      resourceId: String(id),
+      details: { seriesId: series.id },
+    });
+
+    return saved;
+  });
+
+  return c.json(stopped, HttpStatusCodes.OK);
+};
+
+async function findEditableTask(c: Context, tenantId: string, id: number) {
+  const task = await findTenantTask(tenantId, id);
+  return task && (await canAccessTask(c, task, "edit")) ? task : null;
+}
+
+export const createChecklistItem: AppRouteHandler<CreateChecklistItemRoute> = async (c) => {
+  const { id } = c.req.valid("param");
+  const item = c.req.valid("json");
+  const tenant = getTenant(c);
+
+  const task = await findEditableTask(c, tenant.id, id);
+  if (!task) {
+    return c.json(
+      {
+        message: HttpStatusPhrases.NOT_FOUND,
+      },
+      HttpStatusCodes.NOT_FOUND,
+    );
+  }
+
+  const [created] = await db.insert(taskChecklistItems).values({
+    ...item,
+    taskId: task.id,
+    position: sql`(select coalesce(max(${taskChecklistItems.position}) + 1, 0) from ${taskChecklistItems} where ${taskChecklistItems.taskId} = ${task.id})`,
+  }).returning();
+
+  return c.json(created, HttpStatusCodes.CREATED);
+};
+
+export const patchChecklistItem: AppRouteHandler<PatchChecklistItemRoute> = async (c) => {
+  const { id, itemId } = c.req.valid("param");
+  const updates = c.req.valid("json");
+  const tenant = getTenant(c);
+
+  if (Object.keys(updates).length === 0) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          issues: [
+            {
+              code: ZOD_ERROR_CODES.INVALID_UPDATES,
+              path: [],
+              message: ZOD_ERROR_MESSAGES.NO_UPDATES,
+            },
+          ],
+          name: "ZodError",
+        },
+      },
+      HttpStatusCodes.UNPROCESSABLE_ENTITY,
+    );
+  }
+
+  const task = await findEditableTask(c, tenant.id, id);
+  const [updated] = task
+    ? await db.update(taskChecklistItems)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(taskChecklistItems.id, itemId), eq(taskChecklistItems.taskId, task.id)))
+      .returning()
+    : [];
+
+  if (!updated) {
+    return c.json(
+      {
+        message: HttpStatusPhrases.NOT_FOUND,
+      },
+      HttpStatusCodes.NOT_FOUND,
+    );
+  }
+
+  return c.json(updated, HttpStatusCodes.OK);
+};
+
+export const removeChecklistItem: AppRouteHandler<RemoveChecklistItemRoute> = async (c) => {
+  const { id, itemId } = c.req.valid("param");
+  const tenant = getTenant(c);
+
+  const task = await findEditableTask(c, tenant.id, id);
+  const [removed] = task
+    ? await db.delete(taskChecklistItems)
+      .where(and(eq(taskChecklistItems.id, itemId), eq(taskChecklistItems.taskId, task.id)))
+      .returning({ id: taskChecklistItems.id })
+    : [];
 
-  if (!deleted) {
+  if (!removed) {
     return c.json(
       {
         message: HttpStatusPhrases.NOT_FOUND,
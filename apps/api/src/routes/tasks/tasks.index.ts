@@ -2,6 +2,7 @@ import type { Context, Next } from "hono";
 
 import createRouter from "../../lib/create-router";
 import { keycloakAuth } from "../../middleware/keycloak";
+import { withPermify } from "../../middleware/permify-context";
 import { tenantMiddleware } from "../../middleware/tenant";
 import * as handlers from "./tasks.handlers";
 import * as routes from "./tasks.routes";
@@ -16,16 +17,43 @@ function tenantAuthMiddleware(c: Context, next: Next) {
   return tenantMiddleware()(c, next);
 }
 
+// Handing a task to someone follows task.assign: tenant admins and managers of the task's site
+const taskAssignMiddleware = withPermify(helpers => helpers.requireTaskAccess("assign"));
+
 // All task routes require authentication and tenant context
 const router = createRouter();
 router.use("/tenants/:tenantId/tasks", authMiddleware);
 router.use("/tenants/:tenantId/tasks", tenantAuthMiddleware);
 router.use("/tenants/:tenantId/tasks/:id", authMiddleware);
 router.use("/tenants/:tenantId/tasks/:id", tenantAuthMiddleware);
+router.use("/tenants/:tenantId/tasks/:id/assign", authMiddleware);
+router.use("/tenants/:tenantId/tasks/:id/assign", tenantAuthMiddleware);
+router.use("/tenants/:tenantId/tasks/:id/assign", taskAssignMiddleware);
+router.use("/tenants/:tenantId/tasks/:id/unassign", authMiddleware);
+router.use("/tenants/:tenantId/tasks/:id/unassign", tenantAuthMiddleware);
+router.use("/tenants/:tenantId/tasks/:id/unassign", taskAssignMiddleware);
+router.use("/tenants/:tenantId/tasks/:id/series", authMiddleware);
+router.use("/tenants/:tenantId/tasks/:id/series", tenantAuthMiddleware);
+router.use("/tenants/:tenantId/tasks/:id/series/stop", authMiddleware);
+router.use("/tenants/:tenantId/tasks/:id/series/stop", tenantAuthMiddleware);
+router.use("/tenants/:tenantId/tasks/:id/checklist", authMiddleware);
+router.use("/tenants/:tenantId/tasks/:id/checklist", tenantAuthMiddleware);
+router.use("/tenants/:tenantId/tasks/:id/checklist/:itemId", authMiddleware);
+router.use("/tenants/:tenantId/tasks/:id/checklist/:itemId", tenantAuthMiddleware);
 router.openapi(routes.list, handlers.list);
 router.openapi(routes.create, handlers.create);
+// Registered before getOne, which would otherwise take "search" as a task id
+router.openapi(routes.search, handlers.search);
 router.openapi(routes.getOne, handlers.getOne);
 router.openapi(routes.patch, handlers.patch);
 router.openapi(routes.remove, handlers.remove);
+router.openapi(routes.assign, handlers.assign);
+router.openapi(routes.unassign, handlers.unassign);
+router.openapi(routes.getSeries, handlers.getSeries);
+router.openapi(routes.patchSeries, handlers.patchSeries);
+router.openapi(routes.stopSeries, handlers.stopSeries);
+router.openapi(routes.createChecklistItem, handlers.createChecklistItem);
+router.openapi(routes.patchChecklistItem, handlers.patchChecklistItem);
+router.openapi(routes.removeChecklistItem, handlers.removeChecklistItem);
 
 export default router;
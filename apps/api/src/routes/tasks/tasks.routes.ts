@@ -3,11 +3,110 @@ import * as HttpStatusCodes from "stoker/http-status-codes";
 import { jsonContent, jsonContentRequired } from "stoker/openapi/helpers";
 import { createErrorSchema } from "stoker/openapi/schemas";
 
-import { insertTasksSchema, patchTasksSchema, selectTasksSchema } from "../../db/schema";
+import {
+  assignTaskSchema,
+  insertTaskChecklistItemSchema,
+  insertTasksSchema,
+  patchTaskChecklistItemSchema,
+  patchTaskSeriesSchema,
+  patchTasksSchema,
+  selectTaskChecklistItemSchema,
+  selectTaskSeriesSchema,
+  selectTasksSchema,
+  taskLabelSchema,
+} from "../../db/schema";
 import { notFoundSchema } from "../../lib/constants";
+import { MAX_TASK_PAGE_SIZE, MAX_TASK_SEARCH_RESULTS, TASK_SORT_FIELDS } from "../../lib/task-list";
 
 const tags = ["Tasks"];
 
+const taskParamsSchema = z.object({
+  tenantId: z.string(),
+  id: z.coerce.number(),
+});
+
+const checklistItemParamsSchema = taskParamsSchema.extend({
+  itemId: z.string().uuid(),
+});
+
+const listTasksQuerySchema = z.object({
+  done: z.enum(["true", "false"])
+    .optional()
+    .openapi({ description: "Only done or only open tasks" }),
+  priority: selectTasksSchema.shape.priority.optional(),
+  dueFrom: z.string()
+    .datetime({ offset: true })
+    .optional()
+    .openapi({ description: "Only tasks due at or after this time" }),
+  dueTo: z.string()
+    .datetime({ offset: true })
+    .optional()
+    .openapi({ description: "Only tasks due before this time" }),
+  assigneeId: z.string()
+    .uuid()
+    .optional()
+    .openapi({ description: "Only tasks assigned to this user" }),
+  assignedToMe: z.enum(["true", "false"])
+    .optional()
+    .openapi({ description: "Only tasks assigned to the caller, rather than all tasks they created or are assigned" }),
+  q: z.string()
+    .trim()
+    .min(1)
+    .max(200)
+    .optional()
+    .openapi({ description: "Only tasks whose name or description matches these words, in web search syntax" }),
+  labels: z.string()
+    .transform(value => value.split(",").map(id => id.trim()).filter(Boolean))
+    .pipe(z.array(z.string().uuid()).max(10))
+    .optional()
+    .openapi({ type: "string", description: "Comma-separated label ids; only tasks with all of them" }),
+  sort: z.enum(TASK_SORT_FIELDS)
+    .default("createdAt")
+    .openapi({ description: "Tasks without a due date sort last when sorting by dueDate ascending" }),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  limit: z.coerce.number().int().min(1).max(MAX_TASK_PAGE_SIZE).default(50),
+  cursor: z.string()
+    .optional()
+    .openapi({ description: "nextCursor from the previous page, with the same sort and order" }),
+});
+
+const labelledTaskSchema = selectTasksSchema.extend({
+  labels: z.array(taskLabelSchema),
+});
+
+const taskPageSchema = z.object({
+  items: z.array(labelledTaskSchema),
+  total: z.number().openapi({ description: "Tasks matching the filters, across all pages" }),
+  nextCursor: z.string().nullable(),
+});
+
+const taskDetailSchema = labelledTaskSchema.extend({
+  subtasks: z.array(selectTasksSchema),
+  checklist: z.array(selectTaskChecklistItemSchema),
+  progress: z.object({
+    completed: z.number(),
+    total: z.number(),
+  }).openapi({ description: "Done direct subtasks and checklist items, out of all of them" }),
+});
+
+const taskSeriesDetailSchema = selectTaskSeriesSchema.extend({
+  occurrences: z.array(selectTasksSchema),
+});
+
+const searchTasksQuerySchema = z.object({
+  q: z.string()
+    .trim()
+    .min(1)
+    .max(200)
+    .openapi({ description: "Words to find, in web search syntax: quoted phrases, or, and -excluded words", example: "\"pump pressure\" -test" }),
+  limit: z.coerce.number().int().min(1).max(MAX_TASK_SEARCH_RESULTS).default(20),
+});
+
+const taskSearchResultSchema = selectTasksSchema.extend({
+  rank: z.number(),
+  snippet: z.string().openapi({ description: "Name and description excerpts with matches wrapped in <mark> tags. The task text is not HTML-escaped." }),
+});
+
 // Tenant-aware task routes
 export const list = createRoute({
   path: "/tenants/{tenantId}/tasks",
@@ -16,12 +115,17 @@ export const list = createRoute({
     params: z.object({
       tenantId: z.string(),
     }),
+    query: listTasksQuerySchema,
   },
   tags,
   responses: {
     [HttpStatusCodes.OK]: jsonContent(
-      z.array(selectTasksSchema),
-      "The list of tasks for the tenant",
+      taskPageSchema,
+      "A page of the tenant's tasks",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(listTasksQuerySchema),
+      "Invalid parameters",
     ),
   },
 });
@@ -51,6 +155,28 @@ export const create = createRoute({
   },
 });
 
+export const search = createRoute({
+  path: "/tenants/{tenantId}/tasks/search",
+  method: "get",
+  request: {
+    params: z.object({
+      tenantId: z.string(),
+    }),
+    query: searchTasksQuerySchema,
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(
+      z.array(taskSearchResultSchema),
+      "Matching tasks, best match first",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(searchTasksQuerySchema),
+      "Invalid parameters",
+    ),
+  },
+});
+
 export const getOne = createRoute({
   path: "/tenants/{tenantId}/tasks/{id}",
   method: "get",
@@ -63,8 +189,8 @@ export const getOne = createRoute({
   tags,
   responses: {
     [HttpStatusCodes.OK]: jsonContent(
-      selectTasksSchema,
-      "The requested task",
+      taskDetailSchema,
+      "The requested task, with its subtasks and checklist",
     ),
     [HttpStatusCodes.NOT_FOUND]: jsonContent(
       notFoundSchema,
@@ -80,6 +206,8 @@ export const getOne = createRoute({
   },
 });
 
+// Completing a task with open subtasks fails or completes them too, depending on the tenant's settings
+// Completing a task with open blockers is refused unless forced
 export const patch = createRoute({
   path: "/tenants/{tenantId}/tasks/{id}",
   method: "patch",
@@ -88,6 +216,11 @@ export const patch = createRoute({
       tenantId: z.string(),
       id: z.coerce.number(),
     }),
+    query: z.object({
+      force: z.enum(["true", "false"])
+        .optional()
+        .openapi({ description: "Complete the task even while tasks blocking it are open" }),
+    }),
     body: jsonContentRequired(
       patchTasksSchema,
       "The task updates",
@@ -142,8 +275,222 @@ export const remove = createRoute({
   },
 });
 
+export const assign = createRoute({
+  path: "/tenants/{tenantId}/tasks/{id}/assign",
+  method: "post",
+  request: {
+    params: taskParamsSchema,
+    body: jsonContentRequired(
+      assignTaskSchema,
+      "The tenant member to assign the task to",
+    ),
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(
+      selectTasksSchema,
+      "The assigned task",
+    ),
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      notFoundSchema,
+      "Task not found",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(assignTaskSchema)
+        .or(createErrorSchema(taskParamsSchema)),
+      "The validation error(s)",
+    ),
+  },
+});
+
+export const unassign = createRoute({
+  path: "/tenants/{tenantId}/tasks/{id}/unassign",
+  method: "post",
+  request: {
+    params: taskParamsSchema,
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(
+      selectTasksSchema,
+      "The unassigned task",
+    ),
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      notFoundSchema,
+      "Task not found",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(taskParamsSchema),
+      "Invalid parameters",
+    ),
+  },
+});
+
+export const getSeries = createRoute({
+  path: "/tenants/{tenantId}/tasks/{id}/series",
+  method: "get",
+  request: {
+    params: taskParamsSchema,
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(
+      taskSeriesDetailSchema,
+      "The series the task belongs to, with every occurrence so far",
+    ),
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      notFoundSchema,
+      "Task not found or not recurring",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(taskParamsSchema),
+      "Invalid parameters",
+    ),
+  },
+});
+
+// The new rule counts from the latest occurrence, which keeps its due date
+export const patchSeries = createRoute({
+  path: "/tenants/{tenantId}/tasks/{id}/series",
+  method: "patch",
+  request: {
+    params: taskParamsSchema,
+    body: jsonContentRequired(
+      patchTaskSeriesSchema,
+      "The new recurrence rule",
+    ),
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(
+      selectTaskSeriesSchema,
+      "The updated series",
+    ),
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      notFoundSchema,
+      "Task not found or not recurring",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(patchTaskSeriesSchema)
+        .or(createErrorSchema(taskParamsSchema)),
+      "The validation error(s)",
+    ),
+  },
+});
+
+// Past occurrences, and an open one, are kept
+export const stopSeries = createRoute({
+  path: "/tenants/{tenantId}/tasks/{id}/series/stop",
+  method: "post",
+  request: {
+    params: taskParamsSchema,
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(
+      selectTaskSeriesSchema,
+      "The stopped series",
+    ),
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      notFoundSchema,
+      "Task not found or not recurring",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(taskParamsSchema),
+      "Invalid parameters",
+    ),
+  },
+});
+
+export const createChecklistItem = createRoute({
+  path: "/tenants/{tenantId}/tasks/{id}/checklist",
+  method: "post",
+  request: {
+    params: taskParamsSchema,
+    body: jsonContentRequired(
+      insertTaskChecklistItemSchema,
+      "The checklist item to add",
+    ),
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.CREATED]: jsonContent(
+      selectTaskChecklistItemSchema,
+      "The created checklist item, last on the list",
+    ),
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      notFoundSchema,
+      "Task not found",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(insertTaskChecklistItemSchema)
+        .or(createErrorSchema(taskParamsSchema)),
+      "The validation error(s)",
+    ),
+  },
+});
+
+export const patchChecklistItem = createRoute({
+  path: "/tenants/{tenantId}/tasks/{id}/checklist/{itemId}",
+  method: "patch",
+  request: {
+    params: checklistItemParamsSchema,
+    body: jsonContentRequired(
+      patchTaskChecklistItemSchema,
+      "The checklist item updates",
+    ),
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(
+      selectTaskChecklistItemSchema,
+      "The updated checklist item",
+    ),
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      notFoundSchema,
+      "Task or checklist item not found",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(patchTaskChecklistItemSchema)
+        .or(createErrorSchema(checklistItemParamsSchema)),
+      "The validation error(s)",
+    ),
+  },
+});
+
+export const removeChecklistItem = createRoute({
+  path: "/tenants/{tenantId}/tasks/{id}/checklist/{itemId}",
+  method: "delete",
+  request: {
+    params: checklistItemParamsSchema,
+  },
+  tags,
+  responses: {
+    [HttpStatusCodes.NO_CONTENT]: {
+      description: "Checklist item deleted",
+    },
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      notFoundSchema,
+      "Task or checklist item not found",
+    ),
+    [HttpStatusCodes.UNPROCESSABLE_ENTITY]: jsonContent(
+      createErrorSchema(checklistItemParamsSchema),
+      "Invalid parameters",
+    ),
+  },
+});
+
 export type ListRoute = typeof list;
+export type SearchRoute = typeof search;
 export type CreateRoute = typeof create;
 export type GetOneRoute = typeof getOne;
 export type PatchRoute = typeof patch;
 export type RemoveRoute = typeof remove;
+export type AssignRoute = typeof assign;
+export type UnassignRoute = typeof unassign;
+export type GetSeriesRoute = typeof getSeries;
+export type PatchSeriesRoute = typeof patchSeries;
+export type StopSeriesRoute = typeof stopSeries;
+export type CreateChecklistItemRoute = typeof createChecklistItem;
+export type PatchChecklistItemRoute = typeof patchChecklistItem;
+export type RemoveChecklistItemRoute = typeof removeChecklistItem;
@@ -8,6 +8,7 @@ import type * as routes from "./tenants.routes";
 
 import { db } from "../../db";
 import { tenantInvitations, tenants, tenantUsers } from "../../db/schema";
+import { deleteTenantAttachmentFiles } from "../../lib/task-attachments";
 import { requireUser } from "../../middleware/keycloak";
 import { getTenant, getUserRole } from "../../middleware/tenant";
 
@@ -121,6 +122,7 @@ export const remove: AppRouteHandler<routes.RemoveRoute> = async (c) => {
   }
 
   await db.delete(tenants).where(eq(tenants.id, tenant.id));
+  await deleteTenantAttachmentFiles(tenant.id, c.get("logger"));
 
   return c.body(null, HttpStatusCodes.NO_CONTENT);
 };
@@ -0,0 +1,98 @@
+import { Buffer } from "node:buffer";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import type { AttachmentStorage } from "../lib/attachment-storage";
+
+import { createLocalAttachmentStorage } from "../lib/attachment-storage";
+import {
+  ATTACHMENT_LIMITS,
+  attachmentFileName,
+  attachmentRejection,
+  detectMimeType,
+  MAX_ATTACHMENT_REQUEST_BYTES,
+  signAttachmentDownload,
+  verifyAttachmentDownload,
+} from "../lib/attachments";
+
+const PNG = new Uint8Array([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A, 0x00]);
+const PDF = new TextEncoder().encode("%PDF-1.7\n");
+const WEBP = new TextEncoder().encode("RIFF\x00\x00\x00\x00WEBPVP8 ");
+
+describe("attachments", () => {
+  it("detects types from the contents", () => {
+    expect(detectMimeType(PNG)).toBe("image/png");
+    expect(detectMimeType(PDF)).toBe("application/pdf");
+    expect(detectMimeType(WEBP)).toBe("image/webp");
+    expect(detectMimeType(new TextEncoder().encode("<svg xmlns=\"http://www.w3.org/2000/svg\"/>"))).toBeNull();
+  });
+
+  it("applies the plan's limits", () => {
+    expect(attachmentRejection(ATTACHMENT_LIMITS.starter, { size: 1024, mimeType: "application/pdf" })).toBeNull();
+    expect(attachmentRejection(ATTACHMENT_LIMITS.trial, { size: 1024, mimeType: "application/pdf" })?.reason).toBe("type");
+    expect(attachmentRejection(ATTACHMENT_LIMITS.trial, { size: 6 * 1024 * 1024, mimeType: "image/png" })?.reason).toBe("size");
+    expect(attachmentRejection(ATTACHMENT_LIMITS.enterprise, { size: 1024, mimeType: null })?.reason).toBe("type");
+  });
+
+  it("accepts upload requests up to the largest plan's limit", () => {
+    for (const limits of Object.values(ATTACHMENT_LIMITS)) {
+      expect(MAX_ATTACHMENT_REQUEST_BYTES).toBeGreaterThan(limits.maxBytes);
+    }
+  });
+
+  it("strips directories and control characters from file names", () => {
+    expect(attachmentFileName("C:\\photos\\pump.jpg")).toBe("pump.jpg");
+    expect(attachmentFileName("../../etc/\"pass\nwd\"")).toBe("passwd");
+    expect(attachmentFileName("/")).toBe("attachment");
+  });
+
+  describe("signed downloads", () => {
+    const secret = "s".repeat(32);
+    const now = new Date("2026-10-19T10:00:00Z");
+    const expires = now.getTime() / 1000 + 300;
+
+    it("accepts a valid signature until it expires", () => {
+      const signature = signAttachmentDownload("a1", expires, secret);
+      expect(verifyAttachmentDownload("a1", expires, signature, secret, now)).toBe(true);
+      expect(verifyAttachmentDownload("a1", expires, signature, secret, new Date(expires * 1000))).toBe(false);
+    });
+
+    it("rejects signatures for another attachment, expiry or secret", () => {
+      const signature = signAttachmentDownload("a1", expires, secret);
+      expect(verifyAttachmentDownload("a2", expires, signature, secret, now)).toBe(false);
+      expect(verifyAttachmentDownload("a1", expires + 60, signature, secret, now)).toBe(false);
+      expect(verifyAttachmentDownload("a1", expires, signature, "t".repeat(32), now)).toBe(false);
+      expect(verifyAttachmentDownload("a1", expires, "short", secret, now)).toBe(false);
+    });
+  });
+
+  describe("local storage", () => {
+    let root: string;
+    let storage: AttachmentStorage;
+
+    beforeEach(async () => {
+      root = await mkdtemp(path.join(tmpdir(), "attachments-"));
+      storage = createLocalAttachmentStorage(root);
+    });
+
+    afterEach(async () => {
+      await rm(root, { recursive: true, force: true });
+    });
+
+    it("stores, reads and deletes files by prefix", async () => {
+      await storage.put("tenant-1/7/a1", PNG);
+      await storage.put("tenant-1/8/a2", PDF);
+
+      expect(await storage.get("tenant-1/7/a1")).toEqual(Buffer.from(PNG));
+      await storage.removePrefix("tenant-1/7/");
+      expect(await storage.get("tenant-1/7/a1")).toBeNull();
+      expect(await storage.get("tenant-1/8/a2")).not.toBeNull();
+    });
+
+    it("refuses keys that leave the root", async () => {
+      await expect(storage.put("../outside", PNG)).rejects.toThrow(/Invalid storage key/);
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+
+import { formatCsvRow, parseCsv, parseCsvRecords } from "../lib/csv";
+import { formatDeviceExportHeader, formatDeviceExportRow } from "../lib/device-export";
+import { csvRecordToSiteRow, validateSiteImportRows } from "../lib/site-import";
+
+describe("csv", () => {
+  describe("parseCsv", () => {
+    it("splits rows and fields", () => {
+      expect(parseCsv("a,b\r\n1,2\n3,4")).toEqual([["a", "b"], ["1", "2"], ["3", "4"]]);
+    });
+
+    it("handles quoted commas, newlines and doubled quotes", () => {
+      expect(parseCsv("\"x, y\",\"line\nbreak\",\"say \"\"hi\"\"\"\n")).toEqual([
+        ["x, y", "line\nbreak", "say \"hi\""],
+      ]);
+    });
+
+    it("strips a byte order mark and drops blank lines", () => {
+      expect(parseCsv("\uFEFFname\n\n  \nA\n")).toEqual([["name"], ["A"]]);
+    });
+  });
+
+  describe("parseCsvRecords", () => {
+    it("keys each row by the header and fills missing cells", () => {
+      expect(parseCsvRecords(" name ,code\nNorth\nSouth,S1")).toEqual([
+        { name: "North", code: "" },
+        { name: "South", code: "S1" },
+      ]);
+    });
+
+    it("returns no records for empty input", () => {
+      expect(parseCsvRecords("")).toEqual([]);
+    });
+  });
+});
+
+describe("csv formatting", () => {
+  it("prefixes text that a spreadsheet would evaluate as a formula", () => {
+    expect(formatCsvRow(["=1+1", "+x", "-x", "@SUM(A1)", "a=b"])).toBe("'=1+1,'+x,'-x,'@SUM(A1),a=b\r\n");
+    expect(formatCsvRow([-5, "\t=x"])).toBe("-5,'\t=x\r\n");
+  });
+
+  it("quotes fields only when needed and round-trips through the parser", () => {
+    const fields = ["plain", "x, y", "say \"hi\"", "line\nbreak", ""];
+    expect(formatCsvRow(["a", 1, null])).toBe("a,1,\r\n");
+    expect(parseCsv(formatCsvRow(fields))).toEqual([fields]);
+  });
+});
+
+describe("device export", () => {
+  const row = {
+    id: "d1",
+    name: "Pump, east",
+    type: "actuator" as const,
+    serialNumber: null,
+    model: "P-100",
+    manufacturer: null,
+    siteId: "s1",
+    siteName: "North",
+    status: "online" as const,
+    firmwareVersion: "1.2.0",
+    lastSeenAt: new Date("2026-01-01T12:00:00Z"),
+    isActive: true,
+    createdAt: new Date("2025-12-01T00:00:00Z"),
+  };
+
+  it("writes CSV rows under a header", () => {
+    const [record] = parseCsvRecords(formatDeviceExportHeader("csv") + formatDeviceExportRow(row, "csv"));
+
+    expect(record).toMatchObject({
+      name: "Pump, east",
+      serialNumber: "",
+      siteName: "North",
+      lastSeenAt: "2026-01-01T12:00:00.000Z",
+      isActive: "true",
+    });
+  });
+
+  it("writes one JSON record per line", () => {
+    const line = formatDeviceExportRow(row, "ndjson");
+
+    expect(formatDeviceExportHeader("ndjson")).toBe("");
+    expect(line.endsWith("\n")).toBe(true);
+    expect(JSON.parse(line)).toMatchObject({ serialNumber: null, lastSeenAt: "2026-01-01T12:00:00.000Z", isActive: true });
+  });
+});
+
+describe("site import", () => {
+  it("decodes CSV cells into site fields", () => {
+    expect(csvRecordToSiteRow({
+      name: "North",
+      address: "",
+      latitude: "40.5",
+      isActive: "false",
+      metadata: "{\"zone\":1}",
+    })).toEqual({
+      name: "North",
+      latitude: 40.5,
+      isActive: false,
+      metadata: { zone: 1 },
+    });
+  });
+
+  it("reports errors by 1-based row number", () => {
+    const { valid, errors } = validateSiteImportRows([
+      { name: "North", address: "1 Main St", timezone: "Europe/London" },
+      { name: "South", address: "2 Main St", latitude: 120 },
+      { name: "East", address: "3 Main St", timezone: "Mars/Olympus" },
+    ]);
+
+    expect(valid).toHaveLength(1);
+    expect(errors.map(error => error.row)).toEqual([2, 3]);
+    expect(errors[0].issues[0].path).toEqual(["latitude"]);
+    expect(errors[1].issues[0].path).toEqual(["timezone"]);
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+
+import { isUniqueViolation } from "../lib/db-errors";
+
+describe("isUniqueViolation", () => {
+  const violation = Object.assign(new Error("duplicate key value"), {
+    code: "23505",
+    constraint_name: "devices_serial_number_unique",
+  });
+
+  it("matches a unique violation on the constraint", () => {
+    expect(isUniqueViolation(violation, "devices_serial_number_unique")).toBe(true);
+  });
+
+  it("looks through wrapping errors", () => {
+    expect(isUniqueViolation(new Error("query failed", { cause: violation }), "devices_serial_number_unique")).toBe(true);
+  });
+
+  it("ignores other constraints and errors", () => {
+    expect(isUniqueViolation(violation, "users_email_unique")).toBe(false);
+    expect(isUniqueViolation({ code: "23503", constraint_name: "devices_serial_number_unique" }, "devices_serial_number_unique")).toBe(false);
+    expect(isUniqueViolation(new Error("connection lost"), "devices_serial_number_unique")).toBe(false);
+    expect(isUniqueViolation(null, "devices_serial_number_unique")).toBe(false);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+
+import { insertDeviceCommandSchema } from "../db/schema/device-commands";
+import { DEVICE_COMMAND_PERMISSIONS, isCommandOpen } from "../lib/device-commands";
+
+describe("device commands", () => {
+  describe("command permissions", () => {
+    it("maps each command type to its device permission", () => {
+      expect(DEVICE_COMMAND_PERMISSIONS.reboot).toBe("reboot");
+      expect(DEVICE_COMMAND_PERMISSIONS.configure).toBe("configure");
+      expect(DEVICE_COMMAND_PERMISSIONS.firmware_update).toBe("update_firmware");
+    });
+  });
+
+  describe("isCommandOpen", () => {
+    it("keeps pending and delivered commands open until acknowledged", () => {
+      expect(isCommandOpen("pending")).toBe(true);
+      expect(isCommandOpen("delivered")).toBe(true);
+      expect(isCommandOpen("succeeded")).toBe(false);
+      expect(isCommandOpen("failed")).toBe(false);
+    });
+  });
+
+  describe("insertDeviceCommandSchema", () => {
+    it("accepts a reboot without a payload", () => {
+      expect(insertDeviceCommandSchema.safeParse({ type: "reboot" }).success).toBe(true);
+    });
+
+    it("requires a version and url for firmware updates", () => {
+      expect(insertDeviceCommandSchema.safeParse({ type: "firmware_update", payload: { version: "2.0.0" } }).success).toBe(false);
+      expect(insertDeviceCommandSchema.safeParse({
+        type: "firmware_update",
+        payload: { version: "2.0.0", url: "https://firmware.example.com/2.0.0.bin" },
+      }).success).toBe(true);
+    });
+
+    it("rejects an empty configuration", () => {
+      expect(insertDeviceCommandSchema.safeParse({ type: "configure", payload: {} }).success).toBe(false);
+    });
+  });
+});
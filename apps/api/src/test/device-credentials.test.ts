@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  DEVICE_SECRET_PREFIX,
+  ENROLLMENT_TOKEN_PREFIX,
+  enrollmentTokenRejection,
+  generateSecret,
+  hashSecret,
+  isDeviceSecret,
+} from "../lib/device-credentials";
+
+const now = new Date("2026-01-01T12:00:00Z");
+const usableToken = {
+  maxUses: 2,
+  useCount: 1,
+  expiresAt: new Date("2026-01-02T12:00:00Z"),
+  revokedAt: null,
+};
+
+describe("device credentials", () => {
+  describe("secrets", () => {
+    it("generates distinct prefixed secrets", () => {
+      const first = generateSecret(DEVICE_SECRET_PREFIX);
+      const second = generateSecret(DEVICE_SECRET_PREFIX);
+
+      expect(first.startsWith(DEVICE_SECRET_PREFIX)).toBe(true);
+      expect(first).not.toBe(second);
+    });
+
+    it("hashes deterministically", () => {
+      expect(hashSecret("dvc_abc")).toBe(hashSecret("dvc_abc"));
+      expect(hashSecret("dvc_abc")).not.toBe(hashSecret("dvc_abd"));
+      expect(hashSecret("dvc_abc")).toHaveLength(64);
+    });
+
+    it("tells device secrets from other bearer tokens", () => {
+      expect(isDeviceSecret(generateSecret(DEVICE_SECRET_PREFIX))).toBe(true);
+      expect(isDeviceSecret(generateSecret(ENROLLMENT_TOKEN_PREFIX))).toBe(false);
+      expect(isDeviceSecret("eyJhbGciOiJSUzI1NiJ9.e30.sig")).toBe(false);
+    });
+  });
+
+  describe("enrollmentTokenRejection", () => {
+    it("accepts a usable token", () => {
+      expect(enrollmentTokenRejection(usableToken, now)).toBeNull();
+    });
+
+    it("rejects revoked, expired and used up tokens", () => {
+      expect(enrollmentTokenRejection({ ...usableToken, revokedAt: now }, now)).toBe("Enrollment token has been revoked");
+      expect(enrollmentTokenRejection({ ...usableToken, expiresAt: now }, now)).toBe("Enrollment token has expired");
+      expect(enrollmentTokenRejection({ ...usableToken, useCount: 2 }, now)).toBe("Enrollment token has been used up");
+    });
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+
+import { offlineCutoff, statusAfterHeartbeat } from "../lib/device-status";
+
+describe("device status", () => {
+  describe("statusAfterHeartbeat", () => {
+    it("takes the reported status for live devices", () => {
+      expect(statusAfterHeartbeat("offline", "online")).toBe("online");
+      expect(statusAfterHeartbeat("online", "error")).toBe("error");
+      expect(statusAfterHeartbeat("error", "online")).toBe("online");
+    });
+
+    it("leaves maintenance and decommissioned devices alone", () => {
+      expect(statusAfterHeartbeat("maintenance", "online")).toBe("maintenance");
+      expect(statusAfterHeartbeat("decommissioned", "online")).toBe("decommissioned");
+    });
+  });
+
+  describe("offlineCutoff", () => {
+    it("allows the configured number of missed heartbeats", () => {
+      const now = new Date("2026-01-01T00:10:00Z");
+      expect(offlineCutoff(now, 60, 3)).toEqual(new Date("2026-01-01T00:07:00Z"));
+    });
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+
+import { assignWaves, failureThresholdExceeded, summarizeWaves } from "../lib/firmware-campaigns";
+
+describe("firmware campaigns", () => {
+  describe("assignWaves", () => {
+    it("splits devices by cumulative percentage", () => {
+      const waves = assignWaves(100, [5, 25, 100]);
+      expect(waves.filter(wave => wave === 0)).toHaveLength(5);
+      expect(waves.filter(wave => wave === 1)).toHaveLength(20);
+      expect(waves.filter(wave => wave === 2)).toHaveLength(75);
+    });
+
+    it("gives every wave a device while devices remain", () => {
+      expect(assignWaves(3, [5, 25, 100])).toEqual([0, 1, 2]);
+      expect(assignWaves(2, [5, 25, 100])).toEqual([0, 1]);
+      expect(assignWaves(0, [5, 25, 100])).toEqual([]);
+    });
+  });
+
+  describe("failureThresholdExceeded", () => {
+    it("compares failures against dispatched updates", () => {
+      expect(failureThresholdExceeded(1, 10, 0.1)).toBe(false);
+      expect(failureThresholdExceeded(2, 10, 0.1)).toBe(true);
+      expect(failureThresholdExceeded(0, 0, 0)).toBe(false);
+    });
+  });
+
+  describe("summarizeWaves", () => {
+    it("counts devices per wave and command status", () => {
+      const summary = summarizeWaves([50, 100], [
+        { wave: 0, status: "succeeded", count: 3 },
+        { wave: 0, status: "failed", count: 1 },
+        { wave: 1, status: null, count: 4 },
+      ]);
+
+      expect(summary).toEqual([
+        { wave: 0, percent: 50, devices: 4, queued: 0, pending: 0, delivered: 0, succeeded: 3, failed: 1 },
+        { wave: 1, percent: 100, devices: 4, queued: 4, pending: 0, delivered: 0, succeeded: 0, failed: 0 },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+
+import { haversineDistanceKm, parseBoundingBox, parseCoordinates } from "../lib/geo";
+
+describe("geo", () => {
+  describe("parseCoordinates", () => {
+    it("parses a lat,lng pair", () => {
+      expect(parseCoordinates("40.7128,-74.0060")).toEqual({ lat: 40.7128, lng: -74.006 });
+      expect(parseCoordinates(" 51.5 , -0.12 ")).toEqual({ lat: 51.5, lng: -0.12 });
+    });
+
+    it("rejects malformed or out of range values", () => {
+      expect(parseCoordinates("40.7128")).toBeNull();
+      expect(parseCoordinates("40.7128,")).toBeNull();
+      expect(parseCoordinates("abc,def")).toBeNull();
+      expect(parseCoordinates("91,0")).toBeNull();
+      expect(parseCoordinates("0,181")).toBeNull();
+    });
+  });
+
+  describe("parseBoundingBox", () => {
+    it("parses a minLng,minLat,maxLng,maxLat box", () => {
+      expect(parseBoundingBox("-74.3,40.5,-73.7,40.9")).toEqual({
+        minLng: -74.3,
+        minLat: 40.5,
+        maxLng: -73.7,
+        maxLat: 40.9,
+      });
+    });
+
+    it("accepts boxes crossing the antimeridian", () => {
+      expect(parseBoundingBox("170,-20,-170,-10")).not.toBeNull();
+    });
+
+    it("rejects inverted latitudes and wrong arity", () => {
+      expect(parseBoundingBox("-74.3,40.9,-73.7,40.5")).toBeNull();
+      expect(parseBoundingBox("-74.3,40.5,-73.7")).toBeNull();
+    });
+  });
+
+  describe("haversineDistanceKm", () => {
+    it("is zero for the same point", () => {
+      expect(haversineDistanceKm({ lat: 10, lng: 10 }, { lat: 10, lng: 10 })).toBe(0);
+    });
+
+    it("matches the known distance between New York and London", () => {
+      const distance = haversineDistanceKm(
+        { lat: 40.7128, lng: -74.006 },
+        { lat: 51.5074, lng: -0.1278 },
+      );
+      expect(distance).toBeGreaterThan(5560);
+      expect(distance).toBeLessThan(5580);
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+
+import { jsonSchemaDefinition, MAX_PATTERN_VALUE_LENGTH, patternIssue, validateJsonSchema } from "../lib/json-schema";
+
+const sensorSchema = {
+  type: "object" as const,
+  required: ["unit", "range"],
+  properties: {
+    unit: { type: "string" as const, enum: ["C", "F"] },
+    range: {
+      type: "array" as const,
+      items: { type: "number" as const },
+      minItems: 2,
+      maxItems: 2,
+    },
+  },
+};
+
+describe("json schema", () => {
+  describe("jsonSchemaDefinition", () => {
+    it("accepts the supported keywords", () => {
+      expect(jsonSchemaDefinition.safeParse(sensorSchema).success).toBe(true);
+    });
+
+    it("rejects unsupported keywords and invalid patterns", () => {
+      expect(jsonSchemaDefinition.safeParse({ type: "object", oneOf: [] }).success).toBe(false);
+      expect(jsonSchemaDefinition.safeParse({ type: "string", pattern: "(" }).success).toBe(false);
+    });
+  });
+
+  describe("patternIssue", () => {
+    it("accepts ordinary patterns", () => {
+      for (const pattern of ["^[A-Z]{2}-\\d{4}$", "^(?:v\\d+)?\\.[a-z]+$", "^(?<unit>[a-z]+)(,\\d)?$", "^[(*+)]+$"]) {
+        expect(patternIssue(pattern)).toBeNull();
+      }
+    });
+
+    it("rejects patterns that can backtrack catastrophically", () => {
+      for (const pattern of ["^(a+)+$", "(a|aa)*b", "((ab)*c)+", "(x\\d?){2,}", "(\\w)\\1", "a*b*c*", "x".repeat(101)]) {
+        expect(patternIssue(pattern)).not.toBeNull();
+      }
+    });
+  });
+
+  describe("validateJsonSchema", () => {
+    it("accepts a matching value", () => {
+      expect(validateJsonSchema(sensorSchema, { unit: "C", range: [-40, 125] })).toEqual([]);
+    });
+
+    it("reports missing and invalid fields by path", () => {
+      expect(validateJsonSchema(sensorSchema, { unit: "K", range: [0, "hot"] }, ["metadata"])).toEqual([
+        { path: ["metadata", "unit"], message: "Expected one of \"C\", \"F\"" },
+        { path: ["metadata", "range", 1], message: "Expected number, received string" },
+      ]);
+      expect(validateJsonSchema(sensorSchema, {})).toEqual([
+        { path: ["unit"], message: "Required" },
+        { path: ["range"], message: "Required" },
+      ]);
+    });
+
+    it("does not run patterns on long values or unsafe saved patterns", () => {
+      expect(validateJsonSchema({ type: "string", pattern: "^a+$" }, "a".repeat(MAX_PATTERN_VALUE_LENGTH + 1))).toHaveLength(1);
+      expect(validateJsonSchema({ type: "string", pattern: "^(a+)+$" }, "aaa")).toEqual([
+        { path: [], message: "Pattern ^(a+)+$ is not supported" },
+      ]);
+    });
+
+    it("treats integers as numbers but not the reverse", () => {
+      expect(validateJsonSchema({ type: "number" }, 3)).toEqual([]);
+      expect(validateJsonSchema({ type: "integer" }, 3.5)).toHaveLength(1);
+    });
+
+    it("rejects unknown keys when additionalProperties is false", () => {
+      expect(validateJsonSchema({ type: "object", additionalProperties: false }, { extra: 1 })).toEqual([
+        { path: ["extra"], message: "Unrecognized key" },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+
+import { insertLabelSchema } from "../db/schema/labels";
+import { groupTaskLabels, normalizeLabelName } from "../lib/labels";
+
+describe("labels", () => {
+  it("normalizes whitespace in names", () => {
+    expect(normalizeLabelName("  needs   parts ")).toBe("needs parts");
+  });
+
+  it("validates new labels", () => {
+    expect(insertLabelSchema.parse({ name: " Safety ", color: "#3B82F6" })).toEqual({ name: "Safety", color: "#3b82f6" });
+    expect(insertLabelSchema.safeParse({ name: "   ", color: "#3b82f6" }).success).toBe(false);
+    expect(insertLabelSchema.safeParse({ name: "Safety", color: "blue" }).success).toBe(false);
+  });
+
+  it("groups labels by task, keeping tasks without labels", () => {
+    const grouped = groupTaskLabels([1, 2, 3], [
+      { taskId: 1, label: "a" },
+      { taskId: 3, label: "b" },
+      { taskId: 1, label: "c" },
+      { taskId: 9, label: "d" },
+    ]);
+
+    expect(grouped.get(1)).toEqual(["a", "c"]);
+    expect(grouped.get(2)).toEqual([]);
+    expect(grouped.get(3)).toEqual(["b"]);
+    expect(grouped.has(9)).toBe(false);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+
+import { maintenancePriority, maintenanceSettings, maintenanceTrigger } from "../lib/maintenance-tasks";
+
+const now = new Date("2026-01-01T12:00:00Z");
+const defaults = maintenanceSettings(null);
+
+describe("maintenance tasks", () => {
+  describe("maintenanceSettings", () => {
+    it("fills in defaults", () => {
+      expect(defaults).toEqual({ enabled: true, autoClose: true, offlineThresholdMinutes: 60, priorities: {} });
+    });
+
+    it("reads the tenant's overrides and ignores invalid values", () => {
+      expect(maintenanceSettings({ maintenanceTasks: { autoClose: false, offlineThresholdMinutes: 15 } }))
+        .toMatchObject({ autoClose: false, offlineThresholdMinutes: 15 });
+      expect(maintenanceSettings({ maintenanceTasks: { autoClose: "no", offlineThresholdMinutes: -5 } }))
+        .toMatchObject({ autoClose: true, offlineThresholdMinutes: 60 });
+    });
+
+    it("falls back to the defaults when the tenant's settings are not an object", () => {
+      expect(maintenanceSettings("enabled")).toEqual(defaults);
+      expect(maintenanceSettings({ maintenanceTasks: [] })).toEqual(defaults);
+    });
+  });
+
+  describe("maintenancePriority", () => {
+    it("uses the tenant's priority for the device type before the default", () => {
+      expect(maintenancePriority("gateway", defaults)).toBe("urgent");
+      expect(maintenancePriority("sensor", defaults)).toBe("low");
+      expect(maintenancePriority("sensor", maintenanceSettings({ maintenanceTasks: { priorities: { sensor: "high" } } })))
+        .toBe("high");
+    });
+  });
+
+  describe("maintenanceTrigger", () => {
+    it("opens a task for errors right away", () => {
+      expect(maintenanceTrigger({ status: "error", lastSeenAt: now }, defaults, now)).toBe("error");
+    });
+
+    it("opens a task once a device has been offline past the threshold", () => {
+      const lastSeenAt = new Date(now.getTime() - 60 * 60 * 1000);
+      expect(maintenanceTrigger({ status: "offline", lastSeenAt }, defaults, now)).toBe("offline");
+      expect(maintenanceTrigger({ status: "offline", lastSeenAt: new Date(now.getTime() - 1000) }, defaults, now)).toBeNull();
+    });
+
+    it("ignores devices that never reported or are healthy", () => {
+      expect(maintenanceTrigger({ status: "offline", lastSeenAt: null }, defaults, now)).toBeNull();
+      expect(maintenanceTrigger({ status: "online", lastSeenAt: now }, defaults, now)).toBeNull();
+      expect(maintenanceTrigger({ status: "maintenance", lastSeenAt: null }, defaults, now)).toBeNull();
+    });
+  });
+});
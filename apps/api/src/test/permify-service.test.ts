@@ -33,7 +33,7 @@ const mockCache = {
 };
 
 vi.mock('node-cache', () => {
-  return vi.fn(() => mockCache);
+  return { default: vi.fn(() => mockCache) };
 });
 
 // Mock logger
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+
+import { nextOccurrence, parseRecurrenceRule } from "../lib/recurrence";
+
+function next(rrule: string, start: string, after: string, timeZone?: string) {
+  const rule = parseRecurrenceRule(rrule);
+  if (!rule) {
+    throw new Error(`Invalid rule ${rrule}`);
+  }
+  return nextOccurrence(rule, new Date(start), new Date(after), timeZone)?.toISOString() ?? null;
+}
+
+describe("recurrence", () => {
+  describe("parseRecurrenceRule", () => {
+    it("parses the supported parts", () => {
+      expect(parseRecurrenceRule("RRULE:FREQ=MONTHLY;INTERVAL=3;BYDAY=-1FR;COUNT=4")).toEqual({
+        freq: "MONTHLY",
+        interval: 3,
+        count: 4,
+        byDay: [{ weekday: 4, ordinal: -1 }],
+      });
+      expect(parseRecurrenceRule("freq=yearly;bymonth=1,7;until=20301231")?.until?.toISOString())
+        .toBe("2030-12-31T23:59:59.000Z");
+    });
+
+    it("rejects unsupported or contradictory rules", () => {
+      expect(parseRecurrenceRule("FREQ=HOURLY")).toBeNull();
+      expect(parseRecurrenceRule("INTERVAL=2")).toBeNull();
+      expect(parseRecurrenceRule("FREQ=DAILY;BYSETPOS=1")).toBeNull();
+      expect(parseRecurrenceRule("FREQ=DAILY;COUNT=2;UNTIL=20300101")).toBeNull();
+      expect(parseRecurrenceRule("FREQ=WEEKLY;BYDAY=1MO")).toBeNull();
+      expect(parseRecurrenceRule("FREQ=MONTHLY;BYMONTHDAY=0")).toBeNull();
+      expect(parseRecurrenceRule("FREQ=DAILY;FREQ=WEEKLY")).toBeNull();
+    });
+  });
+
+  describe("nextOccurrence", () => {
+    it("steps daily and weekly rules", () => {
+      expect(next("FREQ=DAILY;INTERVAL=2", "2026-01-01T09:00:00Z", "2026-01-01T09:00:00Z")).toBe("2026-01-03T09:00:00.000Z");
+      expect(next("FREQ=WEEKLY;BYDAY=MO,TH", "2026-01-05T09:00:00Z", "2026-01-05T09:00:00Z")).toBe("2026-01-08T09:00:00.000Z");
+      expect(next("FREQ=WEEKLY;BYDAY=MO,TH", "2026-01-05T09:00:00Z", "2026-01-08T09:00:00Z")).toBe("2026-01-12T09:00:00.000Z");
+    });
+
+    it("skips months without the start day", () => {
+      expect(next("FREQ=MONTHLY", "2026-01-31T09:00:00Z", "2026-01-31T09:00:00Z")).toBe("2026-03-31T09:00:00.000Z");
+      expect(next("FREQ=MONTHLY;BYMONTHDAY=-1", "2026-01-31T09:00:00Z", "2026-01-31T09:00:00Z")).toBe("2026-02-28T09:00:00.000Z");
+    });
+
+    it("picks ordinal weekdays", () => {
+      // Second Tuesday of each quarter's first month
+      expect(next("FREQ=MONTHLY;INTERVAL=3;BYDAY=2TU", "2026-01-13T09:00:00Z", "2026-01-13T09:00:00Z")).toBe("2026-04-14T09:00:00.000Z");
+      expect(next("FREQ=YEARLY;BYMONTH=11;BYDAY=4TH", "2026-11-26T12:00:00Z", "2026-11-26T12:00:00Z")).toBe("2027-11-25T12:00:00.000Z");
+    });
+
+    it("ends after COUNT occurrences including the start, or at UNTIL", () => {
+      expect(next("FREQ=DAILY;COUNT=3", "2026-01-01T09:00:00Z", "2026-01-02T09:00:00Z")).toBe("2026-01-03T09:00:00.000Z");
+      expect(next("FREQ=DAILY;COUNT=3", "2026-01-01T09:00:00Z", "2026-01-03T09:00:00Z")).toBeNull();
+      expect(next("FREQ=DAILY;UNTIL=20260102T000000Z", "2026-01-01T09:00:00Z", "2026-01-01T09:00:00Z")).toBeNull();
+    });
+
+    it("keeps the wall-clock time across a DST change", () => {
+      // 09:00 in New York is 14:00 UTC in winter and 13:00 UTC in summer
+      expect(next("FREQ=MONTHLY", "2026-02-10T14:00:00Z", "2026-02-10T14:00:00Z", "America/New_York")).toBe("2026-03-10T13:00:00.000Z");
+    });
+
+    it("uses the time zone's calendar date", () => {
+      // 23:30 on Jan 31 in Los Angeles is already Feb 1 in UTC
+      expect(next("FREQ=MONTHLY", "2026-02-01T07:30:00Z", "2026-02-01T07:30:00Z", "America/Los_Angeles")).toBe("2026-04-01T06:30:00.000Z");
+    });
+  });
+});
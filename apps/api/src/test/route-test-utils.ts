@@ -0,0 +1,164 @@
+import type { MiddlewareHandler } from "hono";
+
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { createMiddleware } from "hono/factory";
+import { HTTPException } from "hono/http-exception";
+import { randomUUID } from "node:crypto";
+import { createRequire } from "node:module";
+import pino from "pino";
+
+import type { Executor } from "../db";
+import type { AppEnv } from "../env";
+import type { RelationshipData } from "../lib/permify-service";
+
+import * as schema from "../db/schema";
+import { PermifyService } from "../lib/permify-service";
+
+// The ESM build of drizzle-kit's API fails to load its own CommonJS dependencies
+const { pushSchema } = createRequire(import.meta.url)("drizzle-kit/api") as typeof import("drizzle-kit/api");
+
+// Route tests mock ../env with this, since the real module exits on NODE_ENV=test
+export const testEnv: AppEnv = {
+  PORT: 3001,
+  LOG_LEVEL: "fatal",
+  NODE_ENV: "development",
+  DB_HOST: "localhost",
+  DB_PORT: "5432",
+  DB_USER: "test",
+  DB_PASSWORD: "test",
+  DB_NAME: "test",
+  KEYCLOAK_URL: "http://localhost:8080",
+  KEYCLOAK_REALM: "test",
+  KEYCLOAK_CLIENT_ID: "test",
+  PERMIFY_ENABLED: "false",
+  PERMIFY_ENDPOINT: "localhost:3476",
+  PERMIFY_TENANT_ID: "test",
+  PERMIFY_CACHE_TTL: "300",
+  PERMIFY_CACHE_MAX_KEYS: "10000",
+  PERMIFY_TIMEOUT: "5000",
+  DEVICE_HEARTBEAT_INTERVAL_SECONDS: 60,
+  DEVICE_OFFLINE_MISSED_HEARTBEATS: 3,
+  DEVICE_OFFLINE_SWEEP_INTERVAL_SECONDS: 60,
+  FIRMWARE_UPDATE_ACK_TIMEOUT_SECONDS: 86400,
+  ATTACHMENT_STORAGE_DRIVER: "local",
+  ATTACHMENT_STORAGE_PATH: "./storage/attachments",
+  ATTACHMENT_URL_SECRET: "test-attachment-url-secret-0123456789",
+  ATTACHMENT_URL_TTL_SECONDS: 300,
+};
+
+/**
+ * An in-memory Postgres with the current schema, standing in for ../db
+ */
+export async function createTestDatabase() {
+  const pool = new PGlite();
+  const db = drizzle(pool, { schema });
+  // pushSchema only accepts a database typed without a schema
+  const { apply } = await pushSchema(schema, db as unknown as Parameters<typeof pushSchema>[1]);
+  await apply();
+  return { db, pool };
+}
+
+/**
+ * Stands in for Keycloak: the bearer token is the id of the signed in user
+ */
+export function testKeycloakAuth(optional = false): MiddlewareHandler {
+  return createMiddleware(async (c, next) => {
+    const userId = c.req.header("Authorization")?.replace(/^Bearer /, "");
+    if (!userId) {
+      if (optional) {
+        return next();
+      }
+      throw new HTTPException(401, { message: "Missing or invalid authorization header" });
+    }
+
+    c.set("user", { sub: userId });
+    c.set("userId", userId);
+    await next();
+  });
+}
+
+/**
+ * Records relationship writes instead of sending them to Permify. Checks and
+ * lookups allow exactly the entities in `permitted`, whatever the permission.
+ */
+export class TestPermifyService extends PermifyService {
+  readonly calls: { action: "write" | "delete"; relationship: RelationshipData }[] = [];
+  readonly permitted = new Set<string>();
+  failWrites = false;
+
+  constructor() {
+    super({ endpoint: "localhost:3476", tenantId: "test" }, pino({ level: "silent" }));
+  }
+
+  permit(type: string, id: string) {
+    this.permitted.add(`${type}:${id}`);
+  }
+
+  override async writeRelationship(relationship: RelationshipData): Promise<void> {
+    this.record("write", [relationship]);
+  }
+
+  override async writeBulkRelationships(data: { relationships: RelationshipData[] }): Promise<void> {
+    this.record("write", data.relationships);
+  }
+
+  override async deleteRelationship(relationship: RelationshipData): Promise<void> {
+    this.record("delete", [relationship]);
+  }
+
+  override async checkPermission(entity: RelationshipData["entity"]): Promise<boolean> {
+    return this.permitted.has(`${entity.type}:${entity.id}`);
+  }
+
+  override async lookupEntities(entityType: string, _permission: string, _subject: RelationshipData["subject"], scopeIds?: string[]): Promise<string[]> {
+    return [...this.permitted]
+      .filter(key => key.startsWith(`${entityType}:`))
+      .map(key => key.slice(entityType.length + 1))
+      .filter(id => !scopeIds || scopeIds.includes(id));
+  }
+
+  private record(action: "write" | "delete", relationships: RelationshipData[]) {
+    if (action === "write" && this.failWrites) {
+      throw new Error("Permify is unavailable");
+    }
+    this.calls.push(...relationships.map(relationship => ({ action, relationship })));
+  }
+}
+
+// Route tests point the mocked permifyContext at this; null means Permify is disabled
+export const testPermify: { service: TestPermifyService | null } = { service: null };
+
+export function testPermifyContext(): MiddlewareHandler {
+  return createMiddleware(async (c, next) => {
+    c.set("permifyService", testPermify.service);
+    c.set("permifyHelpers", null);
+    await next();
+  });
+}
+
+export async function createTestUser(db: Executor, name: string) {
+  const [user] = await db.insert(schema.users).values({
+    keycloakId: randomUUID(),
+    email: `${randomUUID()}@example.com`,
+    name,
+  }).returning();
+  return user;
+}
+
+/**
+ * A tenant with the given users as active members
+ */
+export async function createTestTenant(db: Executor, members: { userId: string; role: "owner" | "admin" | "member" | "viewer" }[]) {
+  const [tenant] = await db.insert(schema.tenants).values({
+    name: "Test tenant",
+    slug: `test-${randomUUID()}`,
+  }).returning();
+
+  if (members.length > 0) {
+    await db.insert(schema.userTenantAssociations).values(
+      members.map(member => ({ ...member, tenantId: tenant.id })),
+    );
+  }
+  return tenant;
+}
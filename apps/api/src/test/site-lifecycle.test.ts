@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+
+import { canTransitionSite, cascadedDeviceStatus, closesSiteTasks } from "../lib/site-lifecycle";
+
+describe("site lifecycle", () => {
+  it("allows moving between the live statuses", () => {
+    expect(canTransitionSite("active", "maintenance")).toBe(true);
+    expect(canTransitionSite("maintenance", "active")).toBe(true);
+    expect(canTransitionSite("inactive", "active")).toBe(true);
+  });
+
+  it("rejects staying in the same status", () => {
+    expect(canTransitionSite("active", "active")).toBe(false);
+  });
+
+  it("treats decommissioned as terminal", () => {
+    expect(canTransitionSite("active", "decommissioned")).toBe(true);
+    expect(canTransitionSite("decommissioned", "active")).toBe(false);
+    expect(canTransitionSite("decommissioned", "maintenance")).toBe(false);
+  });
+
+  it("cascades maintenance and decommissioning to devices", () => {
+    expect(cascadedDeviceStatus("maintenance")).toBe("maintenance");
+    expect(cascadedDeviceStatus("decommissioned")).toBe("decommissioned");
+    expect(cascadedDeviceStatus("active")).toBeNull();
+    expect(cascadedDeviceStatus("inactive")).toBeNull();
+  });
+
+  it("closes the site's open tasks only when decommissioning", () => {
+    expect(closesSiteTasks("decommissioned")).toBe(true);
+    expect(closesSiteTasks("maintenance")).toBe(false);
+    expect(closesSiteTasks("inactive")).toBe(false);
+    expect(closesSiteTasks("active")).toBe(false);
+  });
+});
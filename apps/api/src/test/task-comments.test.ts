@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+
+import { isWithinEditWindow, parseMentions, resolveMentions, TASK_COMMENT_EDIT_WINDOW_MINUTES } from "../lib/task-comments";
+
+const members = [
+  { userId: "u1", email: "Jane.Doe@example.com" },
+  { userId: "u2", email: "sam@example.com" },
+  { userId: "u3", email: "sam@contractor.io" },
+];
+
+describe("task comments", () => {
+  describe("parseMentions", () => {
+    it("finds handles and email addresses", () => {
+      expect(parseMentions("@jane.doe can you check this with @Sam@Contractor.io?")).toEqual(["jane.doe", "sam@contractor.io"]);
+    });
+
+    it("ignores addresses in plain text and trailing punctuation", () => {
+      expect(parseMentions("Mail ops@example.com, then ping @jane.doe.")).toEqual(["jane.doe"]);
+      expect(parseMentions("@sam @sam @SAM")).toEqual(["sam"]);
+    });
+  });
+
+  describe("resolveMentions", () => {
+    it("matches full addresses and unique handles", () => {
+      expect(resolveMentions(["jane.doe", "sam@contractor.io"], members)).toEqual(["u1", "u3"]);
+    });
+
+    it("skips ambiguous and unknown handles", () => {
+      expect(resolveMentions(["sam", "nobody"], members)).toEqual([]);
+    });
+  });
+
+  it("allows edits within the window", () => {
+    const createdAt = new Date("2026-10-19T10:00:00Z");
+    const limit = new Date(createdAt.getTime() + TASK_COMMENT_EDIT_WINDOW_MINUTES * 60 * 1000);
+    expect(isWithinEditWindow(createdAt, limit)).toBe(true);
+    expect(isWithinEditWindow(createdAt, new Date(limit.getTime() + 1))).toBe(false);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+
+import { describeDependencyCycle, findBlockerPath, findDependencyCycle } from "../lib/task-dependencies";
+
+// 1 is blocked by 2, which is blocked by 3 and 4; 4 is blocked by 5
+const edges = [
+  { taskId: 1, blockedById: 2 },
+  { taskId: 2, blockedById: 3 },
+  { taskId: 2, blockedById: 4 },
+  { taskId: 4, blockedById: 5 },
+];
+
+describe("task dependencies", () => {
+  it("finds the chain of blockers between two tasks", () => {
+    expect(findBlockerPath(edges, 1, 5)).toEqual([1, 2, 4, 5]);
+    expect(findBlockerPath(edges, 3, 3)).toEqual([3]);
+  });
+
+  it("does not follow edges backwards", () => {
+    expect(findBlockerPath(edges, 5, 1)).toBeNull();
+    expect(findBlockerPath(edges, 3, 4)).toBeNull();
+  });
+
+  it("rejects an edge that closes a cycle", () => {
+    expect(findDependencyCycle(edges, { taskId: 5, blockedById: 1 })).toEqual([5, 1, 2, 4, 5]);
+    expect(findDependencyCycle(edges, { taskId: 2, blockedById: 1 })).toEqual([2, 1, 2]);
+    expect(findDependencyCycle(edges, { taskId: 6, blockedById: 6 })).toEqual([6, 6]);
+  });
+
+  it("accepts edges that keep the graph acyclic", () => {
+    expect(findDependencyCycle(edges, { taskId: 1, blockedById: 5 })).toBeNull();
+    expect(findDependencyCycle(edges, { taskId: 3, blockedById: 5 })).toBeNull();
+  });
+
+  it("terminates on graphs that already contain a cycle", () => {
+    const cyclic = [{ taskId: 1, blockedById: 2 }, { taskId: 2, blockedById: 1 }];
+    expect(findBlockerPath(cyclic, 1, 3)).toBeNull();
+  });
+
+  it("describes the cycle", () => {
+    expect(describeDependencyCycle([5, 1, 2, 5])).toBe("This would make task #5 wait on itself: #5 → #1 → #2 → #5");
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+
+import { checkTaskParent, MAX_TASK_DEPTH, taskHierarchySettings, taskProgress } from "../lib/task-hierarchy";
+
+describe("task hierarchy", () => {
+  describe("checkTaskParent", () => {
+    it("allows nesting up to the depth limit", () => {
+      expect(checkTaskParent({ taskId: null, ancestry: [2, 1], subtreeHeight: 0 })).toBeNull();
+      expect(checkTaskParent({ taskId: 5, ancestry: [1], subtreeHeight: MAX_TASK_DEPTH - 2 })).toBeNull();
+    });
+
+    it("rejects nesting past the depth limit", () => {
+      expect(checkTaskParent({ taskId: null, ancestry: [3, 2, 1], subtreeHeight: 0 })?.path).toEqual(["parentId"]);
+      expect(checkTaskParent({ taskId: 5, ancestry: [1], subtreeHeight: MAX_TASK_DEPTH - 1 })).not.toBeNull();
+    });
+
+    it("rejects cycles", () => {
+      expect(checkTaskParent({ taskId: 1, ancestry: [1], subtreeHeight: 0 })?.message).toMatch(/itself/);
+      expect(checkTaskParent({ taskId: 1, ancestry: [3, 1], subtreeHeight: 1 })?.message).toMatch(/itself/);
+    });
+  });
+
+  it("counts completed items", () => {
+    expect(taskProgress([{ done: true }, { done: false }, { done: true }])).toEqual({ completed: 2, total: 3 });
+    expect(taskProgress([])).toEqual({ completed: 0, total: 0 });
+  });
+
+  it("reads the open subtask policy with a blocking default", () => {
+    expect(taskHierarchySettings(null)).toEqual({ openSubtasks: "block" });
+    expect(taskHierarchySettings({ tasks: { openSubtasks: "cascade" } })).toEqual({ openSubtasks: "cascade" });
+    expect(taskHierarchySettings({ tasks: { openSubtasks: "sometimes" } })).toEqual({ openSubtasks: "block" });
+    expect(taskHierarchySettings(["tasks"])).toEqual({ openSubtasks: "block" });
+  });
+});
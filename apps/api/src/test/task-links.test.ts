@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+
+import { requestedTaskLinks, resolveTaskLinks } from "../lib/task-links";
+
+const device = { id: "device-1", siteId: "site-1" };
+
+describe("task links", () => {
+  describe("resolveTaskLinks", () => {
+    it("leaves unlinked tasks unlinked", () => {
+      expect(resolveTaskLinks({}, undefined, undefined)).toEqual({
+        links: { siteId: null, deviceId: null },
+      });
+    });
+
+    it("links a task to its device's site", () => {
+      expect(resolveTaskLinks({ deviceId: device.id }, undefined, device)).toEqual({
+        links: { siteId: "site-1", deviceId: "device-1" },
+      });
+    });
+
+    it("rejects a site or device outside the tenant", () => {
+      expect(resolveTaskLinks({ siteId: "other" }, undefined, undefined).issue?.path).toEqual(["siteId"]);
+      expect(resolveTaskLinks({ deviceId: "other" }, undefined, undefined).issue?.path).toEqual(["deviceId"]);
+    });
+
+    it("rejects a device at another site", () => {
+      const result = resolveTaskLinks({ siteId: "site-2", deviceId: device.id }, { id: "site-2" }, device);
+      expect(result.issue).toEqual({ path: ["deviceId"], message: "Device is not at this site" });
+    });
+  });
+
+  describe("requestedTaskLinks", () => {
+    const current = { siteId: "site-1", deviceId: "device-1" };
+
+    it("keeps the device when only the site changes", () => {
+      expect(requestedTaskLinks(current, { siteId: "site-2" })).toEqual({ siteId: "site-2", deviceId: "device-1" });
+    });
+
+    it("takes the site from a newly linked device", () => {
+      expect(requestedTaskLinks(current, { deviceId: "device-2" })).toEqual({ siteId: null, deviceId: "device-2" });
+    });
+
+    it("keeps the site when the device is unlinked", () => {
+      expect(requestedTaskLinks(current, { deviceId: null })).toEqual({ siteId: "site-1", deviceId: null });
+    });
+  });
+});
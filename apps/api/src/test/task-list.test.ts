@@ -0,0 +1,27 @@
+import { Buffer } from "node:buffer";
+import { describe, expect, it } from "vitest";
+
+import { decodeTaskCursor, encodeTaskCursor } from "../lib/task-list";
+
+describe("task list cursors", () => {
+  it("round-trips a cursor", () => {
+    const cursor = { sort: "dueDate" as const, key: "2026-10-19 04:21:15.123", id: 42 };
+    expect(decodeTaskCursor(encodeTaskCursor(cursor), "dueDate")).toEqual(cursor);
+  });
+
+  it("keeps tasks without a due date addressable", () => {
+    const cursor = { sort: "dueDate" as const, key: "infinity", id: 7 };
+    expect(decodeTaskCursor(encodeTaskCursor(cursor), "dueDate")).toEqual(cursor);
+  });
+
+  it("rejects a cursor issued for another sort", () => {
+    const encoded = encodeTaskCursor({ sort: "priority", key: "3", id: 1 });
+    expect(decodeTaskCursor(encoded, "createdAt")).toBeNull();
+  });
+
+  it("rejects malformed cursors", () => {
+    expect(decodeTaskCursor("not a cursor", "createdAt")).toBeNull();
+    expect(decodeTaskCursor(Buffer.from("{\"id\":1}").toString("base64url"), "createdAt")).toBeNull();
+    expect(decodeTaskCursor(Buffer.from("[\"createdAt\",\"x\",1.5]").toString("base64url"), "createdAt")).toBeNull();
+  });
+});
@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+
+import { parseBucket } from "../lib/telemetry";
+
+describe("telemetry", () => {
+  describe("parseBucket", () => {
+    it("parses widths in seconds, minutes, hours and days", () => {
+      expect(parseBucket("30s")).toBe(30);
+      expect(parseBucket("5m")).toBe(300);
+      expect(parseBucket("1h")).toBe(3600);
+      expect(parseBucket("7d")).toBe(604800);
+    });
+
+    it("rejects malformed, zero and oversized widths", () => {
+      expect(parseBucket("5")).toBeNull();
+      expect(parseBucket("5w")).toBeNull();
+      expect(parseBucket("1.5h")).toBeNull();
+      expect(parseBucket("0m")).toBeNull();
+      expect(parseBucket("32d")).toBeNull();
+    });
+  });
+});
@@ -1,4 +1,4 @@
-import type { insertTasksSchema, patchTasksSchema } from "@tasks-app/api/schema";
+import type { insertTasksSchema, patchTaskChecklistItemSchema, patchTasksSchema } from "@tasks-app/api/schema";
 
 import { queryOptions } from "@tanstack/react-query";
 
@@ -8,6 +8,10 @@ import formatApiError from "./format-api-error";
 export const queryKeys = {
   LIST_TASKS: (tenantId: string) => ({ queryKey: ["list-tasks", tenantId] }),
   LIST_TASK: (tenantId: string, id: string) => ({ queryKey: [`list-task-${id}`, tenantId] }),
+  SEARCH_TASKS: (tenantId: string, q: string) => ({ queryKey: ["search-tasks", tenantId, q] }),
+  TASK_COMMENTS: (tenantId: string, taskId: number) => ({ queryKey: ["task-comments", tenantId, taskId] }),
+  TASK_ATTACHMENTS: (tenantId: string, taskId: number) => ({ queryKey: ["task-attachments", tenantId, taskId] }),
+  TASK_DEPENDENCIES: (tenantId: string, taskId: number) => ({ queryKey: ["task-dependencies", tenantId, taskId] }),
 };
 
 export const tasksQueryOptions = (tenantId: string) => queryOptions({
@@ -15,9 +19,32 @@ export const tasksQueryOptions = (tenantId: string) => queryOptions({
   queryFn: async () => {
     const response = await apiClient.api.tenants[":tenantId"].tasks.$get({
       param: { tenantId },
+      query: {},
     });
-    return response.json();
+    const json = await response.json();
+    if ("success" in json) {
+      const message = formatApiError(json);
+      throw new Error(message);
+    }
+    return json;
+  },
+});
+
+export const searchTasksQueryOptions = (tenantId: string, q: string) => queryOptions({
+  ...queryKeys.SEARCH_TASKS(tenantId, q),
+  queryFn: async () => {
+    const response = await apiClient.api.tenants[":tenantId"].tasks.search.$get({
+      param: { tenantId },
+      query: { q },
+    });
+    const json = await response.json();
+    if ("success" in json) {
+      const message = formatApiError(json);
+      throw new Error(message);
+    }
+    return json;
   },
+  enabled: q.length > 0,
 });
 
 export const createTaskQueryOptions = (tenantId: string, id: string) => queryOptions({
@@ -74,13 +101,15 @@ export const deleteTask = async (tenantId: string, id: string) => {
   }
 };
 
-export const updateTask = async ({ tenantId, id, task }: { tenantId: string; id: string; task: patchTasksSchema }) => {
+// force completes the task even while tasks blocking it are open
+export const updateTask = async ({ tenantId, id, task, force }: { tenantId: string; id: string; task: patchTasksSchema; force?: boolean }) => {
   const response = await apiClient.api.tenants[":tenantId"].tasks[":id"].$patch({
     param: {
       tenantId,
       // @ts-expect-error allow to show server error
       id,
     },
+    query: force ? { force: "true" } : {},
     json: task,
   });
   if (response.status !== 200) {
@@ -92,3 +121,237 @@ export const updateTask = async ({ tenantId, id, task }: { tenantId: string; id:
     throw new Error(message);
   }
 };
+
+export const createSubtask = async (tenantId: string, parentId: number, name: string) => {
+  const response = await apiClient.api.tenants[":tenantId"].tasks.$post({
+    param: { tenantId },
+    // The tenant and creator come from the request
+    json: { name, parentId } as insertTasksSchema,
+  });
+  const json = await response.json();
+  if ("success" in json) {
+    const message = formatApiError(json);
+    throw new Error(message);
+  }
+  return json;
+};
+
+export const createChecklistItem = async (tenantId: string, taskId: number, text: string) => {
+  const response = await apiClient.api.tenants[":tenantId"].tasks[":id"].checklist.$post({
+    param: { tenantId, id: taskId },
+    json: { text },
+  });
+  const json = await response.json();
+  if ("message" in json) {
+    throw new Error(json.message);
+  }
+  if ("success" in json) {
+    const message = formatApiError(json);
+    throw new Error(message);
+  }
+  return json;
+};
+
+export const updateChecklistItem = async ({ tenantId, taskId, itemId, item }: { tenantId: string; taskId: number; itemId: string; item: patchTaskChecklistItemSchema }) => {
+  const response = await apiClient.api.tenants[":tenantId"].tasks[":id"].checklist[":itemId"].$patch({
+    param: { tenantId, id: taskId, itemId },
+    json: item,
+  });
+  if (response.status !== 200) {
+    const json = await response.json();
+    if ("message" in json) {
+      throw new Error(json.message);
+    }
+    const message = formatApiError(json);
+    throw new Error(message);
+  }
+};
+
+export const deleteChecklistItem = async (tenantId: string, taskId: number, itemId: string) => {
+  const response = await apiClient.api.tenants[":tenantId"].tasks[":id"].checklist[":itemId"].$delete({
+    param: { tenantId, id: taskId, itemId },
+  });
+  if (response.status !== 204) {
+    const json = await response.json();
+    if ("message" in json) {
+      throw new Error(json.message);
+    }
+    const message = formatApiError(json);
+    throw new Error(message);
+  }
+};
+
+export const taskCommentsQueryOptions = (tenantId: string, taskId: number) => queryOptions({
+  ...queryKeys.TASK_COMMENTS(tenantId, taskId),
+  queryFn: async () => {
+    const response = await apiClient.api.tenants[":tenantId"].tasks[":id"].comments.$get({
+      param: { tenantId, id: taskId },
+    });
+    const json = await response.json();
+    if ("message" in json) {
+      throw new Error(json.message);
+    }
+    if ("success" in json) {
+      const message = formatApiError(json);
+      throw new Error(message);
+    }
+    return json;
+  },
+});
+
+export const postTaskComment = async (tenantId: string, taskId: number, body: string) => {
+  const response = await apiClient.api.tenants[":tenantId"].tasks[":id"].comments.$post({
+    param: { tenantId, id: taskId },
+    json: { body },
+  });
+  const json = await response.json();
+  if ("message" in json) {
+    throw new Error(json.message);
+  }
+  if ("success" in json) {
+    const message = formatApiError(json);
+    throw new Error(message);
+  }
+  return json;
+};
+
+export const editTaskComment = async ({ tenantId, taskId, commentId, body }: { tenantId: string; taskId: number; commentId: string; body: string }) => {
+  const response = await apiClient.api.tenants[":tenantId"].tasks[":id"].comments[":commentId"].$patch({
+    param: { tenantId, id: taskId, commentId },
+    json: { body },
+  });
+  if (response.status !== 200) {
+    const json = await response.json();
+    if ("message" in json) {
+      throw new Error(json.message);
+    }
+    const message = formatApiError(json);
+    throw new Error(message);
+  }
+};
+
+export const deleteTaskComment = async (tenantId: string, taskId: number, commentId: string) => {
+  const response = await apiClient.api.tenants[":tenantId"].tasks[":id"].comments[":commentId"].$delete({
+    param: { tenantId, id: taskId, commentId },
+  });
+  if (response.status !== 204) {
+    const json = await response.json();
+    if ("message" in json) {
+      throw new Error(json.message);
+    }
+    const message = formatApiError(json);
+    throw new Error(message);
+  }
+};
+
+export const taskAttachmentsQueryOptions = (tenantId: string, taskId: number) => queryOptions({
+  ...queryKeys.TASK_ATTACHMENTS(tenantId, taskId),
+  queryFn: async () => {
+    const response = await apiClient.api.tenants[":tenantId"].tasks[":id"].attachments.$get({
+      param: { tenantId, id: taskId },
+    });
+    const json = await response.json();
+    if ("message" in json) {
+      throw new Error(json.message);
+    }
+    if ("success" in json) {
+      const message = formatApiError(json);
+      throw new Error(message);
+    }
+    return json;
+  },
+});
+
+export const uploadTaskAttachment = async (tenantId: string, taskId: number, file: File) => {
+  const response = await apiClient.api.tenants[":tenantId"].tasks[":id"].attachments.$post({
+    param: { tenantId, id: taskId },
+    form: { file },
+  });
+  const json = await response.json();
+  if ("message" in json) {
+    throw new Error(json.message);
+  }
+  if ("success" in json) {
+    const message = formatApiError(json);
+    throw new Error(message);
+  }
+  return json;
+};
+
+// Download URLs are short-lived, so one is requested each time a file is opened
+export const getTaskAttachmentUrl = async (tenantId: string, taskId: number, attachmentId: string) => {
+  const response = await apiClient.api.tenants[":tenantId"].tasks[":id"].attachments[":attachmentId"].url.$get({
+    param: { tenantId, id: taskId, attachmentId },
+  });
+  const json = await response.json();
+  if ("message" in json) {
+    throw new Error(json.message);
+  }
+  if ("success" in json) {
+    const message = formatApiError(json);
+    throw new Error(message);
+  }
+  return json;
+};
+
+export const deleteTaskAttachment = async (tenantId: string, taskId: number, attachmentId: string) => {
+  const response = await apiClient.api.tenants[":tenantId"].tasks[":id"].attachments[":attachmentId"].$delete({
+    param: { tenantId, id: taskId, attachmentId },
+  });
+  if (response.status !== 204) {
+    const json = await response.json();
+    if ("message" in json) {
+      throw new Error(json.message);
+    }
+    const message = formatApiError(json);
+    throw new Error(message);
+  }
+};
+
+export const taskDependenciesQueryOptions = (tenantId: string, taskId: number) => queryOptions({
+  ...queryKeys.TASK_DEPENDENCIES(tenantId, taskId),
+  queryFn: async () => {
+    const response = await apiClient.api.tenants[":tenantId"].tasks[":id"].dependencies.$get({
+      param: { tenantId, id: taskId },
+    });
+    const json = await response.json();
+    if ("message" in json) {
+      throw new Error(json.message);
+    }
+    if ("success" in json) {
+      const message = formatApiError(json);
+      throw new Error(message);
+    }
+    return json;
+  },
+});
+
+export const addTaskDependency = async (tenantId: string, taskId: number, blockedById: number) => {
+  const response = await apiClient.api.tenants[":tenantId"].tasks[":id"].dependencies.$post({
+    param: { tenantId, id: taskId },
+    json: { blockedById },
+  });
+  const json = await response.json();
+  if ("message" in json) {
+    throw new Error(json.message);
+  }
+  if ("success" in json) {
+    const message = formatApiError(json);
+    throw new Error(message);
+  }
+  return json;
+};
+
+export const removeTaskDependency = async (tenantId: string, taskId: number, blockedById: number) => {
+  const response = await apiClient.api.tenants[":tenantId"].tasks[":id"].dependencies[":blockedById"].$delete({
+    param: { tenantId, id: taskId, blockedById },
+  });
+  if (response.status !== 204) {
+    const json = await response.json();
+    if ("message" in json) {
+      throw new Error(json.message);
+    }
+    const message = formatApiError(json);
+    throw new Error(message);
+  }
+};
@@ -1,6 +1,7 @@
 import { useKeycloak } from "@react-keycloak/web";
 import { useSuspenseQuery } from "@tanstack/react-query";
 import { createFileRoute } from "@tanstack/react-router";
+import { useState } from "react";
 
 import RoutePending from "@/web/components/route-pending";
 import { TenantSelector } from "@/web/components/tenant-selector";
@@ -9,6 +10,7 @@ import queryClient from "@/web/lib/query-client";
 import { useTenant } from "@/web/lib/tenant-context";
 import TaskForm from "@/web/routes/~task/components/form";
 import TaskList from "@/web/routes/~task/components/list";
+import TaskSearch from "@/web/routes/~task/components/search";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 
@@ -68,6 +70,7 @@ function TasksContent({ tenantId }: { tenantId: string }) {
   const {
     data,
   } = useSuspenseQuery(tasksQueryOptions(tenantId));
+  const [searching, setSearching] = useState(false);
 
   return (
     <div className="space-y-6">
@@ -76,7 +79,8 @@ function TasksContent({ tenantId }: { tenantId: string }) {
         <TenantSelector />
       </div>
       <TaskForm tenantId={tenantId} />
-      <TaskList tasks={data} tenantId={tenantId} />
+      <TaskSearch tenantId={tenantId} onSearchChange={setSearching} />
+      {!searching && <TaskList tasks={data.items} tenantId={tenantId} />}
     </div>
   );
 }
@@ -0,0 +1,119 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useRef } from "react";
+
+import dateFormatter from "@/web/lib/date-formatter";
+import {
+  deleteTaskAttachment,
+  getTaskAttachmentUrl,
+  queryKeys,
+  taskAttachmentsQueryOptions,
+  uploadTaskAttachment,
+} from "@/web/lib/queries";
+import { Button } from "@/components/ui/button";
+
+type TaskAttachmentsProps = {
+  tenantId: string;
+  taskId: number;
+};
+
+function formatSize(bytes: number) {
+  if (bytes < 1024 * 1024) {
+    return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export default function TaskAttachments({ tenantId, taskId }: TaskAttachmentsProps) {
+  const queryClient = useQueryClient();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const { data: attachments, error: loadError } = useQuery(taskAttachmentsQueryOptions(tenantId, taskId));
+
+  const refresh = () => queryClient.invalidateQueries(queryKeys.TASK_ATTACHMENTS(tenantId, taskId));
+
+  const uploadMutation = useMutation({
+    mutationFn: (file: File) => uploadTaskAttachment(tenantId, taskId, file),
+    onSettled: () => {
+      if (fileInput.current) {
+        fileInput.current.value = "";
+      }
+    },
+    onSuccess: refresh,
+  });
+  const openMutation = useMutation({
+    mutationFn: (attachmentId: string) => getTaskAttachmentUrl(tenantId, taskId, attachmentId),
+    onSuccess: ({ url }) => {
+      window.open(url, "_blank", "noopener");
+    },
+  });
+  const deleteMutation = useMutation({
+    mutationFn: (attachmentId: string) => deleteTaskAttachment(tenantId, taskId, attachmentId),
+    onSuccess: refresh,
+  });
+
+  const pending = uploadMutation.isPending || deleteMutation.isPending;
+  const error = loadError?.message || uploadMutation.error?.message || openMutation.error?.message
+    || deleteMutation.error?.message;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium">Attachments</h3>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={pending}
+          onClick={() => fileInput.current?.click()}
+        >
+          {uploadMutation.isPending ? "Uploading..." : "Attach file"}
+        </Button>
+        <input
+          ref={fileInput}
+          type="file"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) {
+              uploadMutation.mutate(file);
+            }
+          }}
+        />
+      </div>
+      {error && (
+        <div className="p-3 text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {attachments?.length === 0 && (
+        <p className="text-sm text-muted-foreground">No attachments yet.</p>
+      )}
+      {attachments?.map(attachment => (
+        <div key={attachment.id} className="flex items-center justify-between rounded-md border p-3">
+          <div className="min-w-0">
+            <button
+              type="button"
+              className="block truncate text-sm font-medium text-primary hover:underline"
+              disabled={openMutation.isPending}
+              onClick={() => openMutation.mutate(attachment.id)}
+            >
+              {attachment.fileName}
+            </button>
+            <span className="text-xs text-muted-foreground">
+              {formatSize(attachment.size)}
+              {" · "}
+              {dateFormatter.format(new Date(attachment.createdAt))}
+            </span>
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={pending}
+            onClick={() => deleteMutation.mutate(attachment.id)}
+          >
+            Delete
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
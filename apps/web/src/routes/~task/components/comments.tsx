@@ -0,0 +1,144 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useState } from "react";
+
+import dateFormatter from "@/web/lib/date-formatter";
+import {
+  deleteTaskComment,
+  editTaskComment,
+  postTaskComment,
+  queryKeys,
+  taskCommentsQueryOptions,
+} from "@/web/lib/queries";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+type TaskCommentsProps = {
+  tenantId: string;
+  taskId: number;
+};
+
+// Highlights @mentions; whether they matched a member is only known to the server
+function CommentBody({ body }: { body: string }) {
+  const parts = body.split(/((?<![\w.+-])@[\w.+-]+(?:@[\w-]+(?:\.[\w-]+)+)?)/g);
+  return (
+    <p className="text-sm whitespace-pre-wrap">
+      {parts.map((part, index) => index % 2 === 1
+        ? <span key={index} className="font-medium text-primary">{part}</span>
+        : part)}
+    </p>
+  );
+}
+
+export default function TaskComments({ tenantId, taskId }: TaskCommentsProps) {
+  const queryClient = useQueryClient();
+  const { data: comments, error: loadError } = useQuery(taskCommentsQueryOptions(tenantId, taskId));
+  const [body, setBody] = useState("");
+  const [editing, setEditing] = useState<{ id: string; body: string } | null>(null);
+
+  const refresh = () => queryClient.invalidateQueries(queryKeys.TASK_COMMENTS(tenantId, taskId));
+
+  const postMutation = useMutation({
+    mutationFn: (text: string) => postTaskComment(tenantId, taskId, text),
+    onSuccess: async () => {
+      setBody("");
+      await refresh();
+    },
+  });
+  const editMutation = useMutation({
+    mutationFn: ({ id, body }: { id: string; body: string }) =>
+      editTaskComment({ tenantId, taskId, commentId: id, body }),
+    onSuccess: async () => {
+      setEditing(null);
+      await refresh();
+    },
+  });
+  const deleteMutation = useMutation({
+    mutationFn: (commentId: string) => deleteTaskComment(tenantId, taskId, commentId),
+    onSuccess: refresh,
+  });
+
+  const pending = postMutation.isPending || editMutation.isPending || deleteMutation.isPending;
+  const error = loadError?.message || postMutation.error?.message || editMutation.error?.message
+    || deleteMutation.error?.message;
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-medium">Comments</h3>
+      {error && (
+        <div className="p-3 text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {comments?.map(comment => (
+        <div key={comment.id} className="rounded-md border p-3 space-y-2">
+          <div className="flex items-center justify-between text-xs text-muted-foreground">
+            <span>
+              <span className="font-medium text-foreground">{comment.author?.name ?? "Former member"}</span>
+              {" · "}
+              {dateFormatter.format(new Date(comment.createdAt))}
+              {comment.editedAt && " (edited)"}
+            </span>
+            <div className="flex space-x-1">
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={pending}
+                onClick={() => setEditing({ id: comment.id, body: comment.body })}
+              >
+                Edit
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={pending}
+                onClick={() => deleteMutation.mutate(comment.id)}
+              >
+                Delete
+              </Button>
+            </div>
+          </div>
+          {editing?.id === comment.id
+            ? (
+                <form
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    editMutation.mutate(editing);
+                  }}
+                  className="flex space-x-2"
+                >
+                  <Input
+                    value={editing.body}
+                    onChange={(e) => setEditing({ ...editing, body: e.target.value })}
+                    disabled={pending}
+                  />
+                  <Button type="submit" disabled={pending || !editing.body.trim()}>Save</Button>
+                  <Button type="button" variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+                </form>
+              )
+            : <CommentBody body={comment.body} />}
+        </div>
+      ))}
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (body.trim()) {
+            postMutation.mutate(body.trim());
+          }
+        }}
+        className="flex space-x-2"
+      >
+        <Input
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          placeholder="Write a comment, @mention teammates..."
+          disabled={pending}
+        />
+        <Button type="submit" disabled={pending || !body.trim()}>
+          Comment
+        </Button>
+      </form>
+    </div>
+  );
+}
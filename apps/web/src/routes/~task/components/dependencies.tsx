@@ -0,0 +1,147 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link } from "@tanstack/react-router";
+import { useState } from "react";
+
+import {
+  addTaskDependency,
+  queryKeys,
+  removeTaskDependency,
+  taskDependenciesQueryOptions,
+  updateTask,
+} from "@/web/lib/queries";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+type TaskDependenciesProps = {
+  tenantId: string;
+  taskId: number;
+  done: boolean;
+};
+
+export default function TaskDependencies({ tenantId, taskId, done }: TaskDependenciesProps) {
+  const queryClient = useQueryClient();
+  const { data: graph, error: loadError } = useQuery(taskDependenciesQueryOptions(tenantId, taskId));
+  const [blockerId, setBlockerId] = useState("");
+
+  const refresh = async () => {
+    await queryClient.invalidateQueries(queryKeys.TASK_DEPENDENCIES(tenantId, taskId));
+    await queryClient.invalidateQueries(queryKeys.LIST_TASK(tenantId, String(taskId)));
+    await queryClient.invalidateQueries(queryKeys.LIST_TASKS(tenantId));
+  };
+
+  const addMutation = useMutation({
+    mutationFn: (blockedById: number) => addTaskDependency(tenantId, taskId, blockedById),
+    onSuccess: async () => {
+      setBlockerId("");
+      await refresh();
+    },
+  });
+  const removeMutation = useMutation({
+    mutationFn: (blockedById: number) => removeTaskDependency(tenantId, taskId, blockedById),
+    onSuccess: refresh,
+  });
+  const forceCompleteMutation = useMutation({
+    mutationFn: () => updateTask({ tenantId, id: String(taskId), task: { done: true }, force: true }),
+    onSuccess: refresh,
+  });
+
+  const tasksById = new Map(graph?.nodes.map(node => [node.id, node]));
+  const blockers = graph?.edges.filter(edge => edge.taskId === taskId).map(edge => tasksById.get(edge.blockedById)) ?? [];
+  const blocks = graph?.edges.filter(edge => edge.blockedById === taskId).map(edge => tasksById.get(edge.taskId)) ?? [];
+
+  const pending = addMutation.isPending || removeMutation.isPending || forceCompleteMutation.isPending;
+  const error = loadError?.message || addMutation.error?.message || removeMutation.error?.message
+    || forceCompleteMutation.error?.message;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center space-x-2">
+        <h3 className="text-sm font-medium">Dependencies</h3>
+        {graph?.blocked && <Badge variant="destructive">Blocked</Badge>}
+      </div>
+      {error && (
+        <div className="p-3 text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {blockers.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">Blocked by</p>
+          {blockers.map(blocker => blocker && (
+            <div key={blocker.id} className="flex items-center justify-between text-sm">
+              <Link
+                to="/task/$id"
+                params={{ id: String(blocker.id) }}
+                search={{ tenantId }}
+                className={blocker.done ? "line-through text-muted-foreground" : "hover:underline"}
+              >
+                #{blocker.id} {blocker.name ?? "Restricted task"}
+              </Link>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={pending}
+                onClick={() => removeMutation.mutate(blocker.id)}
+              >
+                Remove
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {blocks.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">Blocks</p>
+          {blocks.map(dependent => dependent && (
+            <Link
+              key={dependent.id}
+              to="/task/$id"
+              params={{ id: String(dependent.id) }}
+              search={{ tenantId }}
+              className="block text-sm hover:underline"
+            >
+              #{dependent.id} {dependent.name ?? "Restricted task"}
+            </Link>
+          ))}
+        </div>
+      )}
+
+      {graph?.blocked && !done && (
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={pending}
+          onClick={() => forceCompleteMutation.mutate()}
+        >
+          Complete anyway
+        </Button>
+      )}
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          const blockedById = Number(blockerId);
+          if (Number.isInteger(blockedById) && blockedById > 0) {
+            addMutation.mutate(blockedById);
+          }
+        }}
+        className="flex space-x-2"
+      >
+        <Input
+          type="number"
+          min={1}
+          value={blockerId}
+          onChange={(e) => setBlockerId(e.target.value)}
+          placeholder="Blocked by task #"
+          disabled={pending}
+        />
+        <Button type="submit" disabled={pending || !blockerId}>
+          Add blocker
+        </Button>
+      </form>
+    </div>
+  );
+}
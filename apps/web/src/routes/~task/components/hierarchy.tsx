@@ -0,0 +1,175 @@
+import type { selectTaskChecklistItemSchema, selectTasksSchema } from "@tasks-app/api/schema";
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "@tanstack/react-router";
+import { useState } from "react";
+import { Trash2 } from "lucide-react";
+
+import {
+  createChecklistItem,
+  createSubtask,
+  deleteChecklistItem,
+  queryKeys,
+  updateChecklistItem,
+  updateTask,
+} from "@/web/lib/queries";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+
+type TaskHierarchyProps = {
+  tenantId: string;
+  taskId: number;
+  subtasks: Pick<selectTasksSchema, "id" | "name" | "done">[];
+  checklist: Pick<selectTaskChecklistItemSchema, "id" | "text" | "done">[];
+  progress: { completed: number; total: number };
+};
+
+// A text input that submits on enter or with its button
+function AddItem({ placeholder, pending, onAdd }: { placeholder: string; pending: boolean; onAdd: (value: string) => void }) {
+  const [value, setValue] = useState("");
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (value.trim()) {
+          onAdd(value.trim());
+          setValue("");
+        }
+      }}
+      className="flex space-x-2"
+    >
+      <Input
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        placeholder={placeholder}
+        disabled={pending}
+      />
+      <Button type="submit" variant="outline" disabled={pending || !value.trim()}>
+        Add
+      </Button>
+    </form>
+  );
+}
+
+export default function TaskHierarchy({ tenantId, taskId, subtasks, checklist, progress }: TaskHierarchyProps) {
+  const queryClient = useQueryClient();
+  const refresh = async () => {
+    await queryClient.invalidateQueries(queryKeys.LIST_TASK(tenantId, String(taskId)));
+    await queryClient.invalidateQueries(queryKeys.LIST_TASKS(tenantId));
+  };
+
+  const addSubtask = useMutation({
+    mutationFn: (name: string) => createSubtask(tenantId, taskId, name),
+    onSuccess: refresh,
+  });
+  const updateSubtask = useMutation({
+    mutationFn: ({ id, done, parentId }: { id: number; done?: boolean; parentId?: null }) =>
+      updateTask({ tenantId, id: String(id), task: { done, parentId } }),
+    onSuccess: refresh,
+  });
+  const addItem = useMutation({
+    mutationFn: (text: string) => createChecklistItem(tenantId, taskId, text),
+    onSuccess: refresh,
+  });
+  const toggleItem = useMutation({
+    mutationFn: ({ itemId, done }: { itemId: string; done: boolean }) =>
+      updateChecklistItem({ tenantId, taskId, itemId, item: { done } }),
+    onSuccess: refresh,
+  });
+  const removeItem = useMutation({
+    mutationFn: (itemId: string) => deleteChecklistItem(tenantId, taskId, itemId),
+    onSuccess: refresh,
+  });
+
+  const pending = addSubtask.isPending || updateSubtask.isPending || addItem.isPending
+    || toggleItem.isPending || removeItem.isPending;
+  const error = addSubtask.error?.message || updateSubtask.error?.message || addItem.error?.message
+    || toggleItem.error?.message || removeItem.error?.message;
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-3 text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {progress.total > 0 && (
+        <div className="space-y-1">
+          <div className="flex justify-between text-sm">
+            <span className="font-medium">Progress</span>
+            <span className="text-muted-foreground">{progress.completed}/{progress.total}</span>
+          </div>
+          <div className="h-2 rounded-full bg-muted">
+            <div
+              className="h-2 rounded-full bg-primary"
+              style={{ width: `${(progress.completed / progress.total) * 100}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <h3 className="text-sm font-medium">Subtasks</h3>
+        {subtasks.map(subtask => (
+          <div key={subtask.id} className="flex items-center justify-between space-x-2">
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                checked={subtask.done}
+                onCheckedChange={checked => updateSubtask.mutate({ id: subtask.id, done: checked === true })}
+                disabled={pending}
+              />
+              <Link
+                to="/task/$id"
+                params={{ id: subtask.id.toString() }}
+                search={{ tenantId }}
+                className={`text-sm hover:underline ${subtask.done ? "line-through text-muted-foreground" : ""}`}
+              >
+                {subtask.name}
+              </Link>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={pending}
+              onClick={() => updateSubtask.mutate({ id: subtask.id, parentId: null })}
+            >
+              Detach
+            </Button>
+          </div>
+        ))}
+        <AddItem placeholder="Add a subtask..." pending={pending} onAdd={name => addSubtask.mutate(name)} />
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="text-sm font-medium">Checklist</h3>
+        {checklist.map(item => (
+          <div key={item.id} className="flex items-center justify-between space-x-2">
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                checked={item.done}
+                onCheckedChange={checked => toggleItem.mutate({ itemId: item.id, done: checked === true })}
+                disabled={pending}
+              />
+              <span className={`text-sm ${item.done ? "line-through text-muted-foreground" : ""}`}>
+                {item.text}
+              </span>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={pending}
+              onClick={() => removeItem.mutate(item.id)}
+              aria-label="Remove checklist item"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <AddItem placeholder="Add a checklist item..." pending={pending} onAdd={text => addItem.mutate(text)} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import type { taskLabelSchema } from "@tasks-app/api/schema";
+
+import { Badge } from "@/components/ui/badge";
+
+type TaskLabelsProps = {
+  labels: taskLabelSchema[];
+};
+
+export default function TaskLabels({ labels }: TaskLabelsProps) {
+  if (labels.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {labels.map(label => (
+        <Badge key={label.id} variant="outline" style={{ borderColor: label.color }}>
+          <span className="h-2 w-2 rounded-full" style={{ backgroundColor: label.color }} />
+          {label.name}
+        </Badge>
+      ))}
+    </div>
+  );
+}
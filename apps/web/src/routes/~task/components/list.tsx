@@ -1,10 +1,10 @@
-import type { selectTasksSchema } from "@tasks-app/api/schema";
+import type { selectTasksSchema, taskLabelSchema } from "@tasks-app/api/schema";
 
 import Task from "./task";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 
 type TaskListProps = {
-  tasks: selectTasksSchema[];
+  tasks: (selectTasksSchema & { labels: taskLabelSchema[] })[];
   tenantId: string;
 };
 
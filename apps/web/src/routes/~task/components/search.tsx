@@ -0,0 +1,76 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "@tanstack/react-router";
+import { useEffect, useState } from "react";
+
+import { searchTasksQueryOptions } from "@/web/lib/queries";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+
+type TaskSearchProps = {
+  tenantId: string;
+  onSearchChange: (searching: boolean) => void;
+};
+
+// Snippets mark matches with <mark> tags around otherwise unescaped task text,
+// so they are split into text nodes rather than rendered as HTML
+function Snippet({ text }: { text: string }) {
+  const parts = text.split(/<mark>(.*?)<\/mark>/g);
+  return (
+    <p className="text-sm text-muted-foreground">
+      {parts.map((part, index) => index % 2 === 1
+        ? <mark key={index} className="bg-yellow-200 text-foreground">{part}</mark>
+        : part)}
+    </p>
+  );
+}
+
+export default function TaskSearch({ tenantId, onSearchChange }: TaskSearchProps) {
+  const [input, setInput] = useState("");
+  const [q, setQ] = useState("");
+
+  // Wait for a pause in typing before searching
+  useEffect(() => {
+    const timeout = setTimeout(() => setQ(input.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [input]);
+
+  useEffect(() => {
+    onSearchChange(q.length > 0);
+  }, [q, onSearchChange]);
+
+  const { data, error, isFetching } = useQuery(searchTasksQueryOptions(tenantId, q));
+
+  return (
+    <div className="space-y-3">
+      <Input
+        type="search"
+        placeholder="Search tasks"
+        value={input}
+        onChange={e => setInput(e.target.value)}
+      />
+      {error && (
+        <div className="p-3 text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded-md">
+          {error.message}
+        </div>
+      )}
+      {q && data && data.length === 0 && !isFetching && (
+        <p className="text-sm text-muted-foreground">No matching tasks.</p>
+      )}
+      {q && data?.map(result => (
+        <Card key={result.id}>
+          <CardContent className="p-4 space-y-1">
+            <Link
+              to="/task/$id"
+              params={{ id: result.id.toString() }}
+              search={{ tenantId }}
+              className={`font-medium hover:underline ${result.done ? "line-through text-muted-foreground" : ""}`}
+            >
+              {result.name}
+            </Link>
+            <Snippet text={result.snippet} />
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
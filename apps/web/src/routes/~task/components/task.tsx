@@ -1,12 +1,13 @@
-import type { selectTasksSchema } from "@tasks-app/api/schema";
+import type { selectTasksSchema, taskLabelSchema } from "@tasks-app/api/schema";
 
 import { Link } from "@tanstack/react-router";
+import TaskLabels from "./labels";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { CheckCircle, Circle } from "lucide-react";
 
 type TaskProps = {
-  task: selectTasksSchema;
+  task: selectTasksSchema & { labels: taskLabelSchema[] };
   tenantId: string;
 };
 
@@ -42,9 +43,12 @@ export default function Task({ task, tenantId }: TaskProps) {
             ) : (
               <Circle className="h-5 w-5 text-muted-foreground" />
             )}
-            <h3 className={`font-medium ${task.done ? "line-through text-muted-foreground" : ""}`}>
-              {task.name}
-            </h3>
+            <div className="space-y-1">
+              <h3 className={`font-medium ${task.done ? "line-through text-muted-foreground" : ""}`}>
+                {task.name}
+              </h3>
+              <TaskLabels labels={task.labels} />
+            </div>
           </div>
           <Button variant="outline" asChild>
             <Link
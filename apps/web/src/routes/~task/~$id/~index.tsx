@@ -9,6 +9,11 @@ import queryClient from "@/web/lib/query-client";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import TaskAttachments from "@/web/routes/~task/components/attachments";
+import TaskComments from "@/web/routes/~task/components/comments";
+import TaskDependencies from "@/web/routes/~task/components/dependencies";
+import TaskHierarchy from "@/web/routes/~task/components/hierarchy";
+import TaskLabels from "@/web/routes/~task/components/labels";
 import { CheckCircle, Circle, Calendar, Clock } from "lucide-react";
 
 const searchSchema = z.object({
@@ -63,6 +68,16 @@ function RouteComponent() {
             {data.name}
           </CardTitle>
         </div>
+        {data.parentId && (
+          <Link
+            to="/task/$id"
+            params={{ id: data.parentId.toString() }}
+            search={{ tenantId }}
+            className="text-sm text-muted-foreground hover:underline"
+          >
+            Subtask of task #{data.parentId}
+          </Link>
+        )}
       </CardHeader>
       <CardContent className="space-y-4">
         <div className="flex items-center space-x-2">
@@ -71,6 +86,8 @@ function RouteComponent() {
             {data.done ? "Completed" : "Pending"}
           </Badge>
         </div>
+
+        <TaskLabels labels={data.labels} />
         
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
           <div className="flex items-center space-x-2 text-muted-foreground">
@@ -83,6 +100,20 @@ function RouteComponent() {
           </div>
         </div>
         
+        <TaskHierarchy
+          tenantId={tenantId}
+          taskId={data.id}
+          subtasks={data.subtasks}
+          checklist={data.checklist}
+          progress={data.progress}
+        />
+
+        <TaskDependencies tenantId={tenantId} taskId={data.id} done={data.done} />
+
+        <TaskAttachments tenantId={tenantId} taskId={data.id} />
+
+        <TaskComments tenantId={tenantId} taskId={data.id} />
+
         <div className="flex space-x-2 pt-4">
           <Button asChild>
             <Link to="/task/$id/edit" params={{ id }} search={{ tenantId }}>